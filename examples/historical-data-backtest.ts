@@ -1,11 +1,11 @@
 import * as fs from 'fs';
-import * as readline from 'readline';
 import * as path from 'path';
 import {
   createStreamDecoderState,
   processDataPacket,
   StreamDecoderCallbacks,
 } from '../src/betfair-stream-decoder';
+import { readHistoricalLines } from '../src/historical-data-reader';
 import {
   createMarketRecorderState,
   updateBasicRecord,
@@ -168,25 +168,17 @@ async function backtestHistoricalData(config: BacktestConfig): Promise<BacktestS
     },
   };
 
-  // Process file line by line
-  const fileStream = fs.createReadStream(config.inputFile);
-  const rl = readline.createInterface({
-    input: fileStream,
-    crlfDelay: Infinity,
-  });
-
+  // Process file line by line (.txt, .gz, .bz2 or .tar)
   console.log(`📖 Reading historical data...`);
 
-  for await (const line of rl) {
-    if (line.trim()) {
-      try {
-        totalMessages++;
-        decoderState = processDataPacket(decoderState, callbacks, line.trim());
-      } catch (error) {
-        console.error(`❌ Error processing line ${totalMessages}:`, error);
-        if (config.enableVerboseLogging) {
-          console.error(`📄 Problematic line: ${line.substring(0, 200)}...`);
-        }
+  for await (const { line } of readHistoricalLines(config.inputFile)) {
+    try {
+      totalMessages++;
+      decoderState = processDataPacket(decoderState, callbacks, line);
+    } catch (error) {
+      console.error(`❌ Error processing line ${totalMessages}:`, error);
+      if (config.enableVerboseLogging) {
+        console.error(`📄 Problematic line: ${line.substring(0, 200)}...`);
       }
     }
   }
@@ -6,7 +6,7 @@ import {
   createAndConnectRecordingStream,
   subscribeToMarkets,
   closeStream,
-  createMarketRecorderState,
+  resumeRecording,
   startRecording,
   stopRecording,
   createRecordingMarketChangeCallback,
@@ -51,11 +51,13 @@ async function perpetualGreyhoundRecorder() {
       rawFilePrefix: 'raw_',
       basicFilePrefix: 'basic_',
       recordingMode: 'perpetual', // Never stop automatically
+      checkpoint: { enabled: true, intervalMs: 30000 }, // Survive crashes mid-meeting
     };
 
-    // 3. Initialize recorder
-    recorderState = createMarketRecorderState(recordingConfig);
-    console.log('📝 Perpetual greyhound recorder initialized');
+    // 3. Initialize recorder, picking up any markets in flight before a crash or restart
+    recorderState = resumeRecording(recordingConfig);
+    const resumedMarkets = getRecordingCompletionStatus(recorderState).pendingMarkets;
+    console.log(`📝 Perpetual greyhound recorder initialized (${resumedMarkets.length} markets resumed)`);
 
     // 4. Create recording callbacks
     const rawDataCallback = createRawDataCallback(recorderState);
@@ -73,11 +75,16 @@ async function perpetualGreyhoundRecorder() {
       250,   // conflateMs
       { currencyCode: 'AUD', rate: 1.0 },
       marketChangeCallback,
+      undefined, // orderChangeCallback
       rawDataCallback
     );
 
     console.log('🔗 Connected to stream');
 
+    if (resumedMarkets.length > 0) {
+      streamState = subscribeToMarkets(streamState, resumedMarkets);
+    }
+
     // 6. Function to find and subscribe to new greyhound markets
     const findAndSubscribeToNewMarkets = async () => {
       try {
@@ -124,8 +131,9 @@ async function perpetualGreyhoundRecorder() {
         // Add new markets to recording
         recorderState = addMarketsToRecording(recorderState, newMarketIds);
         
-        // Subscribe to the new markets
-        streamState = subscribeToMarkets(streamState, newMarketIds);
+        // A market subscription replaces the last one, so keep the markets still being recorded
+        const pendingMarkets = getRecordingCompletionStatus(recorderState).pendingMarkets;
+        streamState = subscribeToMarkets(streamState, Array.from(new Set([...pendingMarkets, ...newMarketIds])));
         
         console.log(`✅ Now recording ${recorderState.subscribedMarkets.size} total markets`);
 
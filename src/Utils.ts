@@ -1,3 +1,16 @@
+import {
+  MarketLineRangeInfo,
+  PriceLadderDescription,
+  PriceLadderType,
+} from './betfair-api-types';
+
+import {
+  MarketCache,
+  MarketDefinition,
+  StreamPriceLadderType,
+  StreamRunnerStatus,
+} from './betfair-exchange-stream-api-types';
+
 /**
  * Generates a random packet ID for API requests
  * @returns A random number between 100000000 and 999999999
@@ -68,6 +81,22 @@ export const safeJsonParse = <T>(json: string): T | null => {
   }
 };
 
+export type PriceTickRange = {
+  min: number;
+  max: number;
+  increment: number;
+};
+
+/**
+ * A market's price ladder: the valid prices and the tick increment within each range
+ */
+export type PriceLadder = {
+  type: PriceLadderType;
+  min: number;
+  max: number;
+  ranges: readonly PriceTickRange[];
+};
+
 /**
  * Price ladder tick size definitions based on Betfair's price ranges
  */
@@ -84,93 +113,177 @@ const PRICE_TICK_RANGES = [
   { min: 100, max: 1000, increment: 10 }
 ] as const;
 
+/**
+ * The standard odds ladder used by most markets
+ */
+export const CLASSIC_PRICE_LADDER: PriceLadder = {
+  type: PriceLadderType.CLASSIC,
+  min: 1.01,
+  max: 1000,
+  ranges: PRICE_TICK_RANGES,
+};
+
+/**
+ * Odds ladder with 0.01 increments across the whole range, e.g. Asian handicap markets
+ */
+export const FINEST_PRICE_LADDER: PriceLadder = {
+  type: PriceLadderType.FINEST,
+  min: 1.01,
+  max: 1000,
+  ranges: [{ min: 1.01, max: 1000, increment: 0.01 }],
+};
+
+/**
+ * Creates the ladder of a line market, where prices are line values rather than odds
+ * @param lineRangeInfo - Line range from the market description
+ * @returns Price ladder from minUnitValue to maxUnitValue in steps of interval
+ */
+export const createLineRangePriceLadder = (lineRangeInfo: MarketLineRangeInfo): PriceLadder => ({
+  type: PriceLadderType.LINE_RANGE,
+  min: lineRangeInfo.minUnitValue,
+  max: lineRangeInfo.maxUnitValue,
+  ranges: [{ min: lineRangeInfo.minUnitValue, max: lineRangeInfo.maxUnitValue, increment: lineRangeInfo.interval }],
+});
+
+/**
+ * Gets the price ladder described by a market catalogue description
+ * @param priceLadderDescription - MarketDescription.priceLadderDescription (CLASSIC if missing)
+ * @param lineRangeInfo - MarketDescription.lineRangeInfo, required for LINE_RANGE ladders
+ * @returns The market's price ladder
+ */
+export const getPriceLadder = (
+  priceLadderDescription?: PriceLadderDescription,
+  lineRangeInfo?: MarketLineRangeInfo
+): PriceLadder => {
+  switch (priceLadderDescription?.type) {
+    case PriceLadderType.FINEST:
+      return FINEST_PRICE_LADDER;
+    case PriceLadderType.LINE_RANGE:
+      if (!lineRangeInfo) {
+        throw new Error('LINE_RANGE price ladders require the market line range info');
+      }
+      return createLineRangePriceLadder(lineRangeInfo);
+    default:
+      return CLASSIC_PRICE_LADDER;
+  }
+};
+
+/**
+ * Gets the price ladder of a market from its stream market definition
+ * @param marketDefinition - Market definition from the market stream
+ * @returns The market's price ladder (CLASSIC if not described)
+ */
+export const getMarketDefinitionPriceLadder = (marketDefinition?: MarketDefinition): PriceLadder => {
+  switch (marketDefinition?.priceLadderDefinition?.type) {
+    case StreamPriceLadderType.FINEST:
+      return FINEST_PRICE_LADDER;
+    case StreamPriceLadderType.LINE_RANGE:
+      return getPriceLadder({ type: PriceLadderType.LINE_RANGE }, getStreamLineRangeInfo(marketDefinition));
+    default:
+      return CLASSIC_PRICE_LADDER;
+  }
+};
+
 /**
  * Cache for generated price ladders
  */
 const priceLadderCache = new Map<string, number[]>();
 
+/**
+ * Price to ladder position lookups, built once per ladder
+ */
+const priceIndexCache = new Map<string, Map<number, number>>();
+
 /**
  * Finds the appropriate tick size for a given price
  * @param price - The price to find the tick size for
+ * @param ladder - Price ladder of the market
  * @returns The tick increment for the price range
  */
-export const getTickSize = (price: number): number => {
-  for (const range of PRICE_TICK_RANGES) {
+export const getTickSize = (price: number, ladder: PriceLadder = CLASSIC_PRICE_LADDER): number => {
+  for (const range of ladder.ranges) {
     if (price >= range.min && price < range.max) {
       return range.increment;
     }
   }
-  // For prices >= 1000, use the largest increment
-  return PRICE_TICK_RANGES[PRICE_TICK_RANGES.length - 1]!.increment;
+  // For prices at or above the ladder maximum, use the last increment
+  return getLastRange(ladder).increment;
 };
 
 /**
  * Generates a complete price ladder for a given range with memoization
- * @param minPrice - Minimum price (default: 1.01)
- * @param maxPrice - Maximum price (default: 1000)
+ * @param minPrice - Minimum price (default: the ladder minimum, 1.01)
+ * @param maxPrice - Maximum price (default: the ladder maximum, 1000)
+ * @param ladder - Price ladder of the market
  * @returns Array of valid prices in the ladder
  */
-export const generatePriceLadder = (minPrice: number = 1.01, maxPrice: number = 1000): number[] => {
-  const cacheKey = `${minPrice}-${maxPrice}`;
-  
-  if (priceLadderCache.has(cacheKey)) {
-    return priceLadderCache.get(cacheKey)!;
+export const generatePriceLadder = (
+  minPrice?: number,
+  maxPrice?: number,
+  ladder: PriceLadder = CLASSIC_PRICE_LADDER
+): number[] => {
+  const min = minPrice ?? ladder.min;
+  const max = maxPrice ?? ladder.max;
+  const cacheKey = `${getLadderKey(ladder)}:${min}-${max}`;
+
+  const cached = priceLadderCache.get(cacheKey);
+  if (cached) {
+    return cached;
   }
 
-  const ladder: number[] = [];
-  let currentPrice = minPrice;
+  const prices: number[] = [];
+  let currentPrice = min;
 
-  while (currentPrice <= maxPrice) {
+  while (currentPrice <= max) {
     // Round to avoid floating point precision issues
-    const roundedPrice = Math.round(currentPrice * 100) / 100;
-    ladder.push(roundedPrice);
-    
-    const tickSize = getTickSize(currentPrice);
-    currentPrice += tickSize;
+    const roundedPrice = roundPrice(currentPrice);
+    prices.push(roundedPrice);
+
+    currentPrice = roundPrice(roundedPrice + getTickSize(roundedPrice, ladder));
   }
 
-  priceLadderCache.set(cacheKey, ladder);
-  return ladder;
+  priceLadderCache.set(cacheKey, prices);
+  return prices;
 };
 
 /**
  * Gets the next valid tick price from a given price
  * @param price - The current price
+ * @param ladder - Price ladder of the market
  * @returns The next valid price in the ladder, or null if at maximum
  */
-export const getNextTick = (price: number): number | null => {
-  const tickSize = getTickSize(price);
-  const nextPrice = price + tickSize;
-  
+export const getNextTick = (price: number, ladder: PriceLadder = CLASSIC_PRICE_LADDER): number | null => {
+  const tickSize = getTickSize(price, ladder);
+
   // Round to avoid floating point precision issues
-  const roundedNext = Math.round(nextPrice * 100) / 100;
-  
+  const roundedNext = roundPrice(price + tickSize);
+
   // Check if we've exceeded the maximum price
-  if (roundedNext > 1000) {
+  if (roundedNext > ladder.max) {
     return null;
   }
-  
+
   return roundedNext;
 };
 
 /**
  * Gets the previous valid tick price from a given price
  * @param price - The current price
+ * @param ladder - Price ladder of the market
  * @returns The previous valid price in the ladder, or null if at minimum
  */
-export const getPreviousTick = (price: number): number | null => {
+export const getPreviousTick = (price: number, ladder: PriceLadder = CLASSIC_PRICE_LADDER): number | null => {
   // Find the tick size for the price we're moving to
-  const tickSize = getTickSize(price);
-  const prevPrice = price - tickSize;
-  
+  const tickSize = getTickSize(price, ladder);
+
   // Round to avoid floating point precision issues
-  const roundedPrev = Math.round(prevPrice * 100) / 100;
-  
+  const roundedPrev = roundPrice(price - tickSize);
+
   // Check if we've gone below the minimum price
-  if (roundedPrev < 1.01) {
+  if (roundedPrev < ladder.min) {
     return null;
   }
-  
+
   return roundedPrev;
 };
 
@@ -178,25 +291,29 @@ export const getPreviousTick = (price: number): number | null => {
  * Finds the nearest valid price in the ladder
  * @param price - The price to find the nearest valid price for
  * @param direction - 'up' to round up, 'down' to round down, 'nearest' for closest
+ * @param ladder - Price ladder of the market
  * @returns The nearest valid price in the ladder
  */
-export const getNearestValidPrice = (price: number, direction: 'up' | 'down' | 'nearest' = 'nearest'): number => {
-  if (price < 1.01) return 1.01;
-  if (price > 1000) return 1000;
-  
-  const tickSize = getTickSize(price);
-  const range = PRICE_TICK_RANGES.find(r => price >= r.min && price < r.max);
-  
+export const getNearestValidPrice = (
+  price: number,
+  direction: 'up' | 'down' | 'nearest' = 'nearest',
+  ladder: PriceLadder = CLASSIC_PRICE_LADDER
+): number => {
+  if (price < ladder.min) return ladder.min;
+  if (price > ladder.max) return ladder.max;
+
+  const range = ladder.ranges.find(r => price >= r.min && price < r.max);
+
   if (!range) {
-    // For prices >= 1000, use the last range
-    const lastRange = PRICE_TICK_RANGES[PRICE_TICK_RANGES.length - 1]!;
+    // For the ladder maximum, use the last range
+    const lastRange = getLastRange(ladder);
     const steps = Math.floor((price - lastRange.min) / lastRange.increment);
-    return Math.round((lastRange.min + steps * lastRange.increment) * 100) / 100;
+    return roundPrice(lastRange.min + steps * lastRange.increment);
   }
-  
-  // Calculate steps from the range minimum
-  const stepsFromMin = (price - range.min) / range.increment;
-  
+
+  // Calculate steps from the range minimum, dropping floating point noise so valid prices stay put
+  const stepsFromMin = Math.round(((price - range.min) / range.increment) * 1e6) / 1e6;
+
   let validPrice: number;
   if (direction === 'up') {
     validPrice = range.min + Math.ceil(stepsFromMin) * range.increment;
@@ -205,6 +322,160 @@ export const getNearestValidPrice = (price: number, direction: 'up' | 'down' | '
   } else {
     validPrice = range.min + Math.round(stepsFromMin) * range.increment;
   }
-  
-  return Math.round(validPrice * 100) / 100;
-};
\ No newline at end of file
+
+  return Math.min(roundPrice(validPrice), ladder.max);
+};
+
+/**
+ * Checks whether a price is a tick on the ladder
+ * @param price - The price to check
+ * @param ladder - Price ladder of the market
+ * @returns True if the price can be bet at
+ */
+export const isValidPrice = (price: number, ladder: PriceLadder = CLASSIC_PRICE_LADDER): boolean => {
+  if (price < ladder.min || price > ladder.max) {
+    return false;
+  }
+  return Math.abs(getNearestValidPrice(price, 'nearest', ladder) - price) < 1e-9;
+};
+
+/**
+ * Gets the position of a price on the ladder in O(1) using a precomputed index.
+ * Prices between ticks are rounded to the nearest tick and prices outside the ladder are clamped.
+ * @param price - The price to look up
+ * @param ladder - Price ladder of the market
+ * @returns Zero-based tick index, 0 being the ladder minimum
+ */
+export const getPriceIndex = (price: number, ladder: PriceLadder = CLASSIC_PRICE_LADDER): number => {
+  const index = getPriceIndexMap(ladder).get(getNearestValidPrice(price, 'nearest', ladder));
+  if (index === undefined) {
+    throw new Error(`Price ${price} could not be found on the ${ladder.type} price ladder`);
+  }
+  return index;
+};
+
+/**
+ * Counts the ticks between two prices
+ * @param fromPrice - Starting price
+ * @param toPrice - Target price
+ * @param ladder - Price ladder of the market
+ * @returns Number of ticks, negative if toPrice is below fromPrice
+ */
+export const getTicksBetween = (
+  fromPrice: number,
+  toPrice: number,
+  ladder: PriceLadder = CLASSIC_PRICE_LADDER
+): number => {
+  return getPriceIndex(toPrice, ladder) - getPriceIndex(fromPrice, ladder);
+};
+
+/**
+ * Gets the price a number of ticks away, stopping at the ends of the ladder
+ * @param price - Starting price
+ * @param ticks - Ticks to move, negative to move down
+ * @param ladder - Price ladder of the market
+ * @returns The price on the ladder, clamped to its minimum and maximum
+ */
+export const getPriceTicksAway = (
+  price: number,
+  ticks: number,
+  ladder: PriceLadder = CLASSIC_PRICE_LADDER
+): number => {
+  const prices = generatePriceLadder(undefined, undefined, ladder);
+  const index = Math.min(Math.max(getPriceIndex(price, ladder) + Math.trunc(ticks), 0), prices.length - 1);
+  return prices[index] ?? ladder.min;
+};
+
+/**
+ * Clamps a price to the minimum and maximum of the ladder
+ * @param price - The price to clamp
+ * @param ladder - Price ladder of the market
+ * @returns The price, or the nearest end of the ladder
+ */
+export const clampPrice = (price: number, ladder: PriceLadder = CLASSIC_PRICE_LADDER): number => {
+  return Math.min(Math.max(price, ladder.min), ladder.max);
+};
+
+/**
+ * Converts decimal odds to an implied probability
+ * @param price - Decimal odds
+ * @returns Probability between 0 and 1
+ */
+export const priceToProbability = (price: number): number => {
+  if (price <= 0) {
+    throw new Error(`Price must be greater than 0, got ${price}`);
+  }
+  return 1 / price;
+};
+
+/**
+ * Converts an implied probability to decimal odds
+ * @param probability - Probability between 0 and 1
+ * @returns Decimal odds, not rounded to the ladder - use getNearestValidPrice for a tick
+ */
+export const probabilityToPrice = (probability: number): number => {
+  if (probability <= 0 || probability > 1) {
+    throw new Error(`Probability must be greater than 0 and at most 1, got ${probability}`);
+  }
+  return 1 / probability;
+};
+
+/**
+ * Calculates the back and lay book percentages of a market from the best prices (batb / batl).
+ * A fair book is 100%: above 100 on the back side (or below on the lay side) is the overround.
+ * @param marketCache - Market cache subscribed to EX_BEST_OFFERS
+ * @returns Sum of the implied probabilities of each runner's best price, as percentages
+ */
+export const calculateBookPercentage = (marketCache: MarketCache): { back: number; lay: number } => {
+  let back = 0;
+  let lay = 0;
+
+  Object.values(marketCache.runners).forEach(runner => {
+    if (runner.status === StreamRunnerStatus.REMOVED || runner.status === StreamRunnerStatus.REMOVED_VACANT) {
+      return;
+    }
+
+    const bestBack = runner.batb?.find(([level, , size]) => level === 0 && size > 0);
+    const bestLay = runner.batl?.find(([level, , size]) => level === 0 && size > 0);
+    back += bestBack ? priceToProbability(bestBack[1]) : 0;
+    lay += bestLay ? priceToProbability(bestLay[1]) : 0;
+  });
+
+  return { back: back * 100, lay: lay * 100 };
+};
+
+const roundPrice = (price: number): number => Math.round(price * 100) / 100;
+
+const getLastRange = (ladder: PriceLadder): PriceTickRange => {
+  const lastRange = ladder.ranges[ladder.ranges.length - 1];
+  if (!lastRange) {
+    throw new Error(`${ladder.type} price ladder has no tick ranges`);
+  }
+  return lastRange;
+};
+
+const getLadderKey = (ladder: PriceLadder): string =>
+  ladder.type === PriceLadderType.LINE_RANGE
+    ? `${ladder.type}:${ladder.min}:${ladder.max}:${getLastRange(ladder).increment}`
+    : ladder.type;
+
+const getPriceIndexMap = (ladder: PriceLadder): Map<number, number> => {
+  const key = getLadderKey(ladder);
+  const cached = priceIndexCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const indexes = new Map<number, number>();
+  generatePriceLadder(undefined, undefined, ladder).forEach((price, index) => indexes.set(price, index));
+  priceIndexCache.set(key, indexes);
+  return indexes;
+};
+
+const getStreamLineRangeInfo = (marketDefinition: MarketDefinition): MarketLineRangeInfo | undefined => {
+  const { lineMinUnit, lineMaxUnit, lineInterval } = marketDefinition;
+  if (lineMinUnit === undefined || lineMaxUnit === undefined || lineInterval === undefined) {
+    return undefined;
+  }
+  return { minUnitValue: lineMinUnit, maxUnitValue: lineMaxUnit, interval: lineInterval, marketUnit: '' };
+};
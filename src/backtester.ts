@@ -0,0 +1,859 @@
+import {
+  CancelExecutionReport,
+  CancelInstruction,
+  CancelInstructionReport,
+  ExecutionReportErrorCode,
+  ExecutionReportStatus,
+  InstructionReportErrorCode,
+  InstructionReportStatus,
+  OrderStatus,
+  OrderType,
+  PersistenceType,
+  PlaceExecutionReport,
+  PlaceInstruction,
+  PlaceInstructionReport,
+  ReplaceExecutionReport,
+  ReplaceInstruction,
+  ReplaceInstructionReport,
+  Side,
+} from './betfair-api-types';
+
+import {
+  CurrencyRate,
+  MarketCache,
+  OrderAccountCache,
+  OrderRunnerCache,
+  OrderSide,
+  RunnerCache,
+  StreamMarketStatus,
+  StreamOrderStatus,
+  StreamOrderType,
+  StreamPersistenceType,
+  StreamRunnerStatus,
+  UnmatchedOrder,
+} from './betfair-exchange-stream-api-types';
+
+import { validatePlaceInstruction } from './betfair-api';
+import { StreamDecoderCallbacks, StreamDecoderState, createStreamDecoderState, processDataPacket } from './betfair-stream-decoder';
+import { readHistoricalLines } from './historical-data-reader';
+import { MarkPriceSource } from './position-engine';
+
+import {
+  Strategy,
+  StrategyOrderExecutor,
+  StrategyRouterState,
+  createStrategyRouter,
+  handleStrategyMarketChange,
+  handleStrategyOrderChange,
+  registerStrategy,
+} from './strategy-runtime';
+
+import { getMarketDefinitionPriceLadder, isValidPrice, safeJsonParse } from './utils';
+
+export interface BacktestConfig {
+  currencyRate?: CurrencyRate; // Defaults to GBP at 1 - recorded prices and sizes are in GBP
+  latencyMs?: number; // Time for an order to reach the exchange, default 0
+  betDelayMs?: number; // Overrides the market definition's in-play bet delay
+  commissionRate?: number; // Overrides the market base rate, e.g. 0.05 for 5%
+  priceSource?: MarkPriceSource;
+}
+
+export type BacktestFill = {
+  time: number;
+  price: number;
+  size: number;
+};
+
+export type BacktestBet = {
+  betId: string;
+  marketId: string;
+  selectionId: number;
+  handicap?: number;
+  side: Side;
+  orderType: OrderType;
+  persistenceType: PersistenceType;
+  price: number; // Limit price, or the BSP limit for LIMIT_ON_CLOSE
+  size: number; // Stake, or the liability of BSP orders
+  bspLiability?: number;
+  customerStrategyRef: string;
+  customerOrderRef?: string;
+  placedTime: number;
+  activeTime: number; // When the order reaches the book, after latency and any bet delay
+  status: OrderStatus;
+  queueAhead: number; // Size ahead of the order at its price
+  tradedAtPrice: number; // Recorded traded volume at the price when last checked
+  convertedToSp: boolean; // MARKET_ON_CLOSE persistence taken at BSP once in-play
+  fills: BacktestFill[];
+  sizeMatched: number;
+  averagePriceMatched: number;
+  sizeRemaining: number;
+  sizeCancelled: number;
+  sizeLapsed: number;
+  profit?: number; // Settled P&L before commission
+};
+
+export type BacktestMarketResult = {
+  marketId: string;
+  settled: boolean;
+  winners: number[];
+  grossProfit: number;
+  commission: number;
+  profit: number;
+};
+
+export type BacktestResult = {
+  messages: number;
+  bets: BacktestBet[];
+  markets: { [marketId: string]: BacktestMarketResult };
+  strategies: { [customerStrategyRef: string]: number }; // Settled P&L before commission
+  profit: number; // Settled P&L after commission
+};
+
+export interface BacktestState {
+  config: BacktestConfig;
+  decoder: StreamDecoderState;
+  router: StrategyRouterState;
+  time: number; // Simulated time - the publish time of the latest message
+  messages: number;
+  bets: Map<string, BacktestBet>;
+  markets: Map<string, BacktestMarket>;
+  pendingPlacements: PendingPlacement[];
+  changedOrderMarkets: Set<string>;
+  consumedLiquidity: Map<string, Map<number, number>>; // Size simulated orders took from each opposing price level
+  nextBetId: number;
+}
+
+type BacktestMarket = {
+  market: MarketCache;
+  inPlay: boolean;
+  bspReconciled: boolean;
+  result?: BacktestMarketResult;
+};
+
+type PendingPlacement = {
+  activeTime: number;
+  report: PlaceExecutionReport;
+  betIds: string[];
+  resolve: (report: PlaceExecutionReport) => void;
+};
+
+/**
+ * Creates a backtest that runs strategies against recorded stream data with simulated matching
+ * @param strategies - Strategies to run, unchanged from live trading
+ * @param config - Simulation settings
+ * @returns Backtest state
+ */
+export const createBacktestState = (strategies: Strategy[], config: BacktestConfig = {}): BacktestState => {
+  const state: BacktestState = {
+    config,
+    decoder: createStreamDecoderState(config.currencyRate || { currencyCode: 'GBP', rate: 1 }),
+    router: createStrategyRouter(createSimulatedOrderExecutor(() => state), config.priceSource),
+    time: 0,
+    messages: 0,
+    bets: new Map(),
+    markets: new Map(),
+    pendingPlacements: [],
+    changedOrderMarkets: new Set(),
+    consumedLiquidity: new Map(),
+    nextBetId: 1,
+  };
+
+  strategies.forEach(strategy => registerStrategy(state.router, strategy));
+
+  return state;
+};
+
+/**
+ * Replays recorded stream files through the strategies
+ * @param files - Raw recordings or Betfair historical data files (.txt, .gz, .bz2 or .tar), in time order
+ * @param strategies - Strategies to run
+ * @param config - Simulation settings
+ * @returns Bets, fills and settled P&L
+ */
+export const runBacktest = async (
+  files: string | string[],
+  strategies: Strategy[],
+  config: BacktestConfig = {}
+): Promise<BacktestResult> => {
+  const state = createBacktestState(strategies, config);
+
+  for (const file of Array.isArray(files) ? files : [files]) {
+    for await (const { line } of readHistoricalLines(file)) {
+      processBacktestPacket(state, line);
+    }
+  }
+
+  return getBacktestResult(state);
+};
+
+/**
+ * Advances simulated time to the message's publish time, decodes it and routes it to the strategies
+ * @param state - Backtest state
+ * @param packet - One stream message as JSON
+ * @returns The updated backtest state
+ */
+export const processBacktestPacket = (state: BacktestState, packet: string): BacktestState => {
+  const message = safeJsonParse<{ pt?: number }>(packet);
+  state.messages += 1;
+  if (message?.pt) {
+    state.time = Math.max(state.time, message.pt);
+  }
+
+  // Orders reach the book as it was before this update
+  activatePendingBets(state);
+
+  state.decoder = processDataPacket(state.decoder, createBacktestCallbacks(state), packet);
+  publishOrderChanges(state);
+
+  return state;
+};
+
+/**
+ * Lapses unsettled orders and summarises the bets and P&L of every market
+ * @param state - Backtest state
+ * @returns Backtest result
+ */
+export const getBacktestResult = (state: BacktestState): BacktestResult => {
+  state.pendingPlacements.splice(0).forEach(placement => placement.resolve(placement.report));
+  const bets = Array.from(state.bets.values());
+  const markets: { [marketId: string]: BacktestMarketResult } = {};
+  const strategies: { [customerStrategyRef: string]: number } = {};
+
+  state.markets.forEach((backtestMarket, marketId) => {
+    markets[marketId] = backtestMarket.result || {
+      marketId,
+      settled: false,
+      winners: [],
+      grossProfit: 0,
+      commission: 0,
+      profit: 0,
+    };
+  });
+
+  bets.forEach(bet => {
+    strategies[bet.customerStrategyRef] = (strategies[bet.customerStrategyRef] || 0) + (bet.profit || 0);
+  });
+
+  return {
+    messages: state.messages,
+    bets,
+    markets,
+    strategies,
+    profit: Object.values(markets).reduce((total, market) => total + market.profit, 0),
+  };
+};
+
+const createBacktestCallbacks = (state: BacktestState): StreamDecoderCallbacks => ({
+  onMarketChange: (marketCache): void => {
+    Object.values(marketCache).forEach(market => simulateMarket(state, market));
+    handleStrategyMarketChange(state.router, marketCache);
+  },
+  onStatus: (): void => {},
+  onConnection: (): void => {},
+  onHeartbeat: (): void => {},
+});
+
+// The state is read per order, so the executor can be created along with it
+const createSimulatedOrderExecutor = (getState: () => BacktestState): StrategyOrderExecutor => ({
+  placeOrders: (marketId, instructions, customerRef, customerStrategyRef) =>
+    placeSimulatedOrders(getState(), marketId, instructions, customerRef, customerStrategyRef),
+  cancelOrders: async (marketId, instructions, customerRef) =>
+    cancelSimulatedOrders(getState(), marketId, instructions, customerRef),
+  replaceOrders: async (marketId, instructions, customerRef) =>
+    replaceSimulatedOrders(getState(), marketId, instructions, customerRef),
+});
+
+const placeSimulatedOrders = (
+  state: BacktestState,
+  marketId: string,
+  instructions: PlaceInstruction[],
+  customerRef: string,
+  customerStrategyRef: string
+): Promise<PlaceExecutionReport> => {
+  const backtestMarket = state.markets.get(marketId);
+  const market = state.router.markets.get(marketId)?.market || backtestMarket?.market;
+
+  if (!market || market.marketDefinition?.status !== StreamMarketStatus.OPEN) {
+    return Promise.resolve(createFailedPlaceReport(
+      marketId, instructions, customerRef, ExecutionReportErrorCode.MARKET_NOT_OPEN_FOR_BETTING
+    ));
+  }
+
+  const errorCodes = instructions.map(instruction => validateSimulatedInstruction(market, instruction));
+  if (errorCodes.some(errorCode => errorCode !== undefined)) {
+    return Promise.resolve({
+      customerRef,
+      marketId,
+      status: ExecutionReportStatus.FAILURE,
+      errorCode: ExecutionReportErrorCode.BET_ACTION_ERROR,
+      instructionReports: instructions.map((instruction, index) => ({
+        status: InstructionReportStatus.FAILURE,
+        errorCode: errorCodes[index],
+        instruction,
+      })),
+    });
+  }
+
+  const delayMs = backtestMarket?.inPlay || market.marketDefinition.inPlay
+    ? state.config.betDelayMs ?? (market.marketDefinition.betDelay || 0) * 1000
+    : 0;
+  const activeTime = state.time + (state.config.latencyMs || 0) + delayMs;
+  const bets = instructions.map(instruction => createBet(state, marketId, instruction, customerStrategyRef, activeTime));
+
+  return new Promise(resolve => {
+    state.pendingPlacements.push({
+      activeTime,
+      report: { customerRef, marketId, status: ExecutionReportStatus.SUCCESS, instructionReports: [] },
+      betIds: bets.map(bet => bet.betId),
+      resolve,
+    });
+    activatePendingBets(state);
+  });
+};
+
+const cancelSimulatedOrders = (
+  state: BacktestState,
+  marketId: string,
+  instructions: CancelInstruction[],
+  customerRef?: string
+): CancelExecutionReport => {
+  const instructionReports = instructions.map(instruction => cancelBet(state, marketId, instruction));
+
+  return {
+    customerRef,
+    marketId,
+    status: getExecutionStatus(instructionReports),
+    instructionReports,
+  };
+};
+
+const replaceSimulatedOrders = async (
+  state: BacktestState,
+  marketId: string,
+  instructions: ReplaceInstruction[],
+  customerRef?: string
+): Promise<ReplaceExecutionReport> => {
+  const instructionReports: ReplaceInstructionReport[] = await Promise.all(instructions.map(async instruction => {
+    const bet = state.bets.get(instruction.betId);
+    const cancelInstructionReport = cancelBet(state, marketId, { betId: instruction.betId });
+    if (!bet || cancelInstructionReport.status === InstructionReportStatus.FAILURE) {
+      return { status: InstructionReportStatus.FAILURE, errorCode: cancelInstructionReport.errorCode, cancelInstructionReport };
+    }
+
+    const placeReport = await placeSimulatedOrders(state, marketId, [{
+      orderType: OrderType.LIMIT,
+      selectionId: bet.selectionId,
+      handicap: bet.handicap,
+      side: bet.side,
+      limitOrder: { size: cancelInstructionReport.sizeCancelled, price: instruction.newPrice, persistenceType: bet.persistenceType },
+      customerOrderRef: bet.customerOrderRef,
+    }], customerRef || '', bet.customerStrategyRef);
+    const placeInstructionReport = placeReport.instructionReports?.[0];
+
+    return {
+      status: placeInstructionReport?.status || InstructionReportStatus.FAILURE,
+      errorCode: placeInstructionReport?.errorCode,
+      cancelInstructionReport,
+      placeInstructionReport,
+    };
+  }));
+
+  return { customerRef, marketId, status: getExecutionStatus(instructionReports), instructionReports };
+};
+
+const validateSimulatedInstruction = (
+  market: MarketCache,
+  instruction: PlaceInstruction
+): InstructionReportErrorCode | undefined => {
+  const runner = market.runners[instruction.selectionId.toString()];
+  const runnerDefinition = market.marketDefinition.runners?.find(definition => definition.id === instruction.selectionId);
+  if (!runner && !runnerDefinition) {
+    return InstructionReportErrorCode.INVALID_RUNNER;
+  }
+  if (isRemoved(runner?.status || runnerDefinition?.status)) {
+    return InstructionReportErrorCode.RUNNER_REMOVED;
+  }
+
+  const ladder = getMarketDefinitionPriceLadder(market.marketDefinition);
+  if (validatePlaceInstruction(market.marketId, instruction, undefined, undefined, ladder).isValid) {
+    return undefined;
+  }
+  const price = instruction.limitOrder?.price ?? instruction.limitOnCloseOrder?.price;
+  return price !== undefined && !isValidPrice(price, ladder)
+    ? InstructionReportErrorCode.INVALID_ODDS
+    : InstructionReportErrorCode.INVALID_BET_SIZE;
+};
+
+const createBet = (
+  state: BacktestState,
+  marketId: string,
+  instruction: PlaceInstruction,
+  customerStrategyRef: string,
+  activeTime: number
+): BacktestBet => {
+  const bspLiability = instruction.limitOnCloseOrder?.liability ?? instruction.marketOnCloseOrder?.liability;
+  const size = instruction.limitOrder?.size ?? bspLiability ?? 0;
+  const bet: BacktestBet = {
+    betId: (state.nextBetId++).toString(),
+    marketId,
+    selectionId: instruction.selectionId,
+    handicap: instruction.handicap,
+    side: instruction.side as Side,
+    orderType: instruction.orderType as OrderType,
+    persistenceType: instruction.limitOrder?.persistenceType || PersistenceType.LAPSE,
+    price: instruction.limitOrder?.price ?? instruction.limitOnCloseOrder?.price ?? 0,
+    size,
+    bspLiability,
+    customerStrategyRef,
+    customerOrderRef: instruction.customerOrderRef,
+    placedTime: state.time,
+    activeTime,
+    status: OrderStatus.PENDING,
+    queueAhead: 0,
+    tradedAtPrice: 0,
+    convertedToSp: false,
+    fills: [],
+    sizeMatched: 0,
+    averagePriceMatched: 0,
+    sizeRemaining: size,
+    sizeCancelled: 0,
+    sizeLapsed: 0,
+  };
+
+  state.bets.set(bet.betId, bet);
+  return bet;
+};
+
+const activatePendingBets = (state: BacktestState): void => {
+  const due = state.pendingPlacements.filter(placement => placement.activeTime <= state.time);
+  state.pendingPlacements = state.pendingPlacements.filter(placement => placement.activeTime > state.time);
+
+  due.forEach(placement => {
+    const instructionReports: PlaceInstructionReport[] = [];
+
+    placement.betIds.forEach(betId => {
+      const bet = state.bets.get(betId);
+      if (!bet) {
+        return;
+      }
+
+      if (bet.status === OrderStatus.PENDING) {
+        bet.status = OrderStatus.EXECUTABLE;
+        const runner = state.router.markets.get(bet.marketId)?.market.runners[bet.selectionId.toString()];
+        if (bet.orderType === OrderType.LIMIT && runner) {
+          matchAgainstBook(state, bet, runner);
+          bet.queueAhead = getLevelSize(getRestingLevels(runner, bet.side), bet.price);
+          bet.tradedAtPrice = getTradedVolume(runner, bet.price);
+        }
+        state.changedOrderMarkets.add(bet.marketId);
+      }
+
+      instructionReports.push(createPlaceInstructionReport(bet));
+    });
+
+    placement.resolve({ ...placement.report, instructionReports });
+  });
+};
+
+const cancelBet = (state: BacktestState, marketId: string, instruction: CancelInstruction): CancelInstructionReport => {
+  const bet = state.bets.get(instruction.betId);
+  if (!bet || bet.marketId !== marketId || bet.status === OrderStatus.EXECUTION_COMPLETE || bet.sizeRemaining <= 0) {
+    return {
+      status: InstructionReportStatus.FAILURE,
+      errorCode: InstructionReportErrorCode.BET_TAKEN_OR_LAPSED,
+      instruction,
+      sizeCancelled: 0,
+    };
+  }
+
+  const sizeCancelled = Math.min(instruction.sizeReduction ?? bet.sizeRemaining, bet.sizeRemaining);
+  bet.sizeCancelled = roundSize(bet.sizeCancelled + sizeCancelled);
+  bet.sizeRemaining = roundSize(bet.sizeRemaining - sizeCancelled);
+  completeIfDone(bet);
+  state.changedOrderMarkets.add(marketId);
+
+  return {
+    status: InstructionReportStatus.SUCCESS,
+    instruction,
+    sizeCancelled,
+    cancelledDate: new Date(state.time).toISOString(),
+  };
+};
+
+const simulateMarket = (state: BacktestState, market: MarketCache): void => {
+  const backtestMarket = state.markets.get(market.marketId);
+  if (backtestMarket?.market === market || backtestMarket?.result) {
+    return;
+  }
+
+  const current: BacktestMarket = backtestMarket || { market, inPlay: false, bspReconciled: false };
+  current.market = market;
+  state.markets.set(market.marketId, current);
+
+  const bets = getOpenBets(state, market.marketId);
+  bets.filter(bet => bet.orderType === OrderType.LIMIT && !bet.convertedToSp)
+    .forEach(bet => matchRestingBet(state, bet, market.runners[bet.selectionId.toString()]));
+
+  if (market.marketDefinition?.inPlay && !current.inPlay) {
+    current.inPlay = true;
+    getOpenBets(state, market.marketId).forEach(bet => turnInPlay(state, bet));
+  }
+
+  if (market.marketDefinition?.bspReconciled && !current.bspReconciled) {
+    current.bspReconciled = true;
+    getOpenBets(state, market.marketId).forEach(bet => reconcileBsp(state, bet, market));
+  }
+
+  if (market.marketDefinition?.status === StreamMarketStatus.CLOSED) {
+    getOpenBets(state, market.marketId).forEach(bet => lapseBet(state, bet));
+    current.result = settleMarket(state, market);
+  }
+};
+
+const matchAgainstBook = (state: BacktestState, bet: BacktestBet, runner: RunnerCache): void => {
+  const { consumed, levels } = getCrossingLiquidity(state, bet, runner);
+  levels.forEach(level => consumeLiquidity(consumed, [level], fillBet(state, bet, level[0], level[1])));
+};
+
+const matchRestingBet = (state: BacktestState, bet: BacktestBet, runner?: RunnerCache): void => {
+  if (!runner || bet.status !== OrderStatus.EXECUTABLE) {
+    return;
+  }
+  if (isRemoved(runner.status)) {
+    lapseBet(state, bet);
+    return;
+  }
+
+  // Volume traded at the price first clears the queue ahead, then matches this order
+  const traded = getTradedVolume(runner, bet.price);
+  const tradedSinceCheck = Math.max(0, traded - bet.tradedAtPrice);
+  bet.tradedAtPrice = traded;
+  const tradedFill = Math.max(0, tradedSinceCheck - bet.queueAhead);
+  bet.queueAhead = Math.max(0, bet.queueAhead - tradedSinceCheck);
+
+  // Orders ahead that were cancelled leave the queue
+  bet.queueAhead = Math.min(bet.queueAhead, getLevelSize(getRestingLevels(runner, bet.side), bet.price));
+
+  // Liquidity offered at or through the price would have matched this order
+  const { consumed, levels } = getCrossingLiquidity(state, bet, runner);
+  const crossingSize = levels.reduce((total, [, size]) => total + size, 0);
+
+  consumeLiquidity(consumed, levels, fillBet(state, bet, bet.price, Math.max(tradedFill, crossingSize)));
+};
+
+// Opposing levels the order crosses, best first, less the size simulated orders already took from them
+const getCrossingLiquidity = (
+  state: BacktestState,
+  bet: BacktestBet,
+  runner: RunnerCache
+): { consumed: Map<number, number>; levels: [number, number][] } => {
+  const key = `${bet.marketId}:${bet.selectionId}:${bet.side}`;
+  const consumed = state.consumedLiquidity.get(key) || new Map<number, number>();
+  state.consumedLiquidity.set(key, consumed);
+
+  // The recorded book never shows our fills - size taken stays gone until the level shrinks below it
+  const opposing = getOpposingLevels(runner, bet.side);
+  consumed.forEach((size, price) => {
+    const remaining = Math.min(size, getLevelSize(opposing, price));
+    if (remaining > 0) {
+      consumed.set(price, remaining);
+    } else {
+      consumed.delete(price);
+    }
+  });
+
+  const levels = opposing
+    .filter(([price]) => crosses(bet.side, price, bet.price))
+    .map(([price, size]): [number, number] => [price, roundSize(size - (consumed.get(price) || 0))])
+    .filter(([, size]) => size > 0)
+    .sort(([a], [b]) => (bet.side === Side.BACK ? b - a : a - b));
+  return { consumed, levels };
+};
+
+const consumeLiquidity = (consumed: Map<number, number>, levels: [number, number][], size: number): void => {
+  levels.reduce((left, [price, available]) => {
+    const taken = Math.min(left, available);
+    if (taken > 0) {
+      consumed.set(price, roundSize((consumed.get(price) || 0) + taken));
+    }
+    return left - taken;
+  }, size);
+};
+
+const turnInPlay = (state: BacktestState, bet: BacktestBet): void => {
+  if (bet.orderType !== OrderType.LIMIT) {
+    return;
+  }
+  if (bet.persistenceType === PersistenceType.MARKET_ON_CLOSE) {
+    bet.convertedToSp = true;
+    return;
+  }
+  if (bet.persistenceType === PersistenceType.LAPSE) {
+    lapseBet(state, bet);
+  }
+};
+
+const reconcileBsp = (state: BacktestState, bet: BacktestBet, market: MarketCache): void => {
+  const bsp = market.marketDefinition.runners?.find(definition => definition.id === bet.selectionId)?.bsp;
+  if (!bsp || bet.status !== OrderStatus.EXECUTABLE) {
+    return;
+  }
+
+  if (bet.convertedToSp) {
+    fillBet(state, bet, bsp, bet.sizeRemaining);
+    return;
+  }
+  if (bet.orderType === OrderType.LIMIT) {
+    return;
+  }
+
+  const withinLimit = bet.orderType === OrderType.MARKET_ON_CLOSE || crosses(bet.side, bsp, bet.price);
+  if (!withinLimit) {
+    lapseBet(state, bet);
+    return;
+  }
+
+  // BSP lays risk the liability, so the stake depends on the starting price
+  const stake = bet.side === Side.LAY ? bet.sizeRemaining / (bsp - 1) : bet.sizeRemaining;
+  fillBet(state, bet, bsp, stake);
+  bet.sizeRemaining = 0;
+  completeIfDone(bet);
+};
+
+// Returns the size filled
+const fillBet = (state: BacktestState, bet: BacktestBet, price: number, available: number): number => {
+  const size = roundSize(Math.min(available, bet.bspLiability !== undefined ? available : bet.sizeRemaining));
+  if (size <= 0 || bet.status !== OrderStatus.EXECUTABLE) {
+    return 0;
+  }
+
+  bet.fills.push({ time: state.time, price, size });
+  bet.averagePriceMatched = (bet.averagePriceMatched * bet.sizeMatched + price * size) / (bet.sizeMatched + size);
+  bet.sizeMatched = roundSize(bet.sizeMatched + size);
+  if (bet.bspLiability === undefined) {
+    bet.sizeRemaining = roundSize(bet.sizeRemaining - size);
+  }
+  completeIfDone(bet);
+  state.changedOrderMarkets.add(bet.marketId);
+  return size;
+};
+
+const lapseBet = (state: BacktestState, bet: BacktestBet): void => {
+  if (bet.sizeRemaining <= 0 && bet.status === OrderStatus.EXECUTION_COMPLETE) {
+    return;
+  }
+  bet.sizeLapsed = roundSize(bet.sizeLapsed + bet.sizeRemaining);
+  bet.sizeRemaining = 0;
+  bet.status = OrderStatus.EXECUTION_COMPLETE;
+  state.changedOrderMarkets.add(bet.marketId);
+};
+
+const settleMarket = (state: BacktestState, market: MarketCache): BacktestMarketResult => {
+  const definitions = market.marketDefinition.runners || [];
+  const winners = definitions
+    .filter(definition => definition.status === StreamRunnerStatus.WINNER || definition.status === StreamRunnerStatus.PLACED)
+    .map(definition => definition.id);
+  let grossProfit = 0;
+
+  getMarketBets(state, market.marketId).forEach(bet => {
+    const status = definitions.find(definition => definition.id === bet.selectionId)?.status;
+    const won = winners.includes(bet.selectionId);
+    bet.profit = isRemoved(status) ? 0 : bet.fills.reduce((total, fill) => total + getFillProfit(bet.side, fill, won), 0);
+    grossProfit += bet.profit;
+  });
+
+  const commissionRate = state.config.commissionRate ?? (market.marketDefinition.marketBaseRate || 0) / 100;
+  const commission = Math.max(0, grossProfit) * commissionRate;
+
+  return {
+    marketId: market.marketId,
+    settled: winners.length > 0,
+    winners,
+    grossProfit,
+    commission,
+    profit: grossProfit - commission,
+  };
+};
+
+const publishOrderChanges = (state: BacktestState): void => {
+  if (state.changedOrderMarkets.size === 0) {
+    return;
+  }
+
+  const orderCache = { ...state.router.orderCache };
+  state.changedOrderMarkets.forEach(marketId => {
+    orderCache[marketId] = createOrderAccountCache(state, marketId);
+  });
+  state.changedOrderMarkets.clear();
+
+  handleStrategyOrderChange(state.router, orderCache);
+};
+
+// Builds the order stream view of a market's simulated bets
+const createOrderAccountCache = (state: BacktestState, marketId: string): OrderAccountCache => {
+  const runners: { [key: string]: OrderRunnerCache } = {};
+
+  getMarketBets(state, marketId)
+    .filter(bet => bet.status !== OrderStatus.PENDING)
+    .forEach(bet => {
+      const key = bet.selectionId.toString();
+      const runner = runners[key] || {
+        id: bet.selectionId,
+        hc: bet.handicap,
+        unmatchedOrders: {},
+        matchedBacks: [],
+        matchedLays: [],
+        strategyMatches: {},
+      };
+      const isBack = bet.side === Side.BACK;
+      const strategy = runner.strategyMatches[bet.customerStrategyRef] || { mb: [], ml: [] };
+
+      bet.fills.forEach(fill => {
+        addToLadder(isBack ? runner.matchedBacks : runner.matchedLays, fill);
+        addToLadder((isBack ? strategy.mb : strategy.ml) || [], fill);
+      });
+
+      runner.unmatchedOrders[bet.betId] = createUnmatchedOrder(bet);
+      runner.strategyMatches[bet.customerStrategyRef] = strategy;
+      runners[key] = runner;
+    });
+
+  return { marketId, closed: state.markets.get(marketId)?.result !== undefined, runners, published: state.time };
+};
+
+const createUnmatchedOrder = (bet: BacktestBet): UnmatchedOrder => ({
+  id: bet.betId,
+  p: bet.price,
+  s: bet.bspLiability === undefined ? bet.size : 0,
+  bsp: bet.bspLiability,
+  side: bet.side === Side.LAY ? OrderSide.LAY : OrderSide.BACK,
+  status: bet.status === OrderStatus.EXECUTABLE ? StreamOrderStatus.EXECUTABLE : StreamOrderStatus.EXECUTION_COMPLETE,
+  pt: STREAM_PERSISTENCE_TYPES[bet.persistenceType],
+  ot: STREAM_ORDER_TYPES[bet.orderType],
+  pd: bet.placedTime,
+  md: bet.fills[bet.fills.length - 1]?.time,
+  avp: bet.sizeMatched > 0 ? bet.averagePriceMatched : undefined,
+  sm: bet.sizeMatched,
+  sr: bet.sizeRemaining,
+  sl: bet.sizeLapsed,
+  sc: bet.sizeCancelled,
+  sv: 0,
+  rfo: bet.customerOrderRef,
+  rfs: bet.customerStrategyRef,
+});
+
+const STREAM_PERSISTENCE_TYPES: { [key in PersistenceType]: StreamPersistenceType } = {
+  [PersistenceType.LAPSE]: StreamPersistenceType.LAPSE,
+  [PersistenceType.PERSIST]: StreamPersistenceType.PERSIST,
+  [PersistenceType.MARKET_ON_CLOSE]: StreamPersistenceType.MARKET_ON_CLOSE,
+};
+
+const STREAM_ORDER_TYPES: { [key in OrderType]: StreamOrderType } = {
+  [OrderType.LIMIT]: StreamOrderType.LIMIT,
+  [OrderType.LIMIT_ON_CLOSE]: StreamOrderType.LIMIT_ON_CLOSE,
+  [OrderType.MARKET_ON_CLOSE]: StreamOrderType.MARKET_ON_CLOSE,
+};
+
+const createPlaceInstructionReport = (bet: BacktestBet): PlaceInstructionReport => ({
+  status: InstructionReportStatus.SUCCESS,
+  orderStatus: bet.status,
+  instruction: createInstruction(bet),
+  betId: bet.betId,
+  placedDate: new Date(bet.placedTime).toISOString(),
+  averagePriceMatched: bet.averagePriceMatched,
+  sizeMatched: bet.sizeMatched,
+});
+
+const createInstruction = (bet: BacktestBet): PlaceInstruction => ({
+  orderType: bet.orderType,
+  selectionId: bet.selectionId,
+  handicap: bet.handicap,
+  side: bet.side,
+  ...(bet.orderType === OrderType.LIMIT && {
+    limitOrder: { size: bet.size, price: bet.price, persistenceType: bet.persistenceType },
+  }),
+  ...(bet.orderType === OrderType.LIMIT_ON_CLOSE && {
+    limitOnCloseOrder: { liability: bet.size, price: bet.price },
+  }),
+  ...(bet.orderType === OrderType.MARKET_ON_CLOSE && { marketOnCloseOrder: { liability: bet.size } }),
+  customerOrderRef: bet.customerOrderRef,
+});
+
+const createFailedPlaceReport = (
+  marketId: string,
+  instructions: PlaceInstruction[],
+  customerRef: string,
+  errorCode: ExecutionReportErrorCode
+): PlaceExecutionReport => ({
+  customerRef,
+  marketId,
+  status: ExecutionReportStatus.FAILURE,
+  errorCode,
+  instructionReports: instructions.map(instruction => ({ status: InstructionReportStatus.FAILURE, instruction })),
+});
+
+const getExecutionStatus = (reports: { status: InstructionReportStatus }[]): ExecutionReportStatus => {
+  if (reports.every(report => report.status === InstructionReportStatus.SUCCESS)) {
+    return ExecutionReportStatus.SUCCESS;
+  }
+  return reports.every(report => report.status === InstructionReportStatus.FAILURE)
+    ? ExecutionReportStatus.FAILURE
+    : ExecutionReportStatus.PROCESSED_WITH_ERRORS;
+};
+
+const getMarketBets = (state: BacktestState, marketId: string): BacktestBet[] =>
+  Array.from(state.bets.values()).filter(bet => bet.marketId === marketId);
+
+const getOpenBets = (state: BacktestState, marketId: string): BacktestBet[] =>
+  getMarketBets(state, marketId).filter(bet => bet.status === OrderStatus.EXECUTABLE);
+
+// Backs match against prices available to back at or above their price, lays at or below
+const crosses = (side: Side, bookPrice: number, orderPrice: number): boolean =>
+  side === Side.BACK ? bookPrice >= orderPrice : bookPrice <= orderPrice;
+
+// Full ladders when subscribed to EX_ALL_OFFERS, otherwise the best offers
+const getOpposingLevels = (runner: RunnerCache, side: Side): [number, number][] =>
+  side === Side.BACK ? getLevels(runner.atb, runner.batb) : getLevels(runner.atl, runner.batl);
+
+// Unmatched backs are shown as available to lay, unmatched lays as available to back
+const getRestingLevels = (runner: RunnerCache, side: Side): [number, number][] =>
+  side === Side.BACK ? getLevels(runner.atl, runner.batl) : getLevels(runner.atb, runner.batb);
+
+const getLevels = (full?: [number, number][], best?: [number, number, number][]): [number, number][] => {
+  if (full && full.length > 0) {
+    return full.filter(([, size]) => size > 0);
+  }
+  return (best || []).filter(([, , size]) => size > 0).map(([, price, size]) => [price, size]);
+};
+
+const getLevelSize = (levels: [number, number][], price: number): number =>
+  levels.find(([levelPrice]) => levelPrice === price)?.[1] || 0;
+
+const getTradedVolume = (runner: RunnerCache, price: number): number => getLevelSize(runner.trd || [], price);
+
+const getFillProfit = (side: Side, fill: BacktestFill, won: boolean): number => {
+  if (side === Side.BACK) {
+    return won ? fill.size * (fill.price - 1) : -fill.size;
+  }
+  return won ? -fill.size * (fill.price - 1) : fill.size;
+};
+
+const addToLadder = (ladder: [number, number][], fill: BacktestFill): void => {
+  const level = ladder.find(([price]) => price === fill.price);
+  if (level) {
+    level[1] = roundSize(level[1] + fill.size);
+  } else {
+    ladder.push([fill.price, fill.size]);
+  }
+};
+
+const completeIfDone = (bet: BacktestBet): void => {
+  if (bet.sizeRemaining <= 0) {
+    bet.status = OrderStatus.EXECUTION_COMPLETE;
+  }
+};
+
+const isRemoved = (status?: StreamRunnerStatus): boolean =>
+  status === StreamRunnerStatus.REMOVED || status === StreamRunnerStatus.REMOVED_VACANT;
+
+const roundSize = (size: number): number => Math.round(size * 100) / 100;
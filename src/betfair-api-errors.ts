@@ -0,0 +1,238 @@
+import { AxiosResponse } from 'axios';
+
+import { LoginStatus } from './betfair-api-types';
+
+// Error codes reported in APINGException / AccountAPINGException, plus JSON-RPC protocol errors
+export enum ApiErrorCode {
+  TOO_MUCH_DATA = 'TOO_MUCH_DATA',
+  INVALID_INPUT_DATA = 'INVALID_INPUT_DATA',
+  INVALID_SESSION_INFORMATION = 'INVALID_SESSION_INFORMATION',
+  NO_APP_KEY = 'NO_APP_KEY',
+  NO_SESSION = 'NO_SESSION',
+  UNEXPECTED_ERROR = 'UNEXPECTED_ERROR',
+  INVALID_APP_KEY = 'INVALID_APP_KEY',
+  TOO_MANY_REQUESTS = 'TOO_MANY_REQUESTS',
+  SERVICE_BUSY = 'SERVICE_BUSY',
+  TIMEOUT_ERROR = 'TIMEOUT_ERROR',
+  REQUEST_SIZE_EXCEEDS_LIMIT = 'REQUEST_SIZE_EXCEEDS_LIMIT',
+  ACCESS_DENIED = 'ACCESS_DENIED',
+  JSON_RPC_PARSE_ERROR = 'JSON_RPC_PARSE_ERROR',
+  JSON_RPC_METHOD_NOT_FOUND = 'JSON_RPC_METHOD_NOT_FOUND',
+  JSON_RPC_INVALID_PARAMS = 'JSON_RPC_INVALID_PARAMS',
+}
+
+export interface BetfairApiErrorDetails {
+  requestUUID?: string;
+  httpStatus?: number;
+  method?: string;
+  errorDetails?: string;
+}
+
+/**
+ * Base class for errors reported by the Betfair betting, account and identity APIs
+ */
+export class BetfairApiError extends Error {
+  public readonly requestUUID?: string;
+  public readonly httpStatus?: number;
+  public readonly method?: string;
+  public readonly errorDetails?: string;
+
+  constructor(
+    message: string,
+    public readonly errorCode: ApiErrorCode | LoginStatus | string,
+    details: BetfairApiErrorDetails = {}
+  ) {
+    super(message);
+    this.name = 'BetfairApiError';
+    this.requestUUID = details.requestUUID;
+    this.httpStatus = details.httpStatus;
+    this.method = details.method;
+    this.errorDetails = details.errorDetails;
+  }
+}
+
+/**
+ * The session is missing or has expired - log in again and retry
+ */
+export class BetfairSessionError extends BetfairApiError {
+  constructor(message: string, errorCode: ApiErrorCode | string, details: BetfairApiErrorDetails = {}) {
+    super(message, errorCode, details);
+    this.name = 'BetfairSessionError';
+  }
+}
+
+/**
+ * The app key is missing, invalid or lacks access to the operation
+ */
+export class BetfairAccessError extends BetfairApiError {
+  constructor(message: string, errorCode: ApiErrorCode | string, details: BetfairApiErrorDetails = {}) {
+    super(message, errorCode, details);
+    this.name = 'BetfairAccessError';
+  }
+}
+
+/**
+ * Betfair is limiting requests or is too busy - back off before retrying
+ */
+export class BetfairThrottlingError extends BetfairApiError {
+  constructor(message: string, errorCode: ApiErrorCode | string, details: BetfairApiErrorDetails = {}) {
+    super(message, errorCode, details);
+    this.name = 'BetfairThrottlingError';
+  }
+}
+
+/**
+ * The request itself was rejected (bad input, too much data) - retrying unchanged will fail again
+ */
+export class BetfairRequestError extends BetfairApiError {
+  constructor(message: string, errorCode: ApiErrorCode | string, details: BetfairApiErrorDetails = {}) {
+    super(message, errorCode, details);
+    this.name = 'BetfairRequestError';
+  }
+}
+
+/**
+ * Raised when Betfair refuses a login, carrying the reported login status
+ */
+export class BetfairLoginError extends BetfairApiError {
+  constructor(
+    message: string,
+    public readonly loginStatus: LoginStatus | string,
+    details: BetfairApiErrorDetails = {}
+  ) {
+    super(message, loginStatus, details);
+    this.name = 'BetfairLoginError';
+  }
+}
+
+type ApiErrorConstructor = new (
+  message: string,
+  errorCode: ApiErrorCode | string,
+  details: BetfairApiErrorDetails
+) => BetfairApiError;
+
+const ERROR_CLASSES: { [errorCode: string]: ApiErrorConstructor } = {
+  [ApiErrorCode.INVALID_SESSION_INFORMATION]: BetfairSessionError,
+  [ApiErrorCode.NO_SESSION]: BetfairSessionError,
+  [ApiErrorCode.NO_APP_KEY]: BetfairAccessError,
+  [ApiErrorCode.INVALID_APP_KEY]: BetfairAccessError,
+  [ApiErrorCode.ACCESS_DENIED]: BetfairAccessError,
+  [ApiErrorCode.TOO_MANY_REQUESTS]: BetfairThrottlingError,
+  [ApiErrorCode.SERVICE_BUSY]: BetfairThrottlingError,
+  [ApiErrorCode.TOO_MUCH_DATA]: BetfairRequestError,
+  [ApiErrorCode.INVALID_INPUT_DATA]: BetfairRequestError,
+  [ApiErrorCode.REQUEST_SIZE_EXCEEDS_LIMIT]: BetfairRequestError,
+  [ApiErrorCode.JSON_RPC_PARSE_ERROR]: BetfairRequestError,
+  [ApiErrorCode.JSON_RPC_METHOD_NOT_FOUND]: BetfairRequestError,
+  [ApiErrorCode.JSON_RPC_INVALID_PARAMS]: BetfairRequestError,
+};
+
+const JSON_RPC_ERROR_CODES: { [code: number]: ApiErrorCode } = {
+  [-32700]: ApiErrorCode.JSON_RPC_PARSE_ERROR,
+  [-32601]: ApiErrorCode.JSON_RPC_METHOD_NOT_FOUND,
+  [-32602]: ApiErrorCode.JSON_RPC_INVALID_PARAMS,
+};
+
+type ApingException = {
+  errorCode?: string;
+  errorDetails?: string;
+  requestUUID?: string;
+};
+
+type JsonRpcResponseBody = {
+  result?: unknown;
+  error?: {
+    code?: number;
+    message?: string;
+    data?: {
+      APINGException?: ApingException;
+      AccountAPINGException?: ApingException;
+      exceptionname?: string;
+    };
+  };
+};
+
+/**
+ * Creates the BetfairApiError subclass matching an error code
+ */
+export const createBetfairApiError = (
+  message: string,
+  errorCode: ApiErrorCode | string,
+  details: BetfairApiErrorDetails = {}
+): BetfairApiError => {
+  const ErrorClass = ERROR_CLASSES[errorCode] || BetfairApiError;
+  return new ErrorClass(message, errorCode, details);
+};
+
+/**
+ * Extracts the error from a JSON-RPC response body
+ * @param body - Response body
+ * @param method - API method name, e.g. listMarketBook
+ * @param httpStatus - HTTP status of the response
+ * @returns The error, or undefined if the body has none
+ */
+export const parseJsonRpcError = (
+  body: unknown,
+  method?: string,
+  httpStatus?: number
+): BetfairApiError | undefined => {
+  const error = (body as JsonRpcResponseBody | undefined)?.error;
+  if (!error) {
+    return undefined;
+  }
+
+  const exception = error.data?.APINGException || error.data?.AccountAPINGException;
+  const errorCode = exception?.errorCode
+    || (error.code !== undefined && JSON_RPC_ERROR_CODES[error.code])
+    || ApiErrorCode.UNEXPECTED_ERROR;
+
+  const description = exception?.errorDetails || error.message;
+  const message = `${method || 'Betfair API'} failed: ${errorCode}${description ? ` (${description})` : ''}`;
+
+  return createBetfairApiError(message, errorCode, {
+    requestUUID: exception?.requestUUID,
+    httpStatus,
+    method,
+    errorDetails: exception?.errorDetails,
+  });
+};
+
+/**
+ * Returns the `result` of a JSON-RPC response, throwing a BetfairApiError if it reports an error
+ */
+export const unwrapApiResult = <T>(response: AxiosResponse, method: string): T => {
+  const apiError = parseJsonRpcError(response.data, method, response.status);
+  if (apiError) {
+    throw apiError;
+  }
+
+  if (response.status < 200 || response.status >= 300 || response.data?.result === undefined) {
+    throw new BetfairApiError(`${method} failed: HTTP ${response.status}`, ApiErrorCode.UNEXPECTED_ERROR, {
+      httpStatus: response.status,
+      method,
+    });
+  }
+
+  return response.data.result as T;
+};
+
+/**
+ * Converts an error thrown by axios into a BetfairApiError when Betfair sent a response.
+ * Errors without a response (e.g. network failures) are returned unchanged.
+ */
+export const toBetfairApiError = (error: unknown, method: string): unknown => {
+  if (error instanceof BetfairApiError) {
+    return error;
+  }
+
+  const response = (error as { response?: AxiosResponse } | undefined)?.response;
+  if (!response) {
+    return error;
+  }
+
+  return parseJsonRpcError(response.data, method, response.status)
+    || new BetfairApiError(`${method} failed: HTTP ${response.status}`, ApiErrorCode.UNEXPECTED_ERROR, {
+      httpStatus: response.status,
+      method,
+    });
+};
@@ -63,8 +63,8 @@ export type PlaceInstruction = {
   handicap?: number;
   side: string;
   limitOrder?: LimitOrder;
-  //limitOnCloseOrder?: LimitOnCloseOrder, //TODO: ADD THESE
-  //marketOnCloseOrder?: MarketOnCloseOrder,
+  limitOnCloseOrder?: LimitOnCloseOrder;
+  marketOnCloseOrder?: MarketOnCloseOrder;
   customerOrderRef?: string;
 };
 
@@ -84,6 +84,17 @@ export type LimitOrder = {
   betTargetSize?: string;
 };
 
+// BSP order with a price limit - for backs the liability is the stake, for lays the maximum loss
+export type LimitOnCloseOrder = {
+  liability: number;
+  price: number;
+};
+
+// BSP order taking any starting price
+export type MarketOnCloseOrder = {
+  liability: number;
+};
+
 export enum PersistenceType {
   LAPSE = 'LAPSE',
   PERSIST = 'PERSIST',
@@ -557,4 +568,89 @@ export type Match = {
   price: number;
   size: number;
   matchDate: string;
-};
\ No newline at end of file
+};
+
+export type CertificateCredentials = {
+  cert: string | Buffer; // Path to the PEM certificate, or its contents
+  key: string | Buffer; // Path to the PEM private key, or its contents
+  passphrase?: string;
+};
+
+export type CertificateLoginResponse = {
+  sessionToken?: string;
+  loginStatus: LoginStatus;
+};
+
+export enum LoginStatus {
+  SUCCESS = 'SUCCESS',
+  LIMITED_ACCESS = 'LIMITED_ACCESS',
+  LOGIN_RESTRICTED = 'LOGIN_RESTRICTED',
+  INVALID_USERNAME_OR_PASSWORD = 'INVALID_USERNAME_OR_PASSWORD',
+  ACCOUNT_NOW_LOCKED = 'ACCOUNT_NOW_LOCKED',
+  ACCOUNT_ALREADY_LOCKED = 'ACCOUNT_ALREADY_LOCKED',
+  ACCOUNT_PENDING_PASSWORD_CHANGE = 'ACCOUNT_PENDING_PASSWORD_CHANGE',
+  CERT_AUTH_REQUIRED = 'CERT_AUTH_REQUIRED',
+  CHANGE_PASSWORD_REQUIRED = 'CHANGE_PASSWORD_REQUIRED',
+  PENDING_AUTH = 'PENDING_AUTH',
+  SUSPENDED = 'SUSPENDED',
+  CLOSED = 'CLOSED',
+  SELF_EXCLUDED = 'SELF_EXCLUDED',
+  KYC_SUSPEND = 'KYC_SUSPEND',
+  SECURITY_QUESTION_WRONG_3X = 'SECURITY_QUESTION_WRONG_3X',
+  SECURITY_RESTRICTED_LOCATION = 'SECURITY_RESTRICTED_LOCATION',
+  BETTING_RESTRICTED_LOCATION = 'BETTING_RESTRICTED_LOCATION',
+  TEMPORARY_BAN_TOO_MANY_REQUESTS = 'TEMPORARY_BAN_TOO_MANY_REQUESTS',
+  EMAIL_LOGIN_NOT_ALLOWED = 'EMAIL_LOGIN_NOT_ALLOWED',
+  MULTIPLE_USERS_WITH_SAME_CREDENTIAL = 'MULTIPLE_USERS_WITH_SAME_CREDENTIAL',
+  ACTIONS_REQUIRED = 'ACTIONS_REQUIRED',
+  INPUT_VALIDATION_ERROR = 'INPUT_VALIDATION_ERROR',
+}
+
+export type EventTypeResult = {
+  eventType: EventType;
+  marketCount: number;
+};
+
+export type CompetitionResult = {
+  competition: Competition;
+  marketCount: number;
+  competitionRegion: string;
+};
+
+export type TimeRangeResult = {
+  timeRange: TimeRange;
+  marketCount: number;
+};
+
+export type EventResult = {
+  event: Event;
+  marketCount: number;
+};
+
+export type MarketTypeResult = {
+  marketType: string;
+  marketCount: number;
+};
+
+export type CountryCodeResult = {
+  countryCode: string;
+  marketCount: number;
+};
+
+export type VenueResult = {
+  venue: string;
+  marketCount: number;
+};
+
+export type MarketProfitAndLoss = {
+  marketId: string;
+  commissionApplied?: number;
+  profitAndLosses: RunnerProfitAndLoss[];
+};
+
+export type RunnerProfitAndLoss = {
+  selectionId: number;
+  ifWin?: number;
+  ifLose?: number;
+  ifPlace?: number;
+};
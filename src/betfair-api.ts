@@ -1,3 +1,5 @@
+import * as fs from 'fs';
+import * as https from 'https';
 import * as querystring from 'querystring';
 import axios, { AxiosResponse } from 'axios';
 
@@ -21,30 +23,35 @@ import {
   ReplaceExecutionReport,
   UpdateExecutionReport,
   PersistenceType,
+  OrderType,
   ComprehensiveMarketResults,
   MarketBook,
   RunnerBook,
   MarketProjection,
   PriceData,
+  MarketCatalogue,
+  PlaceExecutionReport,
+  EventTypeResult,
+  CompetitionResult,
+  TimeRangeResult,
+  EventResult,
+  MarketTypeResult,
+  CountryCodeResult,
+  VenueResult,
+  MarketProfitAndLoss,
+  CertificateCredentials,
+  CertificateLoginResponse,
+  LoginStatus,
 } from './betfair-api-types';
 import { CurrencyRate, MarketChangeCallback } from './betfair-exchange-stream-api-types';
-import { generatePacketId } from './utils';
-
-// Constants
-const AUTH_URLS = {
-  interactiveLogin: 'https://identitysso.betfair.com.au:443/api/login',
-  botLogin: 'https://identitysso-api.betfair.com.au:443/api/certlogin',
-  logout: 'https://identitysso.betfair.com.au:443/api/logout',
-  keepAlive: 'https://identitysso.betfair.com.au:443/api/keepAlive',
-} as const;
-
-const BETTING_URLS = {
-  exchange: 'https://api.betfair.com:443/exchange/betting/json-rpc/v1',
-} as const;
-
-const ACCOUNT_URLS = {
-  accounts: 'https://api.betfair.com/exchange/account/json-rpc/v1',
-} as const;
+import {
+  CLASSIC_PRICE_LADDER,
+  PriceLadder,
+  generatePacketId,
+  isValidPrice,
+} from './utils';
+import { BetfairEndpoints, DEFAULT_BETFAIR_ENDPOINTS } from './betfair-endpoints';
+import { BetfairLoginError, unwrapApiResult, toBetfairApiError } from './betfair-api-errors';
 
 // Types for internal state
 export interface BetfairApiState {
@@ -56,6 +63,7 @@ export interface BetfairApiState {
   conflateMs: number;
   heartbeatMs: number;
   marketChangeCallback: MarketChangeCallback;
+  endpoints: BetfairEndpoints;
 }
 
 export interface AuthCredentials {
@@ -69,13 +77,15 @@ export const createBetfairApiState = (
   currencyCode: string,
   conflateMs: number,
   heartbeatMs: number,
-  marketChangeCallback: MarketChangeCallback
+  marketChangeCallback: MarketChangeCallback,
+  endpoints: BetfairEndpoints = DEFAULT_BETFAIR_ENDPOINTS
 ): BetfairApiState => ({
   locale,
   targetCurrency: currencyCode,
   conflateMs,
   heartbeatMs,
   marketChangeCallback,
+  endpoints,
 });
 
 // Authentication utilities
@@ -94,7 +104,8 @@ export const isAuthenticated = (state: BetfairApiState): boolean => {
 const performLogin = async (
   appKey: string,
   username: string,
-  password: string
+  password: string,
+  endpoints: BetfairEndpoints
 ): Promise<AxiosResponse> => {
   const formData = querystring.stringify({
     username,
@@ -107,17 +118,52 @@ const performLogin = async (
 
   return axios({
     method: 'post',
-    url: AUTH_URLS.interactiveLogin,
+    url: endpoints.interactiveLogin,
+    headers: {
+      accept: 'application/json',
+      'content-type': 'application/x-www-form-urlencoded',
+      'content-length': formData.length,
+      'x-application': appKey,
+    },
+    data: formData,
+  });
+};
+
+const performCertificateLogin = async (
+  appKey: string,
+  username: string,
+  password: string,
+  certificate: CertificateCredentials,
+  endpoints: BetfairEndpoints
+): Promise<AxiosResponse<CertificateLoginResponse>> => {
+  const formData = querystring.stringify({
+    username,
+    password,
+  });
+
+  return axios({
+    method: 'post',
+    url: endpoints.certLogin,
     headers: {
       accept: 'application/json',
       'content-type': 'application/x-www-form-urlencoded',
       'content-length': formData.length,
       'x-application': appKey,
     },
+    httpsAgent: new https.Agent({
+      cert: readCertificateFile(certificate.cert),
+      key: readCertificateFile(certificate.key),
+      passphrase: certificate.passphrase,
+    }),
     data: formData,
   });
 };
 
+// Strings are treated as file paths, buffers as the PEM contents
+const readCertificateFile = (source: string | Buffer): Buffer => {
+  return Buffer.isBuffer(source) ? source : fs.readFileSync(source);
+};
+
 const makeRequest = async (
   url: string,
   data: string,
@@ -142,7 +188,8 @@ const makeBettingApiRequest = async (
   method: string,
   params: any,
   sessionKey: string,
-  appKey: string
+  appKey: string,
+  url: string
 ): Promise<AxiosResponse> => {
   const requestPayload = {
     jsonrpc: '2.0',
@@ -152,7 +199,7 @@ const makeBettingApiRequest = async (
   };
 
   return makeRequest(
-    BETTING_URLS.exchange,
+    url,
     JSON.stringify(requestPayload),
     sessionKey,
     appKey
@@ -163,7 +210,8 @@ const makeAccountApiRequest = async (
   method: string,
   params: any,
   sessionKey: string,
-  appKey: string
+  appKey: string,
+  url: string
 ): Promise<AxiosResponse> => {
   const requestPayload = {
     jsonrpc: '2.0',
@@ -173,7 +221,7 @@ const makeAccountApiRequest = async (
   };
 
   return makeRequest(
-    ACCOUNT_URLS.accounts,
+    url,
     JSON.stringify(requestPayload),
     sessionKey,
     appKey
@@ -187,34 +235,69 @@ export const login = async (
   username: string,
   password: string
 ): Promise<BetfairApiState> => {
+  let authResponse: AxiosResponse;
   try {
-    const authResponse = await performLogin(appKey, username, password);
-    
-    if (authResponse.data.status !== 'SUCCESS') {
-      throw new Error('Login failed!');
-    }
+    authResponse = await performLogin(appKey, username, password, state.endpoints);
+  } catch (error) {
+    throw toBetfairApiError(error, 'login');
+  }
 
-    const updatedState: BetfairApiState = {
-      ...state,
-      appKey,
-      sessionKey: authResponse.data.token,
-    };
+  if (authResponse.data.status !== 'SUCCESS') {
+    const loginStatus = authResponse.data.error || authResponse.data.status;
+    throw new BetfairLoginError(`Login failed: ${loginStatus}`, loginStatus);
+  }
 
-    const currencyResponse = await listCurrencyRates(updatedState, 'GBP');
-    if (currencyResponse.status !== 200) {
-      throw new Error('Error listing currency rates');
-    }
+  const updatedState: BetfairApiState = {
+    ...state,
+    appKey,
+    sessionKey: authResponse.data.token,
+  };
 
-    return {
-      ...updatedState,
-      currencyRates: currencyResponse.data.result,
-    };
+  return loadCurrencyRates(updatedState);
+};
+
+/**
+ * Logs in non-interactively with an SSL client certificate (certlogin), as required for bots.
+ * Throws a BetfairLoginError with the loginStatus when Betfair refuses the login.
+ */
+export const loginWithCertificate = async (
+  state: BetfairApiState,
+  appKey: string,
+  username: string,
+  password: string,
+  certificate: CertificateCredentials
+): Promise<BetfairApiState> => {
+  let authResponse: AxiosResponse<CertificateLoginResponse>;
+  try {
+    authResponse = await performCertificateLogin(appKey, username, password, certificate, state.endpoints);
   } catch (error) {
-    throw new Error(`Login failed: ${error}`);
+    throw toBetfairApiError(error, 'certlogin');
+  }
+  const { loginStatus, sessionToken } = authResponse.data;
+
+  if (loginStatus !== LoginStatus.SUCCESS || !sessionToken) {
+    throw new BetfairLoginError(`Certificate login failed: ${loginStatus}`, loginStatus);
   }
+
+  const updatedState: BetfairApiState = {
+    ...state,
+    appKey,
+    sessionKey: sessionToken,
+  };
+
+  return loadCurrencyRates(updatedState);
 };
 
-export const logout = async (sessionKey: string): Promise<AxiosResponse> => {
+// Loads the currency rates every freshly logged in state needs, throwing a BetfairApiError on failure
+const loadCurrencyRates = async (state: BetfairApiState): Promise<BetfairApiState> => ({
+  ...state,
+  currencyRates: await listCurrencyRatesResult(state, 'GBP'),
+});
+
+export const logout = async (
+  sessionKey: string,
+  endpoints: BetfairEndpoints = DEFAULT_BETFAIR_ENDPOINTS
+): Promise<AxiosResponse> => {
   const formData = querystring.stringify({
     product: 'home.betfair.int',
     url: 'https://www.betfair.com/',
@@ -222,7 +305,7 @@ export const logout = async (sessionKey: string): Promise<AxiosResponse> => {
 
   return axios({
     method: 'post',
-    url: AUTH_URLS.logout,
+    url: endpoints.logout,
     headers: {
       accept: 'application/json',
       'content-type': 'application/x-www-form-urlencoded',
@@ -233,7 +316,10 @@ export const logout = async (sessionKey: string): Promise<AxiosResponse> => {
   });
 };
 
-export const keepAlive = async (sessionKey: string): Promise<AxiosResponse> => {
+export const keepAlive = async (
+  sessionKey: string,
+  endpoints: BetfairEndpoints = DEFAULT_BETFAIR_ENDPOINTS
+): Promise<AxiosResponse> => {
   const formData = querystring.stringify({
     product: 'home.betfair.int',
     url: 'https://www.betfair.com/',
@@ -241,7 +327,7 @@ export const keepAlive = async (sessionKey: string): Promise<AxiosResponse> => {
 
   return axios({
     method: 'post',
-    url: AUTH_URLS.keepAlive,
+    url: endpoints.keepAlive,
     headers: {
       accept: 'application/json',
       'content-type': 'application/x-www-form-urlencoded',
@@ -272,7 +358,8 @@ export const listMarketCatalogue = async (
       locale: state.locale,
     },
     sessionKey,
-    appKey
+    appKey,
+    state.endpoints.betting
   );
 };
 
@@ -281,7 +368,7 @@ export const listMarketBook = async (
   params: any
 ): Promise<AxiosResponse> => {
   const { sessionKey, appKey } = ensureAuthenticated(state);
-  return makeBettingApiRequest('listMarketBook', params, sessionKey, appKey);
+  return makeBettingApiRequest('listMarketBook', params, sessionKey, appKey, state.endpoints.betting);
 };
 
 const makeDevApiRequest = async (
@@ -297,7 +384,8 @@ const makeDevApiRequest = async (
       locale: state.locale,
     },
     sessionKey,
-    appKey
+    appKey,
+    state.endpoints.betting
   );
 };
 
@@ -369,7 +457,8 @@ export const listMarketProfitAndLoss = async (
       locale: state.locale,
     },
     sessionKey,
-    appKey
+    appKey,
+    state.endpoints.betting
   );
 };
 
@@ -412,7 +501,8 @@ export const placeOrders = async (
     'placeOrders',
     params,
     sessionKey,
-    appKey
+    appKey,
+    state.endpoints.betting
   );
 };
 
@@ -427,7 +517,8 @@ export const listCurrencyRates = async (
     'listCurrencyRates',
     { fromCurrency },
     sessionKey,
-    appKey
+    appKey,
+    state.endpoints.account
   );
 };
 
@@ -517,7 +608,7 @@ export const listCurrentOrders = async (
     params.recordCount = recordCount;
   }
 
-  return makeBettingApiRequest('listCurrentOrders', params, sessionKey, appKey);
+  return makeBettingApiRequest('listCurrentOrders', params, sessionKey, appKey, state.endpoints.betting);
 };
 
 /**
@@ -603,7 +694,7 @@ export const listClearedOrders = async (
     params.recordCount = recordCount;
   }
 
-  return makeBettingApiRequest('listClearedOrders', params, sessionKey, appKey);
+  return makeBettingApiRequest('listClearedOrders', params, sessionKey, appKey, state.endpoints.betting);
 };
 
 /**
@@ -640,7 +731,7 @@ export const cancelOrders = async (
     params.customerRef = customerRef;
   }
 
-  return makeBettingApiRequest('cancelOrders', params, sessionKey, appKey);
+  return makeBettingApiRequest('cancelOrders', params, sessionKey, appKey, state.endpoints.betting);
 };
 
 /**
@@ -689,7 +780,7 @@ export const replaceOrders = async (
     params.async = async;
   }
 
-  return makeBettingApiRequest('replaceOrders', params, sessionKey, appKey);
+  return makeBettingApiRequest('replaceOrders', params, sessionKey, appKey, state.endpoints.betting);
 };
 
 /**
@@ -726,9 +817,79 @@ export const updateOrders = async (
     params.customerRef = customerRef;
   }
 
-  return makeBettingApiRequest('updateOrders', params, sessionKey, appKey);
+  return makeBettingApiRequest('updateOrders', params, sessionKey, appKey, state.endpoints.betting);
+};
+
+// Result-returning variants - unwrap `result` or throw a BetfairApiError
+const requestResult = async <T>(request: () => Promise<AxiosResponse>, method: string): Promise<T> => {
+  let response: AxiosResponse;
+
+  try {
+    response = await request();
+  } catch (error) {
+    throw toBetfairApiError(error, method);
+  }
+
+  return unwrapApiResult<T>(response, method);
 };
 
+export const listMarketCatalogueResult = (...args: Parameters<typeof listMarketCatalogue>): Promise<MarketCatalogue[]> =>
+  requestResult(() => listMarketCatalogue(...args), 'listMarketCatalogue');
+
+export const listMarketBookResult = (...args: Parameters<typeof listMarketBook>): Promise<MarketBook[]> =>
+  requestResult(() => listMarketBook(...args), 'listMarketBook');
+
+export const listEventTypesResult = (...args: Parameters<typeof listEventTypes>): Promise<EventTypeResult[]> =>
+  requestResult(() => listEventTypes(...args), 'listEventTypes');
+
+export const listCompetitionsResult = (...args: Parameters<typeof listCompetitions>): Promise<CompetitionResult[]> =>
+  requestResult(() => listCompetitions(...args), 'listCompetitions');
+
+export const listTimeRangesResult = (...args: Parameters<typeof listTimeRanges>): Promise<TimeRangeResult[]> =>
+  requestResult(() => listTimeRanges(...args), 'listTimeRanges');
+
+export const listEventsResult = (...args: Parameters<typeof listEvents>): Promise<EventResult[]> =>
+  requestResult(() => listEvents(...args), 'listEvents');
+
+export const listMarketTypesResult = (...args: Parameters<typeof listMarketTypes>): Promise<MarketTypeResult[]> =>
+  requestResult(() => listMarketTypes(...args), 'listMarketTypes');
+
+export const listCountriesResult = (...args: Parameters<typeof listCountries>): Promise<CountryCodeResult[]> =>
+  requestResult(() => listCountries(...args), 'listCountries');
+
+export const listVenuesResult = (...args: Parameters<typeof listVenues>): Promise<VenueResult[]> =>
+  requestResult(() => listVenues(...args), 'listVenues');
+
+export const listMarketProfitAndLossResult = (
+  ...args: Parameters<typeof listMarketProfitAndLoss>
+): Promise<MarketProfitAndLoss[]> =>
+  requestResult(() => listMarketProfitAndLoss(...args), 'listMarketProfitAndLoss');
+
+export const placeOrdersResult = (...args: Parameters<typeof placeOrders>): Promise<PlaceExecutionReport> =>
+  requestResult(() => placeOrders(...args), 'placeOrders');
+
+export const listCurrencyRatesResult = (...args: Parameters<typeof listCurrencyRates>): Promise<CurrencyRate[]> =>
+  requestResult(() => listCurrencyRates(...args), 'listCurrencyRates');
+
+export const listCurrentOrdersResult = (
+  ...args: Parameters<typeof listCurrentOrders>
+): Promise<CurrentOrderSummary[]> =>
+  requestResult(() => listCurrentOrders(...args), 'listCurrentOrders');
+
+export const listClearedOrdersResult = (
+  ...args: Parameters<typeof listClearedOrders>
+): Promise<ClearedOrderSummary[]> =>
+  requestResult(() => listClearedOrders(...args), 'listClearedOrders');
+
+export const cancelOrdersResult = (...args: Parameters<typeof cancelOrders>): Promise<CancelExecutionReport> =>
+  requestResult(() => cancelOrders(...args), 'cancelOrders');
+
+export const replaceOrdersResult = (...args: Parameters<typeof replaceOrders>): Promise<ReplaceExecutionReport> =>
+  requestResult(() => replaceOrders(...args), 'replaceOrders');
+
+export const updateOrdersResult = (...args: Parameters<typeof updateOrders>): Promise<UpdateExecutionReport> =>
+  requestResult(() => updateOrders(...args), 'updateOrders');
+
 // Additional utility functions for order management
 
 /**
@@ -773,6 +934,75 @@ export const createUpdateInstruction = (
   newPersistenceType,
 });
 
+/**
+ * Creates a limit order place instruction
+ * @param selectionId - Runner to bet on
+ * @param side - BACK or LAY
+ * @param price - Odds price
+ * @param size - Stake
+ * @param persistenceType - What happens to the unmatched part at the off
+ * @param customerOrderRef - Optional order reference
+ * @returns Place instruction
+ */
+export const createLimitOrderInstruction = (
+  selectionId: number,
+  side: Side,
+  price: number,
+  size: number,
+  persistenceType: PersistenceType = PersistenceType.LAPSE,
+  customerOrderRef?: string
+): PlaceInstruction => ({
+  orderType: OrderType.LIMIT,
+  selectionId,
+  side,
+  limitOrder: { size, price, persistenceType },
+  ...(customerOrderRef !== undefined && { customerOrderRef }),
+});
+
+/**
+ * Creates a BSP place instruction limited to a price (LIMIT_ON_CLOSE)
+ * @param selectionId - Runner to bet on
+ * @param side - BACK or LAY
+ * @param liability - Stake for backs, maximum loss for lays
+ * @param price - Worst starting price accepted
+ * @param customerOrderRef - Optional order reference
+ * @returns Place instruction
+ */
+export const createLimitOnCloseInstruction = (
+  selectionId: number,
+  side: Side,
+  liability: number,
+  price: number,
+  customerOrderRef?: string
+): PlaceInstruction => ({
+  orderType: OrderType.LIMIT_ON_CLOSE,
+  selectionId,
+  side,
+  limitOnCloseOrder: { liability, price },
+  ...(customerOrderRef !== undefined && { customerOrderRef }),
+});
+
+/**
+ * Creates a BSP place instruction at any starting price (MARKET_ON_CLOSE)
+ * @param selectionId - Runner to bet on
+ * @param side - BACK or LAY
+ * @param liability - Stake for backs, maximum loss for lays
+ * @param customerOrderRef - Optional order reference
+ * @returns Place instruction
+ */
+export const createMarketOnCloseInstruction = (
+  selectionId: number,
+  side: Side,
+  liability: number,
+  customerOrderRef?: string
+): PlaceInstruction => ({
+  orderType: OrderType.MARKET_ON_CLOSE,
+  selectionId,
+  side,
+  marketOnCloseOrder: { liability },
+  ...(customerOrderRef !== undefined && { customerOrderRef }),
+});
+
 /**
  * Validates if a bet ID is in correct format
  * @param betId - The bet ID to validate
@@ -803,32 +1033,45 @@ export const calculateLayLiability = (stake: number, odds: number): number => {
   return stake * (odds - 1);
 };
 
+/**
+ * Validates the market ID and selection ID of an order
+ */
+const validateMarketAndSelection = (marketId: string, selectionId: number): string[] => {
+  const errors: string[] = [];
+
+  if (!marketId || !marketId.match(/^1\.\d+$/)) {
+    errors.push('Invalid market ID format');
+  }
+
+  if (!Number.isInteger(selectionId) || selectionId <= 0) {
+    errors.push('Selection ID must be a positive integer');
+  }
+
+  return errors;
+};
+
 /**
  * Validates order parameters for common issues
  * @param marketId - Market ID
  * @param selectionId - Selection ID
- * @param price - Odds price
+ * @param price - Odds price, or line value on LINE_RANGE ladders
  * @param size - Bet size
+ * @param ladder - Price ladder of the market, e.g. from getPriceLadder
  * @returns Object with validation result and any error messages
  */
 export const validateOrderParameters = (
   marketId: string,
   selectionId: number,
   price: number,
-  size: number
+  size: number,
+  ladder: PriceLadder = CLASSIC_PRICE_LADDER
 ): { isValid: boolean; errors: string[] } => {
-  const errors: string[] = [];
-
-  if (!marketId || !marketId.match(/^1\.\d+$/)) {
-    errors.push('Invalid market ID format');
-  }
-
-  if (!Number.isInteger(selectionId) || selectionId <= 0) {
-    errors.push('Selection ID must be a positive integer');
-  }
+  const errors = validateMarketAndSelection(marketId, selectionId);
 
-  if (price < 1.01 || price > 1000) {
-    errors.push('Price must be between 1.01 and 1000');
+  if (price < ladder.min || price > ladder.max) {
+    errors.push(`Price must be between ${ladder.min} and ${ladder.max}`);
+  } else if (!isValidPrice(price, ladder)) {
+    errors.push(`Price ${price} is not a valid ${ladder.type} ladder tick`);
   }
 
   if (size < 0.01) {
@@ -845,6 +1088,80 @@ export const validateOrderParameters = (
   };
 };
 
+// Betfair's BSP minimums in GBP - lay liability must be 10 times the minimum back stake
+export const BSP_MINIMUM_BACK_STAKE = 1;
+export const BSP_MINIMUM_LAY_LIABILITY = 10;
+
+/**
+ * Validates a place instruction of any order type, including BSP liability minimums
+ * @param marketId - Market ID
+ * @param instruction - Place instruction
+ * @param minimumBackStake - Minimum BSP back stake in the account currency
+ * @param minimumLayLiability - Minimum BSP lay liability in the account currency
+ * @param ladder - Price ladder of the market
+ * @returns Object with validation result and any error messages
+ */
+export const validatePlaceInstruction = (
+  marketId: string,
+  instruction: PlaceInstruction,
+  minimumBackStake: number = BSP_MINIMUM_BACK_STAKE,
+  minimumLayLiability: number = BSP_MINIMUM_LAY_LIABILITY,
+  ladder: PriceLadder = CLASSIC_PRICE_LADDER
+): { isValid: boolean; errors: string[] } => {
+  if (instruction.orderType === OrderType.LIMIT) {
+    if (!instruction.limitOrder) {
+      return { isValid: false, errors: ['LIMIT orders require a limitOrder'] };
+    }
+    const { price, size } = instruction.limitOrder;
+    return validateOrderParameters(marketId, instruction.selectionId, price, size, ladder);
+  }
+
+  const bspOrder = instruction.orderType === OrderType.LIMIT_ON_CLOSE
+    ? instruction.limitOnCloseOrder
+    : instruction.marketOnCloseOrder;
+  if (!bspOrder) {
+    const field = instruction.orderType === OrderType.LIMIT_ON_CLOSE ? 'limitOnCloseOrder' : 'marketOnCloseOrder';
+    return { isValid: false, errors: [`${instruction.orderType} orders require a ${field}`] };
+  }
+
+  // MARKET_ON_CLOSE orders have no price, so only the market and selection are checked
+  const { errors } = instruction.limitOnCloseOrder
+    ? validateOrderParameters(
+      marketId,
+      instruction.selectionId,
+      instruction.limitOnCloseOrder.price,
+      bspOrder.liability,
+      ladder
+    )
+    : { errors: validateMarketAndSelection(marketId, instruction.selectionId) };
+
+  const isLay = instruction.side === Side.LAY;
+  const minimum = isLay ? minimumLayLiability : minimumBackStake;
+  if (bspOrder.liability < minimum) {
+    errors.push(`BSP ${isLay ? 'lay liability' : 'back stake'} must be at least ${minimum}`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+};
+
+/**
+ * Calculates the most a place instruction can lose if fully matched
+ * @param instruction - Place instruction of any order type
+ * @returns Back stake, lay liability, or the BSP liability
+ */
+export const calculateInstructionLiability = (instruction: PlaceInstruction): number => {
+  const bspOrder = instruction.limitOnCloseOrder || instruction.marketOnCloseOrder;
+  if (bspOrder) {
+    return bspOrder.liability;
+  }
+
+  const { price = 0, size = 0 } = instruction.limitOrder || {};
+  return instruction.side === Side.LAY ? calculateLayLiability(size, price) : size;
+};
+
 /**
  * Gets comprehensive market settlement results including runner names and volume data
  * @param state - Current API state
@@ -869,7 +1186,8 @@ export const getComprehensiveMarketResults = async (
       matchProjection: 'ROLLED_UP_BY_PRICE',
     },
     sessionKey,
-    appKey
+    appKey,
+    state.endpoints.betting
   );
 
   if (marketBookResponse.status !== 200 || !marketBookResponse.data.result?.[0]) {
@@ -893,7 +1211,8 @@ export const getComprehensiveMarketResults = async (
       locale: state.locale,
     },
     sessionKey,
-    appKey
+    appKey,
+    state.endpoints.betting
   );
 
   if (marketCatalogueResponse.status !== 200 || !marketCatalogueResponse.data.result?.[0]) {
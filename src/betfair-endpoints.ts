@@ -0,0 +1,57 @@
+// Betfair runs separate exchanges per jurisdiction, each with its own identity, API and stream hosts
+export enum Jurisdiction {
+  INTERNATIONAL = 'INTERNATIONAL', // betfair.com (UK and rest of world)
+  AUSTRALIA = 'AUSTRALIA', // betfair.com.au
+  ITALY = 'ITALY', // betfair.it
+  SPAIN = 'SPAIN', // betfair.es
+}
+
+export interface BetfairEndpoints {
+  interactiveLogin: string;
+  certLogin: string;
+  logout: string;
+  keepAlive: string;
+  betting: string;
+  account: string;
+  streamHost: string;
+  streamPort: number;
+}
+
+const createEndpoints = (identityDomain: string, apiDomain: string): BetfairEndpoints => ({
+  interactiveLogin: `https://identitysso.${identityDomain}:443/api/login`,
+  certLogin: `https://identitysso-cert.${identityDomain}:443/api/certlogin`,
+  logout: `https://identitysso.${identityDomain}:443/api/logout`,
+  keepAlive: `https://identitysso.${identityDomain}:443/api/keepAlive`,
+  betting: `https://api.${apiDomain}:443/exchange/betting/json-rpc/v1`,
+  account: `https://api.${apiDomain}/exchange/account/json-rpc/v1`,
+  streamHost: `stream-api.${apiDomain}`,
+  streamPort: 443,
+});
+
+export const JURISDICTION_ENDPOINTS: { [key in Jurisdiction]: BetfairEndpoints } = {
+  [Jurisdiction.INTERNATIONAL]: createEndpoints('betfair.com', 'betfair.com'),
+  // Australian accounts log in on .com.au but have used the global API and stream since the wallet merge
+  [Jurisdiction.AUSTRALIA]: {
+    ...createEndpoints('betfair.com.au', 'betfair.com'),
+    certLogin: 'https://identitysso-api.betfair.com.au:443/api/certlogin',
+  },
+  [Jurisdiction.ITALY]: createEndpoints('betfair.it', 'betfair.it'),
+  [Jurisdiction.SPAIN]: createEndpoints('betfair.es', 'betfair.es'),
+};
+
+// The endpoints used before jurisdictions were configurable
+export const DEFAULT_BETFAIR_ENDPOINTS: BetfairEndpoints = JURISDICTION_ENDPOINTS[Jurisdiction.AUSTRALIA];
+
+/**
+ * Gets the endpoint set for a jurisdiction, with optional overrides (e.g. a local mock server)
+ * @param jurisdiction - Jurisdiction preset
+ * @param overrides - Endpoints to replace in the preset
+ * @returns Endpoint set
+ */
+export const getBetfairEndpoints = (
+  jurisdiction: Jurisdiction,
+  overrides: Partial<BetfairEndpoints> = {}
+): BetfairEndpoints => ({
+  ...JURISDICTION_ENDPOINTS[jurisdiction],
+  ...overrides,
+});
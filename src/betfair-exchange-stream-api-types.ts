@@ -10,6 +10,17 @@ export type OrderChangeCallback = (
 
 export type RawDataCallback = (rawData: string) => void;
 
+export type ConnectionClosedCallback = (event: ConnectionClosedEvent) => void;
+
+export type StreamErrorCallback = (error: StreamError) => void;
+
+export type ConnectionClosedEvent = {
+  source: 'socket-error' | 'socket-closed' | 'status';
+  tlsSocket?: unknown; // Socket that closed - lets listeners ignore sockets they already replaced
+  error?: Error;
+  statusMessage?: StatusMessage;
+};
+
 export type Message = {
   id: number;
   op: string;
@@ -23,11 +34,20 @@ export type CurrencyRate = {
 export type StatusMessage = Message & {
   statusCode: StatusCode;
   connectionClosed: boolean;
-  errorCode: string;
-  errorMessage: string;
+  errorCode?: StreamErrorCode;
+  errorMessage?: string;
   connectionsAvailable: number;
 };
 
+export type StreamError = {
+  id?: number; // Id of the failed request (absent for connection level errors)
+  errorCode: StreamErrorCode;
+  errorMessage?: string;
+  severity: StreamErrorSeverity;
+  connectionClosed: boolean;
+  statusMessage: StatusMessage;
+};
+
 export type ConnectionMessage = Message & {
   connectionId: string;
 };
@@ -66,7 +86,10 @@ export type StreamMarketFilter = {
   raceTypes?: string[];
 };
 
-export type MarketDataFilter = Record<string, never>;
+export type MarketDataFilter = {
+  fields?: MarketDataField[];
+  ladderLevels?: number; // Depth of the best offers ladders (1 - 10)
+};
 
 export type MarketChangeMessage = ChangeMessage & {
   mc: MarketChange[];
@@ -82,7 +105,7 @@ export type RunnerChange = {
   batb?: [number, number, number][]; //Best available to back [level, price, size] array
   batl?: [number, number, number][]; //Best available to lay [level, price, size] array
   bdatb?: [number, number, number][]; //Best display available to back [level, price, size] array
-  bdatl?: [number, number, number][]; //Best display available to back [level, price, size] array
+  bdatl?: [number, number, number][]; //Best display available to lay [level, price, size] array
   atb?: [number, number][]; //Available to back [price, size] array
   atl?: [number, number][]; //Available to lay [price, size] array
   spb?: [number, number][]; //Starting price back [price, size] array
@@ -121,6 +144,14 @@ export type MarketDefinition = {
   name: string;
   eventName: string;
   totalMatched: number;
+  priceLadderDefinition?: StreamPriceLadderDefinition;
+  lineMinUnit?: number; // Line markets only
+  lineMaxUnit?: number;
+  lineInterval?: number;
+};
+
+export type StreamPriceLadderDefinition = {
+  type: StreamPriceLadderType;
 };
 
 export type RunnerDefinition = {
@@ -161,6 +192,8 @@ export type RunnerCache = {
   totalMatched: number;
   batb: [number, number, number][];
   batl: [number, number, number][];
+  bdatb: [number, number, number][]; // Best display available to back [level, price, size] array
+  bdatl: [number, number, number][]; // Best display available to lay [level, price, size] array
   atb: [number, number][];
   atl: [number, number][];
   ltp: number;
@@ -177,9 +210,18 @@ export type RunnerCache = {
 
 export type MarketSubscriptionMessage = Message & {
   marketFilter: StreamMarketFilter;
+  marketDataFilter?: MarketDataFilter;
   segmentationEnabled: boolean;
   conflateMs: number;
   heartbeatMs: number;
+  initialClk?: string; // Resume token - set when resubscribing after a reconnect
+  clk?: string; // Resume token - set when resubscribing after a reconnect
+};
+
+// Latest clock tokens received for a subscription, used to resume with deltas
+export type SubscriptionClocks = {
+  initialClk?: string;
+  clk?: string;
 };
 
 // Order Subscription Types
@@ -195,6 +237,8 @@ export type OrderSubscriptionMessage = Message & {
   segmentationEnabled: boolean;
   conflateMs?: number;
   heartbeatMs?: number;
+  initialClk?: string; // Resume token - set when resubscribing after a reconnect
+  clk?: string; // Resume token - set when resubscribing after a reconnect
 };
 
 // Order Change Message Types
@@ -272,6 +316,30 @@ export enum StatusCode {
   FAILURE = 'FAILURE',
 }
 
+export enum StreamErrorCode {
+  NO_APP_KEY = 'NO_APP_KEY',
+  INVALID_APP_KEY = 'INVALID_APP_KEY',
+  NO_SESSION = 'NO_SESSION',
+  INVALID_SESSION_INFORMATION = 'INVALID_SESSION_INFORMATION',
+  NOT_AUTHORIZED = 'NOT_AUTHORIZED',
+  INVALID_INPUT = 'INVALID_INPUT',
+  INVALID_CLOCK = 'INVALID_CLOCK',
+  UNEXPECTED_ERROR = 'UNEXPECTED_ERROR',
+  TIMEOUT = 'TIMEOUT',
+  SUBSCRIPTION_LIMIT_EXCEEDED = 'SUBSCRIPTION_LIMIT_EXCEEDED',
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  CONNECTION_FAILED = 'CONNECTION_FAILED',
+  MAX_CONNECTION_LIMIT_EXCEEDED = 'MAX_CONNECTION_LIMIT_EXCEEDED',
+  TOO_MANY_REQUESTS = 'TOO_MANY_REQUESTS',
+}
+
+// How a stream error should be handled
+export enum StreamErrorSeverity {
+  FATAL = 'FATAL', // Retrying will not help - app key, permissions or the request itself must change
+  REAUTHENTICATE = 'REAUTHENTICATE', // Session token must be renewed before reconnecting
+  RECOVERABLE = 'RECOVERABLE', // Reconnect (with backoff) and resume
+}
+
 export enum ChangeType {
   SUB_IMAGE = 'SUB_IMAGE',
   RESUB_DELTA = 'RESUB_DELTA',
@@ -292,6 +360,18 @@ export enum BettingType {
   ASIAN_HANDICAP_SINGLE_LINE = 'ASIAN_HANDICAP_SINGLE_LINE',
 }
 
+export enum MarketDataField {
+  EX_BEST_OFFERS_DISP = 'EX_BEST_OFFERS_DISP', // Best prices including virtual prices (bdatb/bdatl)
+  EX_BEST_OFFERS = 'EX_BEST_OFFERS', // Best prices excluding virtual prices (batb/batl)
+  EX_ALL_OFFERS = 'EX_ALL_OFFERS', // Full available to back/lay ladder (atb/atl)
+  EX_TRADED = 'EX_TRADED', // Full traded ladder (trd)
+  EX_TRADED_VOL = 'EX_TRADED_VOL', // Market and runner level traded volume (tv)
+  EX_LTP = 'EX_LTP', // Last traded price (ltp)
+  EX_MARKET_DEF = 'EX_MARKET_DEF', // Market definition
+  SP_TRADED = 'SP_TRADED', // Starting price ladders (spb/spl)
+  SP_PROJECTED = 'SP_PROJECTED', // Projected starting prices (spn/spf)
+}
+
 export enum StreamMarketStatus {
   INACTIVE = 'INACTIVE',
   OPEN = 'OPEN',
@@ -299,6 +379,12 @@ export enum StreamMarketStatus {
   CLOSED = 'CLOSED',
 }
 
+export enum StreamPriceLadderType {
+  CLASSIC = 'CLASSIC',
+  FINEST = 'FINEST',
+  LINE_RANGE = 'LINE_RANGE',
+}
+
 export enum StreamRunnerStatus {
   ACTIVE = 'ACTIVE',
   WINNER = 'WINNER',
@@ -13,6 +13,14 @@ import {
   OrderChangeCallback,
   RawDataCallback,
   OrderFilter,
+  ConnectionClosedCallback,
+  StreamMarketFilter,
+  MarketDataFilter,
+  StreamError,
+  StreamErrorCallback,
+  StreamErrorCode,
+  StreamErrorSeverity,
+  StatusCode,
 } from './betfair-exchange-stream-api-types';
 
 import {
@@ -25,6 +33,7 @@ import {
   resetStreamDecoder,
   updateSubscribedMarkets,
   clearOrderCache,
+  clearMarketCache,
 } from './betfair-stream-decoder';
 
 import {
@@ -36,9 +45,25 @@ import {
 } from './heartbeat';
 
 import { generatePacketId } from './utils';
-
-const STREAM_URL = 'stream-api.betfair.com';
-const STREAM_PORT = 443;
+import { BetfairEndpoints, DEFAULT_BETFAIR_ENDPOINTS } from './betfair-endpoints';
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 15000;
+
+// Errors that reconnecting cannot fix - the app key, permissions or request must change first
+const FATAL_STREAM_ERROR_CODES: StreamErrorCode[] = [
+  StreamErrorCode.NO_APP_KEY,
+  StreamErrorCode.INVALID_APP_KEY,
+  StreamErrorCode.NOT_AUTHORIZED,
+  StreamErrorCode.INVALID_INPUT,
+  StreamErrorCode.INVALID_REQUEST,
+  StreamErrorCode.SUBSCRIPTION_LIMIT_EXCEEDED,
+];
+
+// Errors fixed by logging in again and authenticating with the new session token
+const REAUTHENTICATE_STREAM_ERROR_CODES: StreamErrorCode[] = [
+  StreamErrorCode.NO_SESSION,
+  StreamErrorCode.INVALID_SESSION_INFORMATION,
+];
 
 // Stream API State
 export interface StreamApiState {
@@ -47,8 +72,11 @@ export interface StreamApiState {
   authenticationStatus: boolean;
   authToken: string;
   appKey: string;
+  endpoints: BetfairEndpoints;
   connectionId?: string;
   pendingPackets: { [key: string]: string };
+  pendingRequests: Map<number, PendingStreamRequest>; // Shared by every copy of the state so replies can settle them
+  live: LiveStreamState; // Shared by every copy of a connection's state so socket handlers update the latest one
   streamDecoder: StreamDecoderState;
   heartbeat: HeartbeatState;
   segmentationEnabled: boolean;
@@ -61,6 +89,35 @@ export interface StreamApiState {
   marketChangeCallback: MarketChangeCallback;
   orderChangeCallback?: OrderChangeCallback;
   rawDataCallback?: RawDataCallback;
+  connectionClosedCallback?: ConnectionClosedCallback;
+  onStreamError?: StreamErrorCallback;
+}
+
+// The latest copy of a connection's state - the one the socket handlers update
+export interface LiveStreamState {
+  current?: StreamApiState;
+}
+
+// An awaitable request waiting for its status reply
+export interface PendingStreamRequest {
+  resolve: (statusMessage: StatusMessage) => void;
+  reject: (error: StreamRequestError) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Raised when an awaited stream request fails, times out or loses its connection
+ */
+export class StreamRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly errorCode: StreamErrorCode,
+    public readonly id?: number,
+    public readonly statusMessage?: StatusMessage
+  ) {
+    super(message);
+    this.name = 'StreamRequestError';
+  }
 }
 
 /**
@@ -75,7 +132,9 @@ export const createStreamApiState = (
   audCurrencyRate: CurrencyRate,
   marketChangeCallback: MarketChangeCallback,
   orderChangeCallback?: OrderChangeCallback,
-  rawDataCallback?: RawDataCallback
+  rawDataCallback?: RawDataCallback,
+  endpoints: BetfairEndpoints = DEFAULT_BETFAIR_ENDPOINTS,
+  onStreamError?: StreamErrorCallback
 ): StreamApiState => {
   const onHeartAttack = () => {
     console.warn('Heartbeat timeout detected - stream may be stale, but continuing...');
@@ -87,7 +146,10 @@ export const createStreamApiState = (
     authenticationStatus: false,
     authToken,
     appKey,
+    endpoints,
     pendingPackets: {},
+    pendingRequests: new Map(),
+    live: {},
     streamDecoder: createStreamDecoderState(audCurrencyRate),
     heartbeat: createHeartbeatState(heartbeatMs, onHeartAttack),
     segmentationEnabled,
@@ -98,27 +160,29 @@ export const createStreamApiState = (
     marketChangeCallback,
     orderChangeCallback,
     rawDataCallback,
+    onStreamError,
   };
 };
 
 /**
- * Opens the TLS stream connection
+ * Opens the TLS stream connection. The socket handlers keep the latest copy of the returned
+ * state up to date, so hold on to the state each stream function returns.
  */
 export const openStream = (state: StreamApiState): Promise<StreamApiState> => {
   return new Promise((resolve, reject) => {
     try {
+      // Each connection gets its own holder, so a replaced socket can't update the next connection's state
+      const connection = track({ ...state, live: {}, authenticationStatus: false });
+      const getState = (): StreamApiState => connection.live.current || connection;
+
       const tlsSocket = tls.connect(
         {
-          host: STREAM_URL,
-          port: STREAM_PORT,
+          host: state.endpoints.streamHost,
+          port: state.endpoints.streamPort,
         },
         () => {
           console.log('Stream connected successfully');
-          resolve({
-            ...state,
-            tlsSocket,
-            authenticationStatus: false,
-          });
+          resolve(getState());
         }
       );
 
@@ -129,30 +193,32 @@ export const openStream = (state: StreamApiState): Promise<StreamApiState> => {
       const streamDecoderCallbacks: StreamDecoderCallbacks = {
         onMarketChange: state.marketChangeCallback,
         onOrderChange: state.orderChangeCallback,
-        onStatus: (statusMessage: StatusMessage) => handleStatusMessage(state, statusMessage),
-        onConnection: (connectionMessage: ConnectionMessage) => handleConnectionMessage(state, connectionMessage),
-        onHeartbeat: () => handleHeartbeat(state),
+        onStatus: (statusMessage: StatusMessage) => handleStatusMessage(getState(), statusMessage),
+        onConnection: (connectionMessage: ConnectionMessage) => handleConnectionMessage(getState(), connectionMessage),
+        onHeartbeat: () => handleHeartbeat(getState()),
       };
 
       readline.on('line', (data: string) => {
+        const current = getState();
+
         // Call raw data callback first (for recording raw transmissions)
-        if (state.rawDataCallback) {
-          state.rawDataCallback(data);
+        if (current.rawDataCallback) {
+          current.rawDataCallback(data);
         }
 
         // Refresh heartbeat on each data packet (this will start it if not already running)
-        const refreshedHeartbeat = state.heartbeat.isBeating 
-          ? refreshHeartbeat(state.heartbeat)
-          : startHeartbeat(state.heartbeat);
+        const refreshedHeartbeat = current.heartbeat.isBeating 
+          ? refreshHeartbeat(current.heartbeat)
+          : startHeartbeat(current.heartbeat);
         
         const updatedStreamDecoder = processDataPacket(
-          state.streamDecoder,
+          current.streamDecoder,
           streamDecoderCallbacks,
           data
         );
 
-        // Update state (in real implementation, this would be managed by state management)
-        Object.assign(state, {
+        // Update the latest state, so the clocks and caches reach the copy the caller holds
+        Object.assign(current, {
           heartbeat: refreshedHeartbeat,
           streamDecoder: updatedStreamDecoder,
         });
@@ -160,15 +226,34 @@ export const openStream = (state: StreamApiState): Promise<StreamApiState> => {
 
       readline.on('close', () => {
         console.warn('Stream has closed');
-        Object.assign(state, { authenticationStatus: false });
+        const current = getState();
+
+        // closeStream has already cleaned up, and the pending requests may belong to a restarted connection
+        if (current.tlsSocket === tlsSocket) {
+          // Stop the live heartbeat so a closed connection can't raise a late heart attack
+          Object.assign(current, {
+            authenticationStatus: false,
+            heartbeat: stopHeartbeat(current.heartbeat),
+          });
+          rejectPendingRequests(current, 'Stream closed before a reply was received');
+        }
+
+        if (current.connectionClosedCallback) {
+          current.connectionClosedCallback({ source: 'socket-closed', tlsSocket });
+        }
       });
 
       tlsSocket.on('error', (error: Error) => {
         console.error('Stream error:', error);
         reject(error);
+
+        const current = getState();
+        if (current.connectionClosedCallback) {
+          current.connectionClosedCallback({ source: 'socket-error', tlsSocket, error });
+        }
       });
 
-      Object.assign(state, { readline, tlsSocket });
+      Object.assign(connection, { readline, tlsSocket });
     } catch (error) {
       reject(error);
     }
@@ -189,20 +274,49 @@ export const closeStream = (state: StreamApiState): StreamApiState => {
   }
 
   const stoppedHeartbeat = stopHeartbeat(state.heartbeat);
+  rejectPendingRequests(state, 'Stream closed before a reply was received');
 
-  return {
+  return track({
     ...state,
     tlsSocket: undefined,
     readline: undefined,
     authenticationStatus: false,
     heartbeat: stoppedHeartbeat,
-  };
+  });
 };
 
 /**
- * Authenticates the stream connection
+ * Authenticates the stream connection without waiting for Betfair's reply.
+ * Use authenticateStreamAsync to only mark the stream authenticated once Betfair accepts it.
  */
 export const authenticateStream = (state: StreamApiState): StreamApiState => {
+  const { state: sentState } = sendAuthentication(state);
+
+  return track({
+    ...sentState,
+    authenticationStatus: true,
+  });
+};
+
+/**
+ * Authenticates the stream and resolves once Betfair accepts the session.
+ * Rejects with a StreamRequestError on failure or if no reply arrives within the timeout.
+ */
+export const authenticateStreamAsync = async (
+  state: StreamApiState,
+  timeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS
+): Promise<StreamApiState> => {
+  const { state: sentState, packetId } = sendAuthentication(state);
+  await awaitStatus(sentState, packetId, timeoutMs);
+
+  return track({
+    ...sentState,
+    authenticationStatus: true,
+    pendingPackets: withoutPacket(sentState.pendingPackets, packetId),
+  });
+};
+
+const sendAuthentication = (state: StreamApiState): { state: StreamApiState; packetId: number } => {
   if (!state.tlsSocket) {
     throw new Error('Stream not connected');
   }
@@ -226,39 +340,55 @@ export const authenticateStream = (state: StreamApiState): StreamApiState => {
   state.tlsSocket.write(`${payload}\r\n`);
 
   return {
-    ...state,
-    authenticationStatus: true,
-    pendingPackets: updatedPendingPackets,
+    state: track({ ...state, pendingPackets: updatedPendingPackets }),
+    packetId,
   };
 };
 
 /**
  * Subscribes to market updates
+ * @param state - Current stream state
+ * @param marketFilter - Market IDs, or a full stream market filter (event types, countries, market types, venues, race types...)
+ * @param marketDataFilter - Optional fields and ladder depth to receive
  */
 export const subscribeToMarkets = (
   state: StreamApiState,
-  marketIds: string[]
+  marketFilter: string[] | StreamMarketFilter,
+  marketDataFilter?: MarketDataFilter
 ): StreamApiState => {
   if (!state.tlsSocket || !state.authenticationStatus) {
     throw new Error('Stream not connected or authenticated');
   }
 
-  // Clear cache and update subscribed markets
-  let updatedStreamDecoder = resetStreamDecoder(state.streamDecoder);
+  if (
+    marketDataFilter?.ladderLevels !== undefined &&
+    (!Number.isInteger(marketDataFilter.ladderLevels) ||
+      marketDataFilter.ladderLevels < 1 ||
+      marketDataFilter.ladderLevels > 10)
+  ) {
+    throw new Error('Ladder levels must be an integer between 1 and 10');
+  }
+
+  const filter: StreamMarketFilter = Array.isArray(marketFilter)
+    ? { marketIds: marketFilter }
+    : marketFilter;
+  const marketIds = filter.marketIds || [];
+
+  // Clear the market cache and update subscribed markets - the order subscription keeps its cache and clocks
+  let updatedStreamDecoder = clearMarketCache(state.streamDecoder);
   updatedStreamDecoder = updateSubscribedMarkets(updatedStreamDecoder, marketIds);
 
   // Stop heartbeat if no markets
   let updatedHeartbeat = state.heartbeat;
-  if (marketIds.length === 0) {
+  if (Array.isArray(marketFilter) && marketFilter.length === 0) {
     updatedHeartbeat = stopHeartbeat(state.heartbeat);
   }
 
   const message: MarketSubscriptionMessage = {
     id: generatePacketId(),
     op: 'marketSubscription',
-    marketFilter: {
-      marketIds,
-    },
+    marketFilter: filter,
+    ...(marketDataFilter && { marketDataFilter }),
     segmentationEnabled: state.segmentationEnabled,
     conflateMs: state.conflateMs,
     heartbeatMs: state.heartbeatMs,
@@ -274,14 +404,14 @@ export const subscribeToMarkets = (
 
   state.tlsSocket.write(`${payload}\r\n`);
 
-  return {
+  return track({
     ...state,
     streamDecoder: updatedStreamDecoder,
     heartbeat: updatedHeartbeat,
     lastMarketSubscription: message,
     lastMarkets: marketIds,
     pendingPackets: updatedPendingPackets,
-  };
+  });
 };
 
 /**
@@ -325,12 +455,96 @@ export const subscribeToOrders = (
 
   state.tlsSocket.write(`${payload}\r\n`);
 
-  return {
+  return track({
     ...state,
     streamDecoder: updatedStreamDecoder,
     lastOrderSubscription: message,
     pendingPackets: updatedPendingPackets,
-  };
+  });
+};
+
+/**
+ * Subscribes to markets and resolves once Betfair accepts the subscription
+ */
+export const subscribeToMarketsAsync = async (
+  state: StreamApiState,
+  marketFilter: string[] | StreamMarketFilter,
+  marketDataFilter?: MarketDataFilter,
+  timeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS
+): Promise<StreamApiState> => {
+  const sentState = subscribeToMarkets(state, marketFilter, marketDataFilter);
+  const packetId = (sentState.lastMarketSubscription as MarketSubscriptionMessage).id;
+  await awaitStatus(sentState, packetId, timeoutMs);
+
+  return track({
+    ...sentState,
+    pendingPackets: withoutPacket(sentState.pendingPackets, packetId),
+  });
+};
+
+/**
+ * Subscribes to orders and resolves once Betfair accepts the subscription
+ */
+export const subscribeToOrdersAsync = async (
+  state: StreamApiState,
+  orderFilter?: OrderFilter,
+  timeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS
+): Promise<StreamApiState> => {
+  const sentState = subscribeToOrders(state, orderFilter);
+  const packetId = (sentState.lastOrderSubscription as OrderSubscriptionMessage).id;
+  await awaitStatus(sentState, packetId, timeoutMs);
+
+  return track({
+    ...sentState,
+    pendingPackets: withoutPacket(sentState.pendingPackets, packetId),
+  });
+};
+
+/**
+ * Waits for the status reply to a request that has already been written to the socket
+ */
+const awaitStatus = (
+  state: StreamApiState,
+  packetId: number,
+  timeoutMs: number
+): Promise<StatusMessage> => {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      state.pendingRequests.delete(packetId);
+      // Mark the packet like a failed reply, on the copy the status handler would have updated
+      const current = getLiveStreamState(state);
+      if (current.pendingPackets[packetId]) {
+        current.pendingPackets[packetId] = 'TIMEOUT';
+      }
+      reject(new StreamRequestError(
+        `No reply to stream request ${packetId} within ${timeoutMs}ms`,
+        StreamErrorCode.TIMEOUT,
+        packetId
+      ));
+    }, timeoutMs);
+
+    state.pendingRequests.set(packetId, { resolve, reject, timer });
+  });
+};
+
+const withoutPacket = (
+  pendingPackets: { [key: string]: string },
+  packetId: number
+): { [key: string]: string } => {
+  const remaining = { ...pendingPackets };
+  delete remaining[packetId];
+  return remaining;
+};
+
+/**
+ * Rejects every awaited request, e.g. when the connection goes away
+ */
+const rejectPendingRequests = (state: StreamApiState, reason: string): void => {
+  state.pendingRequests.forEach((pendingRequest, packetId) => {
+    clearTimeout(pendingRequest.timer);
+    pendingRequest.reject(new StreamRequestError(reason, StreamErrorCode.CONNECTION_FAILED, packetId));
+  });
+  state.pendingRequests.clear();
 };
 
 /**
@@ -354,37 +568,210 @@ export const setAuthCredentials = (
   state: StreamApiState,
   appKey: string,
   authToken: string
-): StreamApiState => ({
+): StreamApiState => track({
   ...state,
   appKey,
   authToken,
 });
 
 /**
- * Restarts the stream connection
+ * Resends the last market subscription with the latest clocks so the stream
+ * resumes with deltas. Without clocks the cache is cleared for a full re-image.
+ */
+export const resumeMarketSubscription = (state: StreamApiState): StreamApiState => {
+  if (!state.tlsSocket || !state.authenticationStatus) {
+    throw new Error('Stream not connected or authenticated');
+  }
+
+  if (!state.lastMarketSubscription) {
+    return state;
+  }
+
+  const { initialClk, clk } = state.streamDecoder.clocks.market;
+  const streamDecoder = initialClk || clk
+    ? state.streamDecoder
+    : clearMarketCache(state.streamDecoder);
+
+  const message: MarketSubscriptionMessage = {
+    ...state.lastMarketSubscription,
+    id: generatePacketId(),
+    initialClk,
+    clk,
+  };
+
+  const payload = JSON.stringify(message);
+  console.log(`Resuming market subscription: ${payload}`);
+
+  state.tlsSocket.write(`${payload}\r\n`);
+
+  return track({
+    ...state,
+    streamDecoder,
+    lastMarketSubscription: message,
+    pendingPackets: {
+      ...state.pendingPackets,
+      [message.id]: 'AWAITING',
+    },
+  });
+};
+
+/**
+ * Resends the last order subscription with the latest clocks so the stream
+ * resumes with deltas. Without clocks the cache is cleared for a full re-image.
+ */
+export const resumeOrderSubscription = (state: StreamApiState): StreamApiState => {
+  if (!state.tlsSocket || !state.authenticationStatus) {
+    throw new Error('Stream not connected or authenticated');
+  }
+
+  if (!state.lastOrderSubscription) {
+    return state;
+  }
+
+  const { initialClk, clk } = state.streamDecoder.clocks.order;
+  const streamDecoder = initialClk || clk
+    ? state.streamDecoder
+    : clearOrderCache(state.streamDecoder);
+
+  const message: OrderSubscriptionMessage = {
+    ...state.lastOrderSubscription,
+    id: generatePacketId(),
+    initialClk,
+    clk,
+  };
+
+  const payload = JSON.stringify(message);
+  console.log(`Resuming order subscription: ${payload}`);
+
+  state.tlsSocket.write(`${payload}\r\n`);
+
+  return track({
+    ...state,
+    streamDecoder,
+    lastOrderSubscription: message,
+    pendingPackets: {
+      ...state.pendingPackets,
+      [message.id]: 'AWAITING',
+    },
+  });
+};
+
+/**
+ * Clears the caches and clocks so the next resume starts over with a full image, e.g. after INVALID_CLOCK
+ */
+export const resetStreamClocks = (state: StreamApiState): StreamApiState => track({
+  ...state,
+  streamDecoder: resetStreamDecoder(state.streamDecoder),
+});
+
+/**
+ * Gets the latest copy of a connection's state, with the clocks and caches the socket handlers last updated
+ */
+export const getLiveStreamState = (state: StreamApiState): StreamApiState => state.live.current || state;
+
+/**
+ * Makes a copy of the state the latest one of its connection, so the socket handlers update it
+ */
+const track = (state: StreamApiState): StreamApiState => {
+  state.live.current = state;
+  return state;
+};
+
+/**
+ * Restarts the stream connection and resumes the market and order subscriptions
  */
 export const restartStream = async (state: StreamApiState): Promise<StreamApiState> => {
   console.log('Restarting stream connection');
   
   let updatedState = closeStream(state);
   updatedState = await openStream(updatedState);
-  updatedState = authenticateStream(updatedState);
-  
-  if (updatedState.lastMarketSubscription) {
-    updatedState = subscribeToMarkets(updatedState, updatedState.lastMarkets);
-  }
+  updatedState = await authenticateStreamAsync(updatedState);
+  updatedState = resumeMarketSubscription(updatedState);
+  updatedState = resumeOrderSubscription(updatedState);
   
   return updatedState;
 };
 
+/**
+ * Classifies a stream error code as fatal, needing re-authentication or recoverable by reconnecting
+ */
+export const getStreamErrorSeverity = (errorCode: StreamErrorCode | string): StreamErrorSeverity => {
+  if (FATAL_STREAM_ERROR_CODES.includes(errorCode as StreamErrorCode)) {
+    return StreamErrorSeverity.FATAL;
+  }
+
+  if (REAUTHENTICATE_STREAM_ERROR_CODES.includes(errorCode as StreamErrorCode)) {
+    return StreamErrorSeverity.REAUTHENTICATE;
+  }
+
+  return StreamErrorSeverity.RECOVERABLE;
+};
+
 // Event Handlers
 const handleStatusMessage = (state: StreamApiState, statusMessage: StatusMessage): void => {
-  if (statusMessage.statusCode !== 'SUCCESS') {
-    throw new Error(`Operation failed: ${JSON.stringify(statusMessage)}`);
+  if (statusMessage.statusCode !== StatusCode.SUCCESS) {
+    const streamError = createStreamError(statusMessage);
+    console.error(
+      `Stream operation ${statusMessage.id} failed: ${streamError.errorCode} ${statusMessage.errorMessage || ''}`.trim()
+    );
+
+    if (statusMessage.id !== undefined && state.pendingPackets[statusMessage.id]) {
+      state.pendingPackets[statusMessage.id] = 'REJECTED';
+    }
+
+    if (state.onStreamError) {
+      state.onStreamError(streamError);
+    }
+  } else {
+    // Remove from pending packets
+    delete state.pendingPackets[statusMessage.id];
+  }
+
+  settlePendingRequest(state, statusMessage);
+
+  // Betfair is closing the connection - hand over to the listener
+  if (statusMessage.connectionClosed && state.connectionClosedCallback) {
+    state.connectionClosedCallback({
+      source: 'status',
+      tlsSocket: state.tlsSocket,
+      statusMessage,
+    });
   }
-  
-  // Remove from pending packets
-  delete state.pendingPackets[statusMessage.id];
+};
+
+const settlePendingRequest = (state: StreamApiState, statusMessage: StatusMessage): void => {
+  const pendingRequest = state.pendingRequests.get(statusMessage.id);
+  if (!pendingRequest) {
+    return;
+  }
+
+  clearTimeout(pendingRequest.timer);
+  state.pendingRequests.delete(statusMessage.id);
+
+  if (statusMessage.statusCode === StatusCode.SUCCESS) {
+    pendingRequest.resolve(statusMessage);
+  } else {
+    const errorCode = statusMessage.errorCode || StreamErrorCode.UNEXPECTED_ERROR;
+    pendingRequest.reject(new StreamRequestError(
+      `Stream request ${statusMessage.id} failed: ${errorCode} ${statusMessage.errorMessage || ''}`.trim(),
+      errorCode,
+      statusMessage.id,
+      statusMessage
+    ));
+  }
+};
+
+const createStreamError = (statusMessage: StatusMessage): StreamError => {
+  const errorCode = statusMessage.errorCode || StreamErrorCode.UNEXPECTED_ERROR;
+
+  return {
+    id: statusMessage.id,
+    errorCode,
+    errorMessage: statusMessage.errorMessage,
+    severity: getStreamErrorSeverity(errorCode),
+    connectionClosed: statusMessage.connectionClosed,
+    statusMessage,
+  };
 };
 
 const handleConnectionMessage = (state: StreamApiState, connectionMessage: ConnectionMessage): void => {
@@ -406,7 +793,9 @@ export const createAndConnectStream = async (
   audCurrencyRate: CurrencyRate,
   marketChangeCallback: MarketChangeCallback,
   orderChangeCallback?: OrderChangeCallback,
-  rawDataCallback?: RawDataCallback
+  rawDataCallback?: RawDataCallback,
+  endpoints?: BetfairEndpoints,
+  onStreamError?: StreamErrorCallback
 ): Promise<StreamApiState> => {
   let state = createStreamApiState(
     authToken,
@@ -417,11 +806,13 @@ export const createAndConnectStream = async (
     audCurrencyRate,
     marketChangeCallback,
     orderChangeCallback,
-    rawDataCallback
+    rawDataCallback,
+    endpoints,
+    onStreamError
   );
 
   state = await openStream(state);
-  state = authenticateStream(state);
+  state = await authenticateStreamAsync(state);
   
   return state;
 };
@@ -437,7 +828,9 @@ export const createAndConnectRecordingStream = async (
   audCurrencyRate: CurrencyRate,
   marketChangeCallback: MarketChangeCallback,
   orderChangeCallback?: OrderChangeCallback,
-  rawDataCallback?: RawDataCallback
+  rawDataCallback?: RawDataCallback,
+  endpoints?: BetfairEndpoints,
+  onStreamError?: StreamErrorCallback
 ): Promise<StreamApiState> => {
   // Use a longer heartbeat for recording (30 seconds instead of 5)
   const recordingHeartbeatMs = 30000;
@@ -451,6 +844,8 @@ export const createAndConnectRecordingStream = async (
     audCurrencyRate,
     marketChangeCallback,
     orderChangeCallback,
-    rawDataCallback
+    rawDataCallback,
+    endpoints,
+    onStreamError
   );
 };
\ No newline at end of file
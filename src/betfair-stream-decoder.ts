@@ -19,6 +19,8 @@ import {
   OrderRunnerChange,
   UnmatchedOrder,
   StrategyMatchChange,
+  SubscriptionClocks,
+  ChangeMessage,
 } from './betfair-exchange-stream-api-types';
 import { safeJsonParse } from './utils';
 
@@ -30,6 +32,11 @@ export interface StreamDecoderState {
   deltas: string[];
   orderDeltas: string[];
   subscribedMarkets: string[];
+  // Latest clocks per subscription - kept alongside the caches they describe
+  clocks: {
+    market: SubscriptionClocks;
+    order: SubscriptionClocks;
+  };
   // Segmentation handling
   segmentBuffer: {
     marketSegments: { [requestId: string]: Partial<MarketChangeMessage>[] };
@@ -58,6 +65,10 @@ export const createStreamDecoderState = (
   deltas: [],
   orderDeltas: [],
   subscribedMarkets,
+  clocks: {
+    market: {},
+    order: {},
+  },
   segmentBuffer: {
     marketSegments: {},
     orderSegments: {},
@@ -314,12 +325,14 @@ const decodeMarketChangeMessage = (
   callbacks: StreamDecoderCallbacks,
   message: MarketChangeMessage
 ): StreamDecoderState => {
+  const clockedState = trackClocks(state, 'market', message);
+
   if (message.ct === ChangeType.HEARTBEAT) {
     callbacks.onHeartbeat();
-    return state;
+    return clockedState;
   }
 
-  const updatedState = processSubImage(state, message);
+  const updatedState = processSubImage(clockedState, message);
   callbacks.onMarketChange(updatedState.marketCache, updatedState.deltas);
   
   // Clear deltas after callback
@@ -337,9 +350,11 @@ const decodeOrderChangeMessage = (
   callbacks: StreamDecoderCallbacks,
   message: OrderChangeMessage
 ): StreamDecoderState => {
+  const clockedState = trackClocks(state, 'order', message);
+
   if (message.ct === ChangeType.HEARTBEAT) {
     callbacks.onHeartbeat();
-    return state;
+    return clockedState;
   }
 
   console.log('🔍 Raw order change message received:', {
@@ -366,7 +381,7 @@ const decodeOrderChangeMessage = (
     }))
   });
 
-  const updatedState = processOrderSubImage(state, message);
+  const updatedState = processOrderSubImage(clockedState, message);
   
   if (callbacks.onOrderChange) {
     callbacks.onOrderChange(updatedState.orderCache, updatedState.orderDeltas);
@@ -379,6 +394,31 @@ const decodeOrderChangeMessage = (
   };
 };
 
+/**
+ * Records the latest initialClk/clk tokens carried by a change message
+ */
+const trackClocks = (
+  state: StreamDecoderState,
+  subscription: 'market' | 'order',
+  message: ChangeMessage
+): StreamDecoderState => {
+  if (!message.initialClk && !message.clk) {
+    return state;
+  }
+
+  const current = state.clocks[subscription];
+  return {
+    ...state,
+    clocks: {
+      ...state.clocks,
+      [subscription]: {
+        initialClk: message.initialClk || current.initialClk,
+        clk: message.clk || current.clk,
+      },
+    },
+  };
+};
+
 /**
  * Processes order subscription image data
  */
@@ -451,6 +491,15 @@ const processMarketChange = (
 
   let market = marketCache[marketId];
 
+  // Full image - discard cached runner data and rebuild the book from this change
+  if (marketChange.img) {
+    market = {
+      ...createEmptyMarketCache(marketId),
+      marketDefinition: market.marketDefinition,
+    };
+    deltas.push(`Market ${marketId} image received - cache replaced`);
+  }
+
   // Update market definition if present
   if (marketChange.marketDefinition) {
     market = {
@@ -527,6 +576,12 @@ const processRunnerChanges = (
     
     if (!updatedRunners[selectionId]) {
       updatedRunners[selectionId] = createEmptyRunnerCache(runnerChange.id);
+
+      // Seed status from the market definition so a fresh image keeps known runner states
+      const runnerDef = market.marketDefinition.runners?.find(r => r.id === runnerChange.id);
+      if (runnerDef?.status) {
+        updatedRunners[selectionId] = { ...updatedRunners[selectionId], status: runnerDef.status };
+      }
     }
 
     let runner = updatedRunners[selectionId];
@@ -547,22 +602,34 @@ const processRunnerChanges = (
       }
     }
 
+    // Level-keyed ladders (delta merge - a size of 0 removes the level)
     if (runnerChange.batb) {
-      runner = { ...runner, batb: runnerChange.batb };
+      runner = { ...runner, batb: mergeLevelLadder(runner.batb, runnerChange.batb) };
       deltas.push(`Back prices updated for runner ${selectionId}`);
     }
 
     if (runnerChange.batl) {
-      runner = { ...runner, batl: runnerChange.batl };
+      runner = { ...runner, batl: mergeLevelLadder(runner.batl, runnerChange.batl) };
       deltas.push(`Lay prices updated for runner ${selectionId}`);
     }
 
+    if (runnerChange.bdatb) {
+      runner = { ...runner, bdatb: mergeLevelLadder(runner.bdatb, runnerChange.bdatb) };
+      deltas.push(`Display back prices updated for runner ${selectionId}`);
+    }
+
+    if (runnerChange.bdatl) {
+      runner = { ...runner, bdatl: mergeLevelLadder(runner.bdatl, runnerChange.bdatl) };
+      deltas.push(`Display lay prices updated for runner ${selectionId}`);
+    }
+
+    // Price-keyed ladders (delta merge - a size of 0 removes the price)
     if (runnerChange.atb) {
-      runner = { ...runner, atb: runnerChange.atb };
+      runner = { ...runner, atb: mergePriceLadder(runner.atb, runnerChange.atb, 'desc') };
     }
 
     if (runnerChange.atl) {
-      runner = { ...runner, atl: runnerChange.atl };
+      runner = { ...runner, atl: mergePriceLadder(runner.atl, runnerChange.atl) };
     }
 
     // BSP (Betfair Starting Price) fields
@@ -575,12 +642,12 @@ const processRunnerChanges = (
     }
 
     if (runnerChange.spb) {
-      runner = { ...runner, spb: runnerChange.spb };
+      runner = { ...runner, spb: mergePriceLadder(runner.spb, runnerChange.spb) };
       deltas.push(`BSP back prices updated for runner ${selectionId}`);
     }
 
     if (runnerChange.spl) {
-      runner = { ...runner, spl: runnerChange.spl };
+      runner = { ...runner, spl: mergePriceLadder(runner.spl, runnerChange.spl) };
       deltas.push(`BSP lay prices updated for runner ${selectionId}`);
     }
 
@@ -588,9 +655,9 @@ const processRunnerChanges = (
     if (runnerChange.trd) {
       const totalTraded = runnerChange.trd.reduce((sum, [price, volume]) => sum + volume, 0);
       
-      // Don't overwrite existing trading data with empty/zero data during settlement
+      // Don't wipe existing trading data with empty/zero data during settlement
       if (totalTraded > 0 || !runner.trd || runner.trd.length === 0) {
-        runner = { ...runner, trd: runnerChange.trd };
+        runner = { ...runner, trd: mergePriceLadder(runner.trd, runnerChange.trd) };
         deltas.push(`Trading data updated for runner ${selectionId}: ${runnerChange.trd.length} trades, total volume: ${totalTraded}`);
         // console.log(`🔄 Trading data for runner ${selectionId}:`, runnerChange.trd, `total: ${totalTraded}`);
       } else {
@@ -710,14 +777,14 @@ const processOrderRunnerChanges = (
 
     // Process matched backs ladder (delta merge)
     if (runnerChange.mb) {
-      const updatedMatchedBacks = mergeMatchedLadder(runner.matchedBacks, runnerChange.mb);
+      const updatedMatchedBacks = mergePriceLadder(runner.matchedBacks, runnerChange.mb);
       runner = { ...runner, matchedBacks: updatedMatchedBacks };
       deltas.push(`Matched backs updated for runner ${selectionId}: ${runnerChange.mb.length} levels`);
     }
 
     // Process matched lays ladder (delta merge)
     if (runnerChange.ml) {
-      const updatedMatchedLays = mergeMatchedLadder(runner.matchedLays, runnerChange.ml);
+      const updatedMatchedLays = mergePriceLadder(runner.matchedLays, runnerChange.ml);
       runner = { ...runner, matchedLays: updatedMatchedLays };
       deltas.push(`Matched lays updated for runner ${selectionId}: ${runnerChange.ml.length} levels`);
     }
@@ -734,11 +801,11 @@ const processOrderRunnerChanges = (
         let strategyMatch = updatedStrategyMatches[strategyRef];
         
         if (strategyChange.mb) {
-          strategyMatch = { ...strategyMatch, mb: mergeMatchedLadder(strategyMatch.mb || [], strategyChange.mb) };
+          strategyMatch = { ...strategyMatch, mb: mergePriceLadder(strategyMatch.mb || [], strategyChange.mb) };
         }
         
         if (strategyChange.ml) {
-          strategyMatch = { ...strategyMatch, ml: mergeMatchedLadder(strategyMatch.ml || [], strategyChange.ml) };
+          strategyMatch = { ...strategyMatch, ml: mergePriceLadder(strategyMatch.ml || [], strategyChange.ml) };
         }
         
         updatedStrategyMatches[strategyRef] = strategyMatch;
@@ -761,11 +828,13 @@ const processOrderRunnerChanges = (
 };
 
 /**
- * Merges matched ladder data using delta format
+ * Merges a price-keyed ladder ([price, size]) delta into the current ladder.
+ * A size of 0 removes the price. Used for atb/atl/spb/spl/trd and matched ladders.
  */
-const mergeMatchedLadder = (
+export const mergePriceLadder = (
   currentLadder: [number, number][],
-  updates: [number, number][]
+  updates: [number, number][],
+  sortOrder: 'asc' | 'desc' = 'asc'
 ): [number, number][] => {
   const ladderMap = new Map<number, number>();
   
@@ -785,8 +854,36 @@ const mergeMatchedLadder = (
     }
   }
   
-  // Convert back to array and sort by price
-  return Array.from(ladderMap.entries()).sort((a, b) => a[0] - b[0]);
+  // Convert back to array and sort by price (best back price first when descending)
+  return Array.from(ladderMap.entries()).sort((a, b) =>
+    sortOrder === 'asc' ? a[0] - b[0] : b[0] - a[0]
+  );
+};
+
+/**
+ * Merges a level-keyed ladder ([level, price, size]) delta into the current ladder.
+ * A size of 0 removes the level. Used for batb/batl/bdatb/bdatl.
+ */
+export const mergeLevelLadder = (
+  currentLadder: [number, number, number][],
+  updates: [number, number, number][]
+): [number, number, number][] => {
+  const ladderMap = new Map<number, [number, number, number]>();
+
+  for (const entry of currentLadder) {
+    ladderMap.set(entry[0], entry);
+  }
+
+  for (const [level, price, size] of updates) {
+    if (size === 0) {
+      ladderMap.delete(level);
+    } else {
+      ladderMap.set(level, [level, price, size]);
+    }
+  }
+
+  // Level 0 is the best price
+  return Array.from(ladderMap.values()).sort((a, b) => a[0] - b[0]);
 };
 
 /**
@@ -834,6 +931,8 @@ const createEmptyRunnerCache = (id: number): RunnerCache => ({
   totalMatched: 0,
   batb: [],
   batl: [],
+  bdatb: [],
+  bdatl: [],
   atb: [],
   atl: [],
   ltp: 0,
@@ -856,11 +955,19 @@ const convertPrice = (price: number, currencyRate: CurrencyRate): number => {
 };
 
 /**
- * Clears the market cache
+ * Clears the market cache, clocks and segments, keeping the order subscription's state
  */
 export const clearMarketCache = (state: StreamDecoderState): StreamDecoderState => ({
   ...state,
   marketCache: {},
+  clocks: {
+    ...state.clocks,
+    market: {},
+  },
+  segmentBuffer: {
+    ...state.segmentBuffer,
+    marketSegments: {}, // Clear market segments but keep order segments
+  },
 });
 
 /**
@@ -901,6 +1008,10 @@ export const resetStreamDecoder = (state: StreamDecoderState): StreamDecoderStat
   orderCache: {},
   deltas: [],
   orderDeltas: [],
+  clocks: {
+    market: {},
+    order: {},
+  },
   segmentBuffer: {
     marketSegments: {},
     orderSegments: {},
@@ -921,8 +1032,21 @@ export const clearOrderCache = (state: StreamDecoderState): StreamDecoderState =
   ...state,
   orderCache: {},
   orderDeltas: [],
+  clocks: {
+    ...state.clocks,
+    order: {},
+  },
   segmentBuffer: {
     ...state.segmentBuffer,
     orderSegments: {}, // Clear order segments but keep market segments
   },
-});
\ No newline at end of file
+});
+
+/**
+ * Gets the latest clocks for the market and order subscriptions
+ */
+export const getSubscriptionClocks = (
+  state: StreamDecoderState
+): { market: SubscriptionClocks; order: SubscriptionClocks } => {
+  return state.clocks;
+};
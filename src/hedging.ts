@@ -0,0 +1,234 @@
+import {
+  PlaceInstruction,
+  CurrentOrderSummary,
+  OrderType,
+  PersistenceType,
+  Side,
+} from './betfair-api-types';
+
+import {
+  MarketCache,
+  OrderAccountCache,
+  OrderRunnerCache,
+} from './betfair-exchange-stream-api-types';
+
+import {
+  MarkPriceSource,
+  RunnerPosition,
+  calculateMarketPosition,
+  getMarkPrice,
+} from './position-engine';
+
+import { PriceLadder, getMarketDefinitionPriceLadder, getNearestValidPrice } from './utils';
+
+export interface HedgeOptions {
+  fraction?: number; // Share of the position to close - 1 greens up fully, 0.5 cashes out half
+  priceSource?: MarkPriceSource;
+  minimumStake?: number; // Hedges below this stake are skipped. Default: MINIMUM_HEDGE_STAKE, set the account currency's minimum bet
+  persistenceType?: PersistenceType;
+  customerStrategyRef?: string; // Only hedge this strategy's position
+  priceLadder?: PriceLadder; // Defaults to the market definition's ladder, or CLASSIC
+}
+
+export type RunnerHedge = {
+  selectionId: number;
+  handicap?: number;
+  side: Side;
+  price: number;
+  stake: number;
+  ifWinAfter: number;
+  ifLoseAfter: number;
+};
+
+export type MarketHedge = {
+  marketId: string;
+  hedges: RunnerHedge[];
+  lockedProfit: number; // Sum of each runner's worse outcome after hedging
+  unpriced: number[]; // Selections with a position but no price to hedge at
+  instructions: PlaceInstruction[];
+};
+
+// Betfair's minimum bet size in GBP - smaller hedges are rejected with INVALID_BET_SIZE
+export const MINIMUM_HEDGE_STAKE = 1;
+
+/**
+ * Calculates the stake that equalises a runner's if-win and if-lose P&L at a price.
+ * A net back position (ifWin > ifLose) is closed by laying, a net lay by backing.
+ * @param ifWin - P&L if the runner wins
+ * @param ifLose - P&L if the runner loses
+ * @param price - Hedge price
+ * @param fraction - Share of the difference to close
+ * @returns Hedge side and unrounded stake
+ */
+export const calculateHedgeStake = (
+  ifWin: number,
+  ifLose: number,
+  price: number,
+  fraction: number = 1
+): { side: Side; stake: number } => {
+  const stake = ((ifWin - ifLose) / price) * fraction;
+  return stake >= 0 ? { side: Side.LAY, stake } : { side: Side.BACK, stake: -stake };
+};
+
+/**
+ * Calculates the hedge for one runner position
+ * @param position - Runner position from the position engine
+ * @param price - Price to hedge at, rounded to a valid tick against the hedger
+ * @param options - Hedge options
+ * @returns The hedge, or undefined if the stake is below the minimum
+ */
+export const calculateRunnerHedge = (
+  position: RunnerPosition,
+  price: number,
+  options: HedgeOptions = {}
+): RunnerHedge | undefined => {
+  const netBack = position.ifWin >= position.ifLose;
+
+  // Lays match at the price or lower and backs at the price or higher, so round towards matching
+  const hedgePrice = getNearestValidPrice(price, netBack ? 'up' : 'down', options.priceLadder);
+  const { side, stake } = calculateHedgeStake(position.ifWin, position.ifLose, hedgePrice, options.fraction ?? 1);
+  const roundedStake = Math.round(stake * 100) / 100;
+
+  if (roundedStake < (options.minimumStake ?? MINIMUM_HEDGE_STAKE)) {
+    return undefined;
+  }
+
+  const winChange = roundedStake * (hedgePrice - 1);
+  return {
+    selectionId: position.selectionId,
+    handicap: position.handicap,
+    side,
+    price: hedgePrice,
+    stake: roundedStake,
+    ifWinAfter: side === Side.LAY ? position.ifWin - winChange : position.ifWin + winChange,
+    ifLoseAfter: side === Side.LAY ? position.ifLose + roundedStake : position.ifLose - roundedStake,
+  };
+};
+
+/**
+ * Calculates the hedges for every runner of a market from the order stream cache
+ * @param orderCache - Order stream cache for the market
+ * @param marketCache - Live market cache with the current ladders
+ * @param options - Hedge options
+ * @returns Hedges and ready-to-send place instructions
+ */
+export const calculateMarketHedge = (
+  orderCache: OrderAccountCache,
+  marketCache: MarketCache,
+  options: HedgeOptions = {}
+): MarketHedge => {
+  const report = calculateMarketPosition(orderCache, marketCache, options.priceSource);
+  const position = options.customerStrategyRef ? report.strategies[options.customerStrategyRef] : report;
+  const runnerOptions: HedgeOptions = {
+    ...options,
+    priceLadder: options.priceLadder || getMarketDefinitionPriceLadder(marketCache.marketDefinition),
+  };
+  const hedges: RunnerHedge[] = [];
+  const unpriced: number[] = [];
+  let lockedProfit = 0;
+
+  Object.values(position?.runners || {}).forEach(runnerPosition => {
+    const runner = marketCache.runners[runnerPosition.selectionId.toString()];
+    const netBack = runnerPosition.ifWin >= runnerPosition.ifLose;
+    const price = runner ? getMarkPrice(runner, netBack, options.priceSource) : undefined;
+    const hedge = price ? calculateRunnerHedge(runnerPosition, price, runnerOptions) : undefined;
+
+    if (!price && runnerPosition.ifWin !== runnerPosition.ifLose) {
+      unpriced.push(runnerPosition.selectionId);
+    }
+
+    if (hedge) {
+      hedges.push(hedge);
+      lockedProfit += Math.min(hedge.ifWinAfter, hedge.ifLoseAfter);
+    } else {
+      lockedProfit += Math.min(runnerPosition.ifWin, runnerPosition.ifLose);
+    }
+  });
+
+  return {
+    marketId: orderCache.marketId,
+    hedges,
+    lockedProfit,
+    unpriced,
+    instructions: createHedgeInstructions(hedges, options.persistenceType),
+  };
+};
+
+/**
+ * Calculates the hedges for a market from listCurrentOrders results
+ * @param marketId - Market to hedge
+ * @param orders - Current orders, e.g. from listCurrentOrders
+ * @param marketCache - Live market cache with the current ladders
+ * @param options - Hedge options
+ * @returns Hedges and ready-to-send place instructions
+ */
+export const calculateCurrentOrdersHedge = (
+  marketId: string,
+  orders: CurrentOrderSummary[],
+  marketCache: MarketCache,
+  options: HedgeOptions = {}
+): MarketHedge => {
+  return calculateMarketHedge(createOrderCacheFromCurrentOrders(marketId, orders), marketCache, options);
+};
+
+/**
+ * Builds an order stream style cache from the matched part of current orders
+ * @param marketId - Market to include
+ * @param orders - Current orders, e.g. from listCurrentOrders
+ * @returns Order account cache with matched ladders per runner and strategy
+ */
+export const createOrderCacheFromCurrentOrders = (
+  marketId: string,
+  orders: CurrentOrderSummary[]
+): OrderAccountCache => {
+  const runners: { [key: string]: OrderRunnerCache } = {};
+
+  orders
+    .filter(order => order.marketId === marketId && (order.sizeMatched || 0) > 0)
+    .forEach(order => {
+      const key = order.selectionId.toString();
+      const runner = runners[key] || {
+        id: order.selectionId,
+        hc: order.handicap,
+        unmatchedOrders: {},
+        matchedBacks: [],
+        matchedLays: [],
+        strategyMatches: {},
+      };
+      const match: [number, number] = [order.averagePriceMatched || order.priceSize.price, order.sizeMatched || 0];
+      const isBack = order.side === Side.BACK;
+
+      (isBack ? runner.matchedBacks : runner.matchedLays).push(match);
+
+      if (order.customerStrategyRef) {
+        const strategy = runner.strategyMatches[order.customerStrategyRef] || { mb: [], ml: [] };
+        runner.strategyMatches[order.customerStrategyRef] = isBack
+          ? { ...strategy, mb: [...(strategy.mb || []), match] }
+          : { ...strategy, ml: [...(strategy.ml || []), match] };
+      }
+
+      runners[key] = runner;
+    });
+
+  return { marketId, closed: false, runners, published: Date.now() };
+};
+
+/**
+ * Converts hedges into limit order place instructions
+ */
+export const createHedgeInstructions = (
+  hedges: RunnerHedge[],
+  persistenceType: PersistenceType = PersistenceType.LAPSE
+): PlaceInstruction[] => {
+  return hedges.map(hedge => ({
+    orderType: OrderType.LIMIT,
+    selectionId: hedge.selectionId,
+    handicap: hedge.handicap,
+    side: hedge.side,
+    limitOrder: {
+      size: hedge.stake,
+      price: hedge.price,
+      persistenceType,
+    },
+  }));
+};
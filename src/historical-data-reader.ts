@@ -0,0 +1,330 @@
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import { ChildProcess, spawn } from 'child_process';
+import { PassThrough, Readable, Writable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+
+import { CurrencyRate, MarketCache } from './betfair-exchange-stream-api-types';
+import { StreamDecoderCallbacks, createStreamDecoderState, processDataPacket } from './betfair-stream-decoder';
+
+export type HistoricalDataLine = {
+  source: string; // File path, or archive path and entry name for files inside a tar
+  line: string;
+};
+
+export type HistoricalMarketUpdate = {
+  source: string;
+  publishTime: number;
+  market: MarketCache;
+  changedRunnerIds: number[];
+};
+
+type TarEntry = {
+  name: string;
+  size: number;
+  type: string;
+};
+
+type LineDecoder = {
+  input: Writable;
+  lines: string[];
+  finished: Promise<void>;
+  destroy: () => void; // Releases the decompressor when reading stops early
+};
+
+const TAR_BLOCK_SIZE = 512;
+
+/**
+ * Streams the market updates in Betfair historical data files (PRO or BASIC) or raw recordings.
+ * Each file, or each file in a tar archive, is decoded with a fresh decoder state, except that rotated parts
+ * of one recording (e.g. raw_1.234_2.gz after raw_1.234.gz) carry on from the previous part's caches.
+ * @param files - .txt, .gz, .bz2 or .tar (optionally gzipped) files
+ * @param currencyRate - Rate applied to prices and sizes, defaults to GBP at 1
+ * @returns Async iterator of every changed market after each message
+ */
+export async function* readHistoricalMarketUpdates(
+  files: string | string[],
+  currencyRate: CurrencyRate = { currencyCode: 'GBP', rate: 1 }
+): AsyncGenerator<HistoricalMarketUpdate> {
+  let source: string | undefined;
+  let recordingKey: string | undefined;
+  let decoderState = createStreamDecoderState(currencyRate);
+  let previousCache: { [marketId: string]: MarketCache } = {};
+  let updates: HistoricalMarketUpdate[] = [];
+  let publishTime = 0;
+
+  const callbacks: StreamDecoderCallbacks = {
+    onMarketChange: marketCache => {
+      Object.values(marketCache)
+        .filter(market => previousCache[market.marketId] !== market)
+        .forEach(market => {
+          const previous = previousCache[market.marketId];
+          const changedRunnerIds = Object.values(market.runners)
+            .filter(runner => previous?.runners[runner.id.toString()] !== runner)
+            .map(runner => runner.id);
+          updates.push({ source: source || '', publishTime, market, changedRunnerIds });
+        });
+      previousCache = marketCache;
+    },
+    onStatus: () => {},
+    onConnection: () => {},
+    onHeartbeat: () => {},
+  };
+
+  for (const file of Array.isArray(files) ? files : [files]) {
+    for await (const line of readHistoricalLines(file)) {
+      if (line.source !== source) {
+        source = line.source;
+        // Later parts hold only deltas - their books build on the image in the first part
+        const nextRecordingKey = getRecordingKey(source);
+        if (nextRecordingKey !== recordingKey) {
+          recordingKey = nextRecordingKey;
+          decoderState = createStreamDecoderState(currencyRate);
+          previousCache = {};
+        }
+      }
+
+      publishTime = getPublishTime(line.line) ?? publishTime;
+      decoderState = processDataPacket(decoderState, callbacks, line.line);
+
+      const changed = updates;
+      updates = [];
+      yield* changed;
+    }
+  }
+}
+
+/**
+ * Gets the name a file shares with the other rotated parts of its recording, without the extension,
+ * rotation period (_20240101 or _2024010114) and part number (_2)
+ */
+const getRecordingKey = (source: string): string =>
+  source.replace(/(\.(txt|json|gz|bz2))+$/, '').replace(/(_\d{8}(\d{2})?)?(_\d+)?$/, '');
+
+/**
+ * Streams the stream messages in a historical data file without loading it into memory.
+ * Blank lines and # comment headers from raw recordings are skipped.
+ * @param file - .txt, .gz, .bz2 or .tar (optionally gzipped) file
+ * @returns Async iterator of lines with the file, or archive entry, they came from
+ */
+export async function* readHistoricalLines(file: string): AsyncGenerator<HistoricalDataLine> {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Historical data file not found: ${file}`);
+  }
+
+  if (/\.(tar|tar\.gz|tgz)$/.test(file)) {
+    const input = fs.createReadStream(file);
+    yield* readTarLines(/\.(tar\.gz|tgz)$/.test(file) ? input.pipe(zlib.createGunzip()) : input, file);
+    return;
+  }
+
+  const decoder = createLineDecoder(file);
+  try {
+    for await (const chunk of fs.createReadStream(file)) {
+      yield* writeToLineDecoder(decoder, chunk as Buffer, file);
+    }
+    yield* endLineDecoder(decoder, file);
+  } finally {
+    decoder.destroy();
+  }
+}
+
+/**
+ * Streams the lines of every file in a tar archive, decompressing each by its extension
+ */
+async function* readTarLines(input: Readable, archive: string): AsyncGenerator<HistoricalDataLine> {
+  let buffer = Buffer.alloc(0);
+  let entry: (TarEntry & { remaining: number; padding: number; data: Buffer[] }) | undefined;
+  let decoder: LineDecoder | undefined;
+  let longName: string | undefined;
+
+  try {
+    for await (const chunk of input) {
+      buffer = Buffer.concat([buffer, chunk as Buffer]);
+
+      while (buffer.length > 0) {
+        if (!entry) {
+          if (buffer.length < TAR_BLOCK_SIZE) {
+            break;
+          }
+          const header = parseTarHeader(buffer.subarray(0, TAR_BLOCK_SIZE));
+          buffer = buffer.subarray(TAR_BLOCK_SIZE);
+          if (!header) {
+            continue; // End of archive blocks
+          }
+
+          const name = longName || header.name;
+          longName = undefined;
+          const padding = (TAR_BLOCK_SIZE - (header.size % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE;
+          entry = { ...header, name, remaining: header.size, padding, data: [] };
+          if (isRegularFile(header.type)) {
+            decoder = createLineDecoder(name);
+          }
+        }
+
+        // Entry data, then the padding to the next block
+        const take = Math.min(entry.remaining, buffer.length);
+        if (take > 0) {
+          const data = buffer.subarray(0, take);
+          buffer = buffer.subarray(take);
+          entry.remaining -= take;
+          if (decoder) {
+            yield* writeToLineDecoder(decoder, data, `${archive}/${entry.name}`);
+          } else if (entry.type === 'L' || entry.type === 'x') {
+            entry.data.push(data);
+          }
+        }
+        if (entry.remaining > 0) {
+          break;
+        }
+
+        const padding = Math.min(entry.padding, buffer.length);
+        buffer = buffer.subarray(padding);
+        entry.padding -= padding;
+        if (entry.padding > 0) {
+          break;
+        }
+
+        if (decoder) {
+          yield* endLineDecoder(decoder, `${archive}/${entry.name}`);
+        } else if (entry.type === 'L') {
+          longName = Buffer.concat(entry.data).toString('utf8').replace(/\0+$/, '');
+        } else if (entry.type === 'x') {
+          longName = getPaxPath(Buffer.concat(entry.data).toString('utf8'));
+        }
+        entry = undefined;
+        decoder = undefined;
+      }
+    }
+
+    // Truncated archive
+    if (decoder && entry) {
+      yield* endLineDecoder(decoder, `${archive}/${entry.name}`);
+    }
+  } finally {
+    decoder?.destroy();
+    input.destroy();
+  }
+}
+
+/**
+ * Creates a decompressor for a file by extension that splits its output into lines
+ */
+const createLineDecoder = (name: string): LineDecoder => {
+  const lines: string[] = [];
+  const text = new StringDecoder('utf8');
+  let partial = '';
+  let input: Writable;
+  let output: Readable;
+  let child: ChildProcess | undefined;
+
+  if (name.endsWith('.gz')) {
+    const gunzip = zlib.createGunzip();
+    input = gunzip;
+    output = gunzip;
+  } else if (name.endsWith('.bz2')) {
+    const bzip2 = spawn('bzip2', ['-dc'], { stdio: ['pipe', 'pipe', 'ignore'] });
+    input = bzip2.stdin;
+    output = bzip2.stdout;
+    child = bzip2;
+  } else {
+    const passThrough = new PassThrough();
+    input = passThrough;
+    output = passThrough;
+  }
+
+  const addText = (value: string): void => {
+    const parts = (partial + value).split('\n');
+    partial = parts.pop() || '';
+    lines.push(...parts);
+  };
+
+  const finished = new Promise<void>((resolve, reject) => {
+    output.on('data', (chunk: Buffer) => addText(text.write(chunk)));
+    output.on('end', () => {
+      addText(text.end());
+      lines.push(partial);
+      resolve();
+    });
+    output.on('error', reject);
+    input.on('error', reject);
+    child?.on('error', reject);
+  });
+  // Errors surface to the reader when it next waits on the decoder
+  finished.catch(() => undefined);
+
+  const destroy = (): void => {
+    input.destroy();
+    output.destroy();
+    child?.kill();
+  };
+
+  return { input, lines, finished, destroy };
+};
+
+async function* writeToLineDecoder(decoder: LineDecoder, chunk: Buffer, source: string): AsyncGenerator<HistoricalDataLine> {
+  if (!decoder.input.write(chunk)) {
+    await Promise.race([new Promise(resolve => decoder.input.once('drain', resolve)), decoder.finished]);
+  }
+  yield* takeLines(decoder, source);
+}
+
+async function* endLineDecoder(decoder: LineDecoder, source: string): AsyncGenerator<HistoricalDataLine> {
+  decoder.input.end();
+  await decoder.finished;
+  yield* takeLines(decoder, source);
+}
+
+function* takeLines(decoder: LineDecoder, source: string): Generator<HistoricalDataLine> {
+  const lines = decoder.lines.splice(0);
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (trimmed && !trimmed.startsWith('#')) {
+      yield { source, line: trimmed };
+    }
+  }
+}
+
+/**
+ * Parses a ustar/GNU tar header block, returning undefined for the zero blocks that end an archive
+ */
+const parseTarHeader = (block: Buffer): TarEntry | undefined => {
+  if (block.every(byte => byte === 0)) {
+    return undefined;
+  }
+
+  const readString = (start: number, end: number): string => {
+    const value = block.subarray(start, end);
+    const nul = value.indexOf(0);
+    return value.subarray(0, nul === -1 ? value.length : nul).toString('utf8');
+  };
+
+  const name = readString(0, 100);
+  const prefix = block.subarray(257, 262).toString() === 'ustar' ? readString(345, 500) : '';
+
+  return {
+    name: prefix ? `${prefix}/${name}` : name,
+    size: parseTarSize(block.subarray(124, 136)),
+    type: readString(156, 157) || '0',
+  };
+};
+
+// Sizes over 8GB use GNU base-256 encoding
+const parseTarSize = (field: Buffer): number => {
+  const first = field[0] ?? 0;
+  if (first & 0x80) {
+    return field.subarray(1).reduce((size, byte) => size * 256 + byte, first & 0x7f);
+  }
+  return parseInt(field.toString('utf8').replace(/\0/g, '').trim() || '0', 8);
+};
+
+const getPaxPath = (records: string): string | undefined =>
+  records.split('\n').map(record => record.match(/^\d+ path=(.*)$/)?.[1]).find(path => path !== undefined);
+
+const isRegularFile = (type: string): boolean => type === '0' || type === '7';
+
+// The top-level publish time, read without parsing the whole message
+const getPublishTime = (line: string): number | undefined => {
+  const match = line.match(/"pt":(\d+)/);
+  return match?.[1] ? Number(match[1]) : undefined;
+};
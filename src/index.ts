@@ -1,11 +1,25 @@
 // Main entry point for the betfair-node package
 
 // Functional API exports
+export * from './backtester';
 export * from './betfair-api';
+export * from './betfair-api-errors';
+export * from './betfair-endpoints';
 export * from './betfair-exchange-stream-api';
 export * from './betfair-stream-decoder';
 export * from './heartbeat';
+export * from './hedging';
+export * from './historical-data-reader';
 export * from './market-recorder';
+export * from './market-snapshot-export';
+export * from './order-batching';
+export * from './order-tracker';
+export * from './position-engine';
+export * from './recorder-storage';
+export * from './risk-limits';
+export * from './session-manager';
+export * from './strategy-runtime';
+export * from './stream-supervisor';
 export * from './utils';
 
 // Type exports
@@ -1,5 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { Writable } from 'stream';
 import { 
   MarketCache, 
   RunnerCache, 
@@ -14,13 +15,30 @@ import {
   listMarketCatalogue 
 } from './betfair-api';
 import { MarketCatalogue, MarketSort } from './betfair-api-types';
+import {
+  RawRecordingPosition,
+  RecordedMarkets,
+  RecorderStorageSink,
+  createFileSystemStorageSink,
+} from './recorder-storage';
 
 // Types for market recording
+export type RawRecordingFormat = 'annotated' | 'historical'; // historical = Betfair PRO historical data layout
+export type RawRecordingCompression = 'none' | 'gzip' | 'bz2';
+
+export interface RawRecordingRotation {
+  maxBytes?: number; // Start a new file once this much uncompressed data has been written
+  period?: 'hour' | 'day'; // Start a new file each UTC hour or day of publish time
+}
+
 export interface MarketRecordingConfig {
   outputDirectory: string;
   enableBasicRecording: boolean;
   enableRawRecording: boolean;
   rawFilePrefix?: string;
+  rawFormat?: RawRecordingFormat; // Default 'annotated' - every transmission with # comment headers
+  rawCompression?: RawRecordingCompression; // Default 'none'. bz2 needs the bzip2 executable on the PATH
+  rawRotation?: RawRecordingRotation;
   basicFilePrefix?: string;
   recordingMode?: 'finite' | 'perpetual'; // finite = stop when all markets complete, perpetual = run forever
   onAllMarketsComplete?: () => void; // Callback when all finite markets are complete
@@ -29,6 +47,12 @@ export interface MarketRecordingConfig {
     apiState: BetfairApiState; // Required for REST API calls
     cacheExpiryMinutes?: number; // How long to cache market catalogue data
   };
+  checkpoint?: {
+    enabled: boolean;
+    intervalMs?: number; // How often to save recorder state, default 30 seconds
+    fileName?: string; // Default 'recorder-checkpoint.json' in the output directory
+  };
+  storage?: RecorderStorageSink; // Default: files in the output directory, see createFileSystemStorageSink
 }
 
 export interface BasicMarketRecord {
@@ -84,14 +108,34 @@ export interface BasicRunnerRecord {
   tradingActivity?: [number, number][]; // [price, volume] pairs (top 10 by volume)
 }
 
+export interface RawRecordingFile {
+  path: string;
+  bytesWritten: number; // Uncompressed
+  periodKey?: string;
+  part: number;
+  closed: Promise<void>; // Resolves once the file is flushed and closed
+}
+
+export interface RecorderCheckpoint {
+  version: string;
+  savedAt: string;
+  subscribedMarkets: string[];
+  completedMarkets: string[];
+  basicRecords: BasicMarketRecord[]; // In-flight records, including partial ones
+  rawFiles: { [marketId: string]: { periodKey?: string; part: number; bytesWritten: number } };
+}
+
 export interface MarketRecorderState {
   config: MarketRecordingConfig;
-  rawFileStreams: Map<string, fs.WriteStream>;
+  storage: RecorderStorageSink;
+  rawFileStreams: Map<string, Writable>; // Object mode streams of RawRecordingLine from the storage sink
+  closingRawFiles: Set<Promise<void>>;
   basicRecords: Map<string, BasicMarketRecord>;
   isRecording: boolean;
   subscribedMarkets: Set<string>; // Markets we're actively recording
   completedMarkets: Set<string>; // Markets that have finished/settled
   enrichmentCache: Map<string, { catalogue: MarketCatalogue; cachedAt: Date }>; // Market catalogue cache
+  checkpointTimer?: ReturnType<typeof setInterval>;
 }
 
 /**
@@ -99,7 +143,7 @@ export interface MarketRecorderState {
  */
 export const createMarketRecorderState = (config: MarketRecordingConfig): MarketRecorderState => {
   // Ensure output directory exists
-  if (!fs.existsSync(config.outputDirectory)) {
+  if (!config.storage && !fs.existsSync(config.outputDirectory)) {
     fs.mkdirSync(config.outputDirectory, { recursive: true });
   }
 
@@ -108,7 +152,9 @@ export const createMarketRecorderState = (config: MarketRecordingConfig): Market
       recordingMode: 'finite', // Default to finite mode
       ...config,
     },
+    storage: getStorageSink(config),
     rawFileStreams: new Map(),
+    closingRawFiles: new Set(),
     basicRecords: new Map(),
     isRecording: false,
     subscribedMarkets: new Set(),
@@ -134,49 +180,118 @@ export const startRecording = (
   if (state.config.enableRawRecording) {
     marketIds.forEach(marketId => {
       if (!state.rawFileStreams.has(marketId)) {
-        const filename = `${state.config.rawFilePrefix || ''}${marketId}.txt`;
-        const filepath = path.join(state.config.outputDirectory, filename);
-
-        // Ensure the output directory still exists before creating the stream
-        // This guards against cases where the directory may have been removed between state creation and startRecording
-        const dir = state.config.outputDirectory;
-        if (!fs.existsSync(dir)) {
-          fs.mkdirSync(dir, { recursive: true });
-        }
+        openRawStream(updatedState, marketId, Date.now());
+      }
+    });
+  }
 
-        const writeStream = fs.createWriteStream(filepath, { flags: 'a' });
+  if (state.config.checkpoint?.enabled) {
+    scheduleCheckpoints(updatedState);
+    saveRecorderCheckpoint(updatedState);
+  }
 
-        // Handle asynchronous stream errors gracefully to avoid unhandled errors during tests/cleanup
-        writeStream.on('error', (err) => {
-          console.error(`Raw recording stream error for market ${marketId} at ${filepath}:`, err);
-        });
-        
-        // Write header
-        if (writeStream.writable) {
-          writeStream.write(`# Raw market data for market: ${marketId}\n`);
-          writeStream.write(`# Started at: ${new Date().toISOString()}\n`);
-          writeStream.write(`# Format: Each line contains raw JSON transmission from Betfair Exchange Stream API\n\n`);
-        }
-        
-        updatedState.rawFileStreams.set(marketId, writeStream);
+  return updatedState;
+};
+
+/**
+ * Restores a recorder from its last checkpoint after a crash or restart. Raw files of markets that were
+ * in flight are reopened in append mode (compressed ones continue in a new part) and their partial basic
+ * records reloaded. Resubscribe the stream
+ * to getRecordingCompletionStatus(state).pendingMarkets.
+ */
+export const resumeRecording = (config: MarketRecordingConfig): MarketRecorderState => {
+  const state = createMarketRecorderState(config);
+  const checkpoint = loadRecorderCheckpoint(config);
+  if (!checkpoint) {
+    return state;
+  }
+
+  const resumedState: MarketRecorderState = {
+    ...state,
+    isRecording: true,
+    subscribedMarkets: new Set(checkpoint.subscribedMarkets),
+    completedMarkets: new Set(checkpoint.completedMarkets),
+    basicRecords: new Map(checkpoint.basicRecords.map(record => [record.marketId, record])),
+  };
+
+  const pendingMarkets = checkpoint.subscribedMarkets.filter(marketId => !resumedState.completedMarkets.has(marketId));
+  if (config.enableRawRecording) {
+    pendingMarkets.forEach(marketId => {
+      // Markets without a saved position, e.g. from a sink that doesn't track one, resume at the start
+      openRawStream(resumedState, marketId, Date.now(), checkpoint.rawFiles[marketId] || { part: 1, bytesWritten: 0 });
+    });
+  }
+
+  console.log(`♻️ Resumed recording of ${pendingMarkets.length} markets from checkpoint ${checkpoint.savedAt}`);
+  if (config.checkpoint?.enabled) {
+    scheduleCheckpoints(resumedState);
+  }
+
+  return resumedState;
+};
+
+/**
+ * Saves the recorder state to its storage checkpoint. The filesystem sink writes a temporary file then
+ * renames it so a crash never leaves a partial checkpoint
+ */
+export const saveRecorderCheckpoint = (state: MarketRecorderState): boolean => {
+  try {
+    const rawFiles: RecorderCheckpoint['rawFiles'] = {};
+    state.rawFileStreams.forEach((_stream, marketId) => {
+      const position = state.storage.getRawPosition?.(marketId);
+      if (position) {
+        rawFiles[marketId] = { periodKey: position.periodKey, part: position.part, bytesWritten: position.bytesWritten };
       }
     });
+
+    state.storage.saveCheckpoint({
+      version: '1.0',
+      savedAt: new Date().toISOString(),
+      subscribedMarkets: Array.from(state.subscribedMarkets),
+      completedMarkets: Array.from(state.completedMarkets),
+      basicRecords: Array.from(state.basicRecords.values()),
+      rawFiles,
+    });
+    return true;
+  } catch (error) {
+    console.error('Error saving recorder checkpoint:', error);
+    return false;
   }
+};
 
-  return updatedState;
+/**
+ * Loads the last recorder checkpoint, or null if there is none
+ */
+export const loadRecorderCheckpoint = (config: MarketRecordingConfig): RecorderCheckpoint | null => {
+  try {
+    return getStorageSink(config).loadCheckpoint();
+  } catch (error) {
+    console.error('Error loading recorder checkpoint:', error);
+    return null;
+  }
 };
 
+// Re-arms the checkpoint timer on the latest state, since starting markets creates a new state object
+const scheduleCheckpoints = (state: MarketRecorderState): void => {
+  if (state.checkpointTimer) {
+    clearInterval(state.checkpointTimer);
+  }
+  state.checkpointTimer = setInterval(
+    () => saveRecorderCheckpoint(state),
+    state.config.checkpoint?.intervalMs || 30000
+  );
+  state.checkpointTimer.unref?.();
+};
+
+const getStorageSink = (config: MarketRecordingConfig): RecorderStorageSink =>
+  config.storage || createFileSystemStorageSink(config);
+
 // Register a process-level cleanup to close any open write streams before exit.
 // This is opt-in to avoid global side-effects unless explicitly enabled.
 export const registerRecorderProcessCleanup = (state: MarketRecorderState): void => {
   const cleanup = () => {
     try {
-      state.rawFileStreams.forEach((stream) => {
-        try {
-          stream.end();
-        } catch {}
-      });
-      state.rawFileStreams.clear();
+      Array.from(state.rawFileStreams.keys()).forEach(marketId => closeRawFile(state, marketId));
     } catch {}
   };
 
@@ -196,13 +311,17 @@ export const registerRecorderProcessCleanup = (state: MarketRecorderState): void
  * Stops recording and closes all file streams
  */
 export const stopRecording = (state: MarketRecorderState): MarketRecorderState => {
+  // Save in-flight markets before the raw files are closed so a restart can resume them
+  if (state.checkpointTimer) {
+    clearInterval(state.checkpointTimer);
+  }
+  if (state.config.checkpoint?.enabled && state.isRecording) {
+    saveRecorderCheckpoint(state);
+  }
+
   // Close all open raw file streams safely and clear state
   try {
-    state.rawFileStreams.forEach((stream) => {
-      try {
-        stream.end();
-      } catch {}
-    });
+    Array.from(state.rawFileStreams.keys()).forEach(marketId => closeRawFile(state, marketId));
   } catch {}
 
   return {
@@ -210,9 +329,78 @@ export const stopRecording = (state: MarketRecorderState): MarketRecorderState =
     rawFileStreams: new Map(),
     basicRecords: new Map(),
     isRecording: false,
+    checkpointTimer: undefined,
   };
 };
 
+/**
+ * Opens a market's raw stream from the storage sink
+ */
+const openRawStream = (
+  state: MarketRecorderState,
+  marketId: string,
+  publishTime: number,
+  resumeFrom?: RawRecordingPosition
+): void => {
+  const stream = state.storage.openRawStream(marketId, { publishTime, resumeFrom });
+  stream.on('error', (err) => console.error(`Raw recording error for market ${marketId}:`, err));
+  state.rawFileStreams.set(marketId, stream);
+};
+
+/**
+ * Ends a market's raw stream and tracks it until its storage is flushed
+ */
+const closeRawFile = (state: MarketRecorderState, marketId: string): void => {
+  const stream = state.rawFileStreams.get(marketId);
+  state.rawFileStreams.delete(marketId);
+  if (!stream) {
+    return;
+  }
+
+  const closing = new Promise<void>(resolve => {
+    stream.once('finish', () => resolve());
+    stream.once('close', () => resolve());
+    stream.once('error', () => resolve());
+  }).then(() => {
+    state.closingRawFiles.delete(closing);
+  });
+  state.closingRawFiles.add(closing);
+  try {
+    stream.end();
+  } catch {
+    // A stream that already failed settles the close promise through its error event
+  }
+};
+
+/**
+ * Writes one line to a market's raw stream
+ */
+const writeRawLine = (state: MarketRecorderState, marketId: string, line: string, publishTime: number): void => {
+  const stream = state.rawFileStreams.get(marketId);
+  if (!stream) {
+    return;
+  }
+
+  try {
+    if (stream.writable) {
+      stream.write({ line, publishTime });
+    }
+  } catch (err) {
+    // On error, end and remove the stream to avoid future writes
+    closeRawFile(state, marketId);
+    console.error(`Error writing raw transmission for ${marketId}:`, err);
+  }
+};
+
+/**
+ * Stops recording and waits until every raw file is flushed and closed
+ */
+export const stopRecordingAsync = async (state: MarketRecorderState): Promise<MarketRecorderState> => {
+  const stoppedState = stopRecording(state);
+  await Promise.all(Array.from(state.closingRawFiles));
+  return stoppedState;
+};
+
 /**
  * Records raw transmission data to file
  */
@@ -224,56 +412,39 @@ export const recordRawTransmission = (
     return;
   }
 
+  const historical = state.config.rawFormat === 'historical';
+
   try {
     // Parse the raw data to extract market IDs for routing to specific files
     const parsedData = JSON.parse(rawData);
+    const publishTime = parsedData.pt || Date.now();
     
     // Handle market change messages - route to specific market files
     if (parsedData.mc && Array.isArray(parsedData.mc)) {
       parsedData.mc.forEach((marketChange: any) => {
         const marketId = marketChange.id;
-        const stream = state.rawFileStreams.get(marketId);
-        if (stream) {
-          try {
-            if (stream.writable) {
-              stream.write(`${rawData}\n`);
-            }
-          } catch (err) {
-            // On error, end and remove the stream to avoid future writes
-            try { stream.end(); } catch {}
-            state.rawFileStreams.delete(marketId);
-            console.error(`Error writing raw transmission for ${marketId}:`, err);
-          }
+        if (state.rawFileStreams.has(marketId)) {
+          // Historical files hold one mcm per line with only that market's change
+          const line = historical
+            ? JSON.stringify({ op: 'mcm', clk: parsedData.clk, pt: parsedData.pt, mc: [marketChange] })
+            : rawData;
+          writeRawLine(state, marketId, line, publishTime);
         }
       });
-    } else {
+    } else if (!historical) {
       // For non-market-specific messages (connection, status, etc.), write to all active streams
-      state.rawFileStreams.forEach((stream, marketId) => {
-        try {
-          if (stream.writable) {
-            stream.write(`${rawData}\n`);
-          }
-        } catch (err) {
-          try { stream.end(); } catch {}
-          state.rawFileStreams.delete(marketId);
-          console.error(`Error broadcasting raw transmission to ${marketId}:`, err);
-        }
+      Array.from(state.rawFileStreams.keys()).forEach(marketId => {
+        writeRawLine(state, marketId, rawData, publishTime);
       });
     }
   } catch (error) {
     console.error('Error parsing raw transmission for routing:', error);
     // If parsing fails, write to all active streams to ensure no data is lost
-    state.rawFileStreams.forEach((stream, marketId) => {
-      try {
-        if (stream.writable) {
-          stream.write(`${rawData}\n`);
-        }
-      } catch (err) {
-        try { stream.end(); } catch {}
-        state.rawFileStreams.delete(marketId);
-        console.error(`Error writing fallback raw transmission to ${marketId}:`, err);
-      }
-    });
+    if (!historical) {
+      Array.from(state.rawFileStreams.keys()).forEach(marketId => {
+        writeRawLine(state, marketId, rawData, Date.now());
+      });
+    }
   }
 };
 
@@ -585,13 +756,11 @@ export const updateBasicRecord = (
 
     // If the market is complete, persist and close its raw stream
     if (basicRecord.complete) {
-      saveBasicRecord(state.config, basicRecord);
+      saveBasicRecord(state, basicRecord);
 
       // Close raw stream for this market to prevent leaks in long-running sessions
-      const rawStream = state.rawFileStreams.get(marketId);
-      if (rawStream) {
-        try { rawStream.end(); } catch {}
-        state.rawFileStreams.delete(marketId);
+      if (state.rawFileStreams.has(marketId)) {
+        closeRawFile(state, marketId);
       }
 
       // Track completion and possibly stop all if finite mode
@@ -699,23 +868,11 @@ export const createRecordingMarketChangeCallback = (
 };
 
 /**
- * Saves a basic market record to file
+ * Saves a basic market record to storage
  */
-const saveBasicRecord = (config: MarketRecordingConfig, record: BasicMarketRecord): void => {
+const saveBasicRecord = (state: MarketRecorderState, record: BasicMarketRecord): void => {
   try {
-    const filename = `${config.basicFilePrefix || 'basic_'}${record.marketId}.json`;
-    const filepath = path.join(config.outputDirectory, filename);
-    
-    const recordWithMetadata = {
-      ...record,
-      recordingMetadata: {
-        version: '1.0',
-        createdAt: new Date().toISOString(),
-        recordingType: 'basic',
-      }
-    };
-
-    fs.writeFileSync(filepath, JSON.stringify(recordWithMetadata, null, 2));
+    state.storage.saveBasicRecord(record);
   } catch (error) {
     console.error(`Error saving basic record for market ${record.marketId}:`, error);
   }
@@ -752,8 +909,7 @@ export const getRecordingStatus = (
   let basicFilePath: string | undefined;
 
   if (hasRawStream) {
-    const filename = `${state.config.rawFilePrefix || ''}${marketId}.txt`;
-    rawFilePath = path.join(state.config.outputDirectory, filename);
+    rawFilePath = state.storage.getRawPosition?.(marketId)?.path;
   }
 
   if (hasBasicRecord) {
@@ -771,22 +927,14 @@ export const getRecordingStatus = (
 };
 
 /**
- * Loads a basic market record from file
+ * Loads a basic market record from storage
  */
 export const loadBasicRecord = (
   config: MarketRecordingConfig,
   marketId: string
 ): BasicMarketRecord | null => {
   try {
-    const filename = `${config.basicFilePrefix || 'basic_'}${marketId}.json`;
-    const filepath = path.join(config.outputDirectory, filename);
-    
-    if (!fs.existsSync(filepath)) {
-      return null;
-    }
-
-    const fileContent = fs.readFileSync(filepath, 'utf-8');
-    return JSON.parse(fileContent);
+    return getStorageSink(config).loadBasicRecord(marketId);
   } catch (error) {
     console.error(`Error loading basic record for market ${marketId}:`, error);
     return null;
@@ -794,27 +942,13 @@ export const loadBasicRecord = (
 };
 
 /**
- * Lists all recorded markets in the output directory
+ * Lists all recorded markets in the storage sink, by default the output directory.
+ * Sinks without listMarkets list no markets.
  */
-export const listRecordedMarkets = (config: MarketRecordingConfig): {
-  basicRecords: string[];
-  rawRecords: string[];
-} => {
+export const listRecordedMarkets = (config: MarketRecordingConfig): RecordedMarkets => {
   try {
-    const files = fs.readdirSync(config.outputDirectory);
-    
-    const basicPrefix = config.basicFilePrefix || 'basic_';
-    const rawPrefix = config.rawFilePrefix || '';
-    
-    const basicRecords = files
-      .filter(f => f.startsWith(basicPrefix) && f.endsWith('.json'))
-      .map(f => f.replace(basicPrefix, '').replace('.json', ''));
-    
-    const rawRecords = files
-      .filter(f => f.startsWith(rawPrefix) && f.endsWith('.txt') && !f.startsWith(basicPrefix))
-      .map(f => f.replace(rawPrefix, '').replace('.txt', ''));
-
-    return { basicRecords, rawRecords };
+    const storage = config.storage || createFileSystemStorageSink(config);
+    return storage.listMarkets ? storage.listMarkets() : { basicRecords: [], rawRecords: [] };
   } catch (error) {
     console.error('Error listing recorded markets:', error);
     return { basicRecords: [], rawRecords: [] };
@@ -824,4 +958,9 @@ export const listRecordedMarkets = (config: MarketRecordingConfig): {
 export const shutdownRecorder = (state: MarketRecorderState): MarketRecorderState => {
   // Public helper for production apps to stop recording deterministically
   return stopRecording(state);
+};
+
+export const shutdownRecorderAsync = (state: MarketRecorderState): Promise<MarketRecorderState> => {
+  // Resolves once compressed files have written their trailers, so the process can exit safely
+  return stopRecordingAsync(state);
 };
\ No newline at end of file
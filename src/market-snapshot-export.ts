@@ -0,0 +1,348 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { CurrencyRate, MarketCache, RunnerCache, StreamMarketStatus } from './betfair-exchange-stream-api-types';
+import { HistoricalMarketUpdate, readHistoricalMarketUpdates } from './historical-data-reader';
+
+export type SnapshotFormat = 'csv' | 'parquet';
+
+export interface SnapshotExportConfig {
+  outputDirectory: string;
+  intervalMs?: number; // Sample every runner at this interval of publish time. Default: on every change
+  formats?: SnapshotFormat[]; // Default CSV, and Parquet when config.parquet is set
+  currencyRate?: CurrencyRate;
+  parquet?: ParquetModule; // parquetjs-lite (optional dependency), e.g. require('parquetjs-lite')
+}
+
+/**
+ * The subset of parquetjs-lite used to write Parquet files
+ */
+export interface ParquetModule {
+  ParquetSchema: new (fields: { [column: string]: ParquetField }) => unknown;
+  ParquetWriter: {
+    openFile: (schema: unknown, filepath: string) => Promise<ParquetFileWriter>;
+  };
+}
+
+export interface ParquetFileWriter {
+  appendRow: (row: object) => Promise<void>;
+  close: () => Promise<void>;
+}
+
+export type ParquetField = {
+  type: 'INT64' | 'DOUBLE' | 'UTF8' | 'BOOLEAN';
+  optional?: boolean;
+};
+
+export type RunnerSnapshot = {
+  publishTime: number;
+  marketId: string;
+  selectionId: number;
+  marketStatus: StreamMarketStatus;
+  inPlay: boolean;
+  secondsToOff: number | null; // Negative once past the scheduled start
+  runnerStatus: string;
+  back1Price: number | null;
+  back1Size: number | null;
+  back2Price: number | null;
+  back2Size: number | null;
+  back3Price: number | null;
+  back3Size: number | null;
+  lay1Price: number | null;
+  lay1Size: number | null;
+  lay2Price: number | null;
+  lay2Size: number | null;
+  lay3Price: number | null;
+  lay3Size: number | null;
+  ltp: number | null;
+  tradedVolume: number;
+  spn: number | null;
+  spf: number | null;
+};
+
+export type SnapshotExportResult = {
+  [marketId: string]: {
+    rows: number;
+    files: string[];
+  };
+};
+
+export const SNAPSHOT_COLUMNS: (keyof RunnerSnapshot)[] = [
+  'publishTime', 'marketId', 'selectionId', 'marketStatus', 'inPlay', 'secondsToOff', 'runnerStatus',
+  'back1Price', 'back1Size', 'back2Price', 'back2Size', 'back3Price', 'back3Size',
+  'lay1Price', 'lay1Size', 'lay2Price', 'lay2Size', 'lay3Price', 'lay3Size',
+  'ltp', 'tradedVolume', 'spn', 'spf',
+];
+
+// Parquet types of SNAPSHOT_COLUMNS - nullable columns are optional
+export const SNAPSHOT_PARQUET_FIELDS: { [column in keyof RunnerSnapshot]: ParquetField } = {
+  publishTime: { type: 'INT64' },
+  marketId: { type: 'UTF8' },
+  selectionId: { type: 'INT64' },
+  marketStatus: { type: 'UTF8', optional: true },
+  inPlay: { type: 'BOOLEAN' },
+  secondsToOff: { type: 'DOUBLE', optional: true },
+  runnerStatus: { type: 'UTF8', optional: true },
+  back1Price: { type: 'DOUBLE', optional: true },
+  back1Size: { type: 'DOUBLE', optional: true },
+  back2Price: { type: 'DOUBLE', optional: true },
+  back2Size: { type: 'DOUBLE', optional: true },
+  back3Price: { type: 'DOUBLE', optional: true },
+  back3Size: { type: 'DOUBLE', optional: true },
+  lay1Price: { type: 'DOUBLE', optional: true },
+  lay1Size: { type: 'DOUBLE', optional: true },
+  lay2Price: { type: 'DOUBLE', optional: true },
+  lay2Size: { type: 'DOUBLE', optional: true },
+  lay3Price: { type: 'DOUBLE', optional: true },
+  lay3Size: { type: 'DOUBLE', optional: true },
+  ltp: { type: 'DOUBLE', optional: true },
+  tradedVolume: { type: 'DOUBLE' },
+  spn: { type: 'DOUBLE', optional: true },
+  spf: { type: 'DOUBLE', optional: true },
+};
+
+type SampledMarket = {
+  market: MarketCache;
+  nextSampleTime: number;
+};
+
+type SnapshotBatch = {
+  marketId: string;
+  snapshots: RunnerSnapshot[];
+  closed: boolean; // The market's last batch
+};
+
+type MarketExport = {
+  rows: number;
+  files: string[];
+  csv?: fs.WriteStream;
+  parquet?: ParquetFileWriter;
+};
+
+/**
+ * Replays recordings and writes each market's runner time series to the output directory,
+ * as ${marketId}_snapshots.csv and/or ${marketId}_snapshots.parquet. A market's files are finished when it closes.
+ * @param files - Recordings or historical data files, see readHistoricalMarketUpdates
+ * @param config - Output directory, sampling interval, formats and the parquetjs-lite module for Parquet output
+ * @returns Rows and files written per market
+ */
+export const exportMarketSnapshots = async (
+  files: string | string[],
+  config: SnapshotExportConfig
+): Promise<SnapshotExportResult> => {
+  const formats: SnapshotFormat[] = config.formats || (config.parquet ? ['csv', 'parquet'] : ['csv']);
+  if (formats.includes('parquet') && !config.parquet) {
+    throw new Error('Parquet snapshot export requires config.parquet, e.g. require(\'parquetjs-lite\')');
+  }
+  const parquetSchema = config.parquet && new config.parquet.ParquetSchema(SNAPSHOT_PARQUET_FIELDS);
+  const marketExports = new Map<string, MarketExport>();
+  fs.mkdirSync(config.outputDirectory, { recursive: true });
+
+  const updates = readHistoricalMarketUpdates(files, config.currencyRate);
+  for await (const { marketId, snapshots, closed } of sampleSnapshotBatches(updates, config.intervalMs)) {
+    const marketExport = marketExports.get(marketId)
+      || await openMarketExport(config.outputDirectory, marketId, formats, config.parquet, parquetSchema);
+    marketExports.set(marketId, marketExport);
+
+    for (const snapshot of snapshots) {
+      marketExport.rows += 1;
+      if (marketExport.csv && !marketExport.csv.write(`${formatSnapshotCsvRow(snapshot)}\n`)) {
+        await new Promise<void>(resolve => marketExport.csv?.once('drain', () => resolve()));
+      }
+      await marketExport.parquet?.appendRow(snapshot);
+    }
+
+    // Closed markets are written out now so their rows are not held until the end of the replay
+    if (closed) {
+      await finishMarketExport(marketExport);
+    }
+  }
+
+  const result: SnapshotExportResult = {};
+  await Promise.all(Array.from(marketExports.entries()).map(async ([marketId, marketExport]) => {
+    await finishMarketExport(marketExport);
+    result[marketId] = { rows: marketExport.rows, files: marketExport.files };
+  }));
+
+  return result;
+};
+
+/**
+ * Samples every runner at a fixed interval of publish time, or the changed runners on every update.
+ * An interval sample holds the latest state published at or before its time; a final sample is taken when a market closes.
+ * @param updates - Market updates, e.g. from readHistoricalMarketUpdates
+ * @param intervalMs - Sampling interval, or undefined to sample on every change
+ * @returns Async iterator of runner snapshots in publish time order per market
+ */
+export async function* sampleRunnerSnapshots(
+  updates: AsyncIterable<HistoricalMarketUpdate>,
+  intervalMs?: number
+): AsyncGenerator<RunnerSnapshot> {
+  for await (const { snapshots } of sampleSnapshotBatches(updates, intervalMs)) {
+    yield* snapshots;
+  }
+}
+
+/**
+ * Samples as sampleRunnerSnapshots, batched per market update with the market's closing update flagged.
+ * Interval sampling also takes a final sample at the closing update.
+ */
+async function* sampleSnapshotBatches(
+  updates: AsyncIterable<HistoricalMarketUpdate>,
+  intervalMs?: number
+): AsyncGenerator<SnapshotBatch> {
+  const markets = new Map<string, SampledMarket>();
+  const closed = new Set<string>();
+
+  for await (const { publishTime, market, changedRunnerIds } of updates) {
+    const marketId = market.marketId;
+    if (closed.has(marketId)) {
+      continue;
+    }
+    const closing = market.marketDefinition?.status === StreamMarketStatus.CLOSED;
+    if (closing) {
+      closed.add(marketId);
+    }
+
+    if (!intervalMs) {
+      // Market-level changes, e.g. status or in-play, are sampled across all runners
+      const runners = Object.values(market.runners)
+        .filter(runner => changedRunnerIds.length === 0 || changedRunnerIds.includes(runner.id));
+      yield { marketId, snapshots: runners.map(runner => createRunnerSnapshot(market, runner, publishTime)), closed: closing };
+      continue;
+    }
+
+    const sampled = markets.get(marketId)
+      || { market, nextSampleTime: Math.ceil(publishTime / intervalMs) * intervalMs };
+    while (sampled.nextSampleTime < publishTime) {
+      yield { marketId, snapshots: sampleMarket(sampled.market, sampled.nextSampleTime), closed: false };
+      sampled.nextSampleTime += intervalMs;
+    }
+
+    sampled.market = market;
+    if (closing) {
+      markets.delete(marketId);
+      yield { marketId, snapshots: sampleMarket(market, publishTime), closed: true };
+      continue;
+    }
+    if (sampled.nextSampleTime === publishTime) {
+      yield { marketId, snapshots: sampleMarket(market, publishTime), closed: false };
+      sampled.nextSampleTime += intervalMs;
+    }
+    markets.set(marketId, sampled);
+  }
+}
+
+/**
+ * Creates the snapshot of one runner at a time
+ * @param market - Market cache
+ * @param runner - Runner cache
+ * @param publishTime - Sample time in ms
+ * @returns Runner snapshot
+ */
+export const createRunnerSnapshot = (market: MarketCache, runner: RunnerCache, publishTime: number): RunnerSnapshot => {
+  const definition = market.marketDefinition;
+  const backs = getBestPrices(runner.batb, runner.atb, (a, b) => b - a);
+  const lays = getBestPrices(runner.batl, runner.atl, (a, b) => a - b);
+  const marketTime = definition?.marketTime ? Date.parse(definition.marketTime) : NaN;
+
+  return {
+    publishTime,
+    marketId: market.marketId,
+    selectionId: runner.id,
+    marketStatus: definition?.status,
+    inPlay: !!definition?.inPlay,
+    secondsToOff: Number.isNaN(marketTime) ? null : (marketTime - publishTime) / 1000,
+    runnerStatus: runner.status,
+    back1Price: backs[0]?.[0] ?? null,
+    back1Size: backs[0]?.[1] ?? null,
+    back2Price: backs[1]?.[0] ?? null,
+    back2Size: backs[1]?.[1] ?? null,
+    back3Price: backs[2]?.[0] ?? null,
+    back3Size: backs[2]?.[1] ?? null,
+    lay1Price: lays[0]?.[0] ?? null,
+    lay1Size: lays[0]?.[1] ?? null,
+    lay2Price: lays[1]?.[0] ?? null,
+    lay2Size: lays[1]?.[1] ?? null,
+    lay3Price: lays[2]?.[0] ?? null,
+    lay3Size: lays[2]?.[1] ?? null,
+    // The decoder starts prices at 0 until one is published
+    ltp: runner.ltp || null,
+    tradedVolume: runner.tv || (runner.trd || []).reduce((total, [, volume]) => total + volume, 0),
+    spn: runner.spn || null,
+    spf: runner.spf || null,
+  };
+};
+
+/**
+ * Formats a snapshot as a CSV row in SNAPSHOT_COLUMNS order, with empty cells for missing values
+ */
+export const formatSnapshotCsvRow = (snapshot: RunnerSnapshot): string =>
+  SNAPSHOT_COLUMNS.map(column => {
+    const value = snapshot[column];
+    return value === null || value === undefined ? '' : String(value);
+  }).join(',');
+
+const sampleMarket = (market: MarketCache, time: number): RunnerSnapshot[] =>
+  Object.values(market.runners).map(runner => createRunnerSnapshot(market, runner, time));
+
+// Best 3 levels from the best offers ladder, or from the full ladder when subscribed to all offers
+const getBestPrices = (
+  best: [number, number, number][] | undefined,
+  full: [number, number][] | undefined,
+  compare: (a: number, b: number) => number
+): [number, number][] => {
+  if (best && best.length > 0) {
+    return best
+      .filter(([, , size]) => size > 0)
+      .sort(([a], [b]) => a - b)
+      .map(([, price, size]): [number, number] => [price, size])
+      .slice(0, 3);
+  }
+  return (full || [])
+    .filter(([, size]) => size > 0)
+    .sort(([a], [b]) => compare(a, b))
+    .slice(0, 3);
+};
+
+const openMarketExport = async (
+  outputDirectory: string,
+  marketId: string,
+  formats: SnapshotFormat[],
+  parquet?: ParquetModule,
+  parquetSchema?: unknown
+): Promise<MarketExport> => {
+  const marketExport: MarketExport = { rows: 0, files: [] };
+
+  if (formats.includes('csv')) {
+    const filepath = getSnapshotFilePath(outputDirectory, marketId, 'csv');
+    marketExport.csv = fs.createWriteStream(filepath);
+    marketExport.csv.on('error', (err) => console.error(`Snapshot export error for market ${marketId}:`, err));
+    marketExport.csv.write(`${SNAPSHOT_COLUMNS.join(',')}\n`);
+    marketExport.files.push(filepath);
+  }
+  if (formats.includes('parquet') && parquet) {
+    const filepath = getSnapshotFilePath(outputDirectory, marketId, 'parquet');
+    marketExport.parquet = await parquet.ParquetWriter.openFile(parquetSchema, filepath);
+    marketExport.files.push(filepath);
+  }
+
+  return marketExport;
+};
+
+// Ends the CSV and closes the Parquet file, which writes its last row group and footer
+const finishMarketExport = async (marketExport: MarketExport): Promise<void> => {
+  const { csv, parquet } = marketExport;
+  marketExport.csv = undefined;
+  marketExport.parquet = undefined;
+
+  if (csv) {
+    await new Promise<void>(resolve => csv.end(() => resolve()));
+  }
+  if (parquet) {
+    await parquet.close();
+  }
+};
+
+const getSnapshotFilePath = (outputDirectory: string, marketId: string, format: SnapshotFormat): string =>
+  path.join(outputDirectory, `${marketId}_snapshots.${format}`);
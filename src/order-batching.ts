@@ -0,0 +1,265 @@
+import {
+  BetfairApiState,
+  placeOrdersResult,
+  cancelOrdersResult,
+  replaceOrdersResult,
+  updateOrdersResult,
+} from './betfair-api';
+
+import {
+  PlaceInstruction,
+  PlaceInstructionReport,
+  CancelInstruction,
+  CancelInstructionReport,
+  ReplaceInstruction,
+  ReplaceInstructionReport,
+  UpdateInstruction,
+  UpdateInstructionReport,
+  ExecutionReportStatus,
+  ExecutionReportErrorCode,
+} from './betfair-api-types';
+
+// Betfair's per-request instruction limits
+export const MAX_PLACE_INSTRUCTIONS = 200;
+export const MAX_CANCEL_INSTRUCTIONS = 60;
+export const MAX_REPLACE_INSTRUCTIONS = 60;
+export const MAX_UPDATE_INSTRUCTIONS = 60;
+
+const DEFAULT_BATCH_CONCURRENCY = 3;
+
+export interface BatchOptions {
+  batchSize?: number; // Instructions per request, capped at the Betfair limit
+  concurrency?: number; // Requests in flight at once
+  customerRef?: string; // Suffixed with the batch number when split, as Betfair de-duplicates on it
+}
+
+export interface PlaceBatchOptions extends BatchOptions {
+  marketVersion?: number;
+  customerStrategyRef?: string;
+  async?: boolean;
+}
+
+export interface ReplaceBatchOptions extends BatchOptions {
+  marketVersion?: number;
+  async?: boolean;
+}
+
+// The outcome of one input instruction
+export type BatchInstructionResult<I, R> = {
+  index: number; // Position in the input instruction list
+  batch: number;
+  instruction: I;
+  report?: R; // Betfair's instruction report - missing when the whole request failed
+  error?: unknown; // Error thrown for the request this instruction was sent in
+};
+
+// Execution reports of every batch merged into one
+export type BatchExecutionReport<I, R> = {
+  marketId: string;
+  customerRef?: string;
+  status: ExecutionReportStatus;
+  errorCode?: ExecutionReportErrorCode;
+  batchCount: number;
+  instructionReports: R[];
+  results: BatchInstructionResult<I, R>[]; // One per input instruction, in input order
+};
+
+type BatchExecutionReportPart<R> = {
+  status: ExecutionReportStatus;
+  errorCode?: ExecutionReportErrorCode;
+  instructionReports?: R[];
+};
+
+type BatchOutcome<R> = {
+  report?: BatchExecutionReportPart<R>;
+  error?: unknown;
+};
+
+/**
+ * Places any number of orders on a market, split into requests of at most 200 instructions
+ * @param state - Current API state
+ * @param marketId - Market to place on
+ * @param instructions - Place instructions
+ * @param options - Batch size, concurrency and placeOrders parameters
+ * @returns Aggregated report with a result for every instruction
+ */
+export const placeOrdersBatched = (
+  state: BetfairApiState,
+  marketId: string,
+  instructions: PlaceInstruction[],
+  options: PlaceBatchOptions = {}
+): Promise<BatchExecutionReport<PlaceInstruction, PlaceInstructionReport>> => {
+  return executeBatched(marketId, instructions, MAX_PLACE_INSTRUCTIONS, options, (batch, customerRef) =>
+    placeOrdersResult(
+      state,
+      marketId,
+      batch,
+      customerRef || '',
+      options.marketVersion || 0,
+      options.customerStrategyRef || '',
+      options.async || false
+    )
+  );
+};
+
+/**
+ * Cancels any number of orders on a market, split into requests of at most 60 instructions
+ */
+export const cancelOrdersBatched = (
+  state: BetfairApiState,
+  marketId: string,
+  instructions: CancelInstruction[],
+  options: BatchOptions = {}
+): Promise<BatchExecutionReport<CancelInstruction, CancelInstructionReport>> => {
+  return executeBatched(marketId, instructions, MAX_CANCEL_INSTRUCTIONS, options, (batch, customerRef) =>
+    cancelOrdersResult(state, marketId, batch, customerRef)
+  );
+};
+
+/**
+ * Replaces any number of orders on a market, split into requests of at most 60 instructions.
+ * Each replace is a cancel followed by a place, so a batch is not atomic across instructions.
+ */
+export const replaceOrdersBatched = (
+  state: BetfairApiState,
+  marketId: string,
+  instructions: ReplaceInstruction[],
+  options: ReplaceBatchOptions = {}
+): Promise<BatchExecutionReport<ReplaceInstruction, ReplaceInstructionReport>> => {
+  return executeBatched(marketId, instructions, MAX_REPLACE_INSTRUCTIONS, options, (batch, customerRef) =>
+    replaceOrdersResult(state, marketId, batch, customerRef, options.marketVersion, options.async)
+  );
+};
+
+/**
+ * Updates any number of orders on a market, split into requests of at most 60 instructions
+ */
+export const updateOrdersBatched = (
+  state: BetfairApiState,
+  marketId: string,
+  instructions: UpdateInstruction[],
+  options: BatchOptions = {}
+): Promise<BatchExecutionReport<UpdateInstruction, UpdateInstructionReport>> => {
+  return executeBatched(marketId, instructions, MAX_UPDATE_INSTRUCTIONS, options, (batch, customerRef) =>
+    updateOrdersResult(state, marketId, batch, customerRef)
+  );
+};
+
+/**
+ * Splits instructions into chunks of at most `size`
+ */
+export const chunkInstructions = <I>(instructions: I[], size: number): I[][] => {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new Error('Batch size must be a positive integer');
+  }
+
+  const chunks: I[][] = [];
+  for (let i = 0; i < instructions.length; i += size) {
+    chunks.push(instructions.slice(i, i + size));
+  }
+  return chunks;
+};
+
+const executeBatched = async <I, R>(
+  marketId: string,
+  instructions: I[],
+  maxBatchSize: number,
+  options: BatchOptions,
+  send: (batch: I[], customerRef?: string) => Promise<BatchExecutionReportPart<R>>
+): Promise<BatchExecutionReport<I, R>> => {
+  if (!instructions || instructions.length === 0) {
+    throw new Error('Instructions are required');
+  }
+
+  const batchSize = Math.min(options.batchSize || maxBatchSize, maxBatchSize);
+  const batches = chunkInstructions(instructions, batchSize);
+  const batchCustomerRef = (batch: number): string | undefined =>
+    options.customerRef && batches.length > 1 ? `${options.customerRef}-${batch + 1}` : options.customerRef;
+
+  const outcomes = await runWithConcurrency(
+    batches.map((batch, index) => async (): Promise<BatchOutcome<R>> => {
+      try {
+        return { report: await send(batch, batchCustomerRef(index)) };
+      } catch (error) {
+        return { error };
+      }
+    }),
+    options.concurrency || DEFAULT_BATCH_CONCURRENCY
+  );
+
+  return mergeBatchOutcomes(marketId, options.customerRef, batches, outcomes);
+};
+
+const mergeBatchOutcomes = <I, R>(
+  marketId: string,
+  customerRef: string | undefined,
+  batches: I[][],
+  outcomes: BatchOutcome<R>[]
+): BatchExecutionReport<I, R> => {
+  const results: BatchInstructionResult<I, R>[] = [];
+  const instructionReports: R[] = [];
+  let index = 0;
+
+  batches.forEach((batch, batchIndex) => {
+    const outcome = outcomes[batchIndex] as BatchOutcome<R>;
+
+    // Betfair returns instruction reports in the order the instructions were sent
+    batch.forEach((instruction, position) => {
+      const report = outcome.report?.instructionReports?.[position];
+      if (report) {
+        instructionReports.push(report);
+      }
+
+      results.push({ index, batch: batchIndex, instruction, report, error: outcome.error });
+      index += 1;
+    });
+  });
+
+  const statuses = outcomes.map(outcome => outcome.report?.status || ExecutionReportStatus.FAILURE);
+  const errorCode = outcomes.find(outcome => outcome.report?.errorCode)?.report?.errorCode;
+
+  return {
+    marketId,
+    customerRef,
+    status: mergeExecutionStatus(statuses),
+    errorCode,
+    batchCount: batches.length,
+    instructionReports,
+    results,
+  };
+};
+
+const mergeExecutionStatus = (statuses: ExecutionReportStatus[]): ExecutionReportStatus => {
+  if (statuses.every(status => status === ExecutionReportStatus.SUCCESS)) {
+    return ExecutionReportStatus.SUCCESS;
+  }
+
+  if (statuses.every(status => status === ExecutionReportStatus.FAILURE)) {
+    return ExecutionReportStatus.FAILURE;
+  }
+
+  if (statuses.every(status => status === ExecutionReportStatus.SUCCESS || status === ExecutionReportStatus.TIMEOUT)) {
+    return ExecutionReportStatus.TIMEOUT;
+  }
+
+  return ExecutionReportStatus.PROCESSED_WITH_ERRORS;
+};
+
+/**
+ * Runs tasks with at most `limit` in flight, returning results in task order
+ */
+const runWithConcurrency = async <T>(tasks: (() => Promise<T>)[], limit: number): Promise<T[]> => {
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < tasks.length) {
+      const current = next;
+      next += 1;
+      results[current] = await (tasks[current] as () => Promise<T>)();
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), tasks.length) }, worker));
+  return results;
+};
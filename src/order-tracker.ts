@@ -0,0 +1,417 @@
+import {
+  PlaceInstruction,
+  PlaceExecutionReport,
+  PlaceInstructionReport,
+  InstructionReportStatus,
+  InstructionReportErrorCode,
+  OrderStatus,
+  Side,
+} from './betfair-api-types';
+
+import {
+  OrderAccountCache,
+  OrderChangeCallback,
+  UnmatchedOrder,
+  OrderSide,
+  StreamOrderStatus,
+} from './betfair-exchange-stream-api-types';
+
+export enum OrderLifecycleStatus {
+  PENDING = 'PENDING', // Submitted, no execution report or stream update yet
+  EXECUTABLE = 'EXECUTABLE',
+  PARTIALLY_MATCHED = 'PARTIALLY_MATCHED',
+  EXECUTION_COMPLETE = 'EXECUTION_COMPLETE', // Fully matched
+  CANCELLED = 'CANCELLED',
+  LAPSED = 'LAPSED',
+  VOIDED = 'VOIDED',
+  REJECTED = 'REJECTED', // Placement failed - the order never reached the market
+}
+
+export enum OrderEventType {
+  SUBMITTED = 'SUBMITTED',
+  ACCEPTED = 'ACCEPTED', // Betfair assigned a bet id
+  REJECTED = 'REJECTED',
+  MATCHED = 'MATCHED', // Size matched increased
+  STATUS_CHANGED = 'STATUS_CHANGED',
+}
+
+export type TrackedOrder = {
+  id: string; // Tracker-assigned id, stable before a bet id is known
+  marketId: string;
+  selectionId: number;
+  handicap?: number;
+  side: Side;
+  price?: number;
+  size?: number;
+  bspLiability?: number; // LIMIT_ON_CLOSE / MARKET_ON_CLOSE liability
+  customerOrderRef?: string;
+  betId?: string;
+  status: OrderLifecycleStatus;
+  sizeMatched: number;
+  sizeRemaining: number;
+  sizeCancelled: number;
+  sizeLapsed: number;
+  sizeVoided: number;
+  averagePriceMatched?: number;
+  errorCode?: InstructionReportErrorCode;
+  placedDate?: number;
+  updatedAt: number;
+};
+
+export type OrderEvent = {
+  type: OrderEventType;
+  order: TrackedOrder;
+  previousStatus?: OrderLifecycleStatus;
+};
+
+export type OrderEventCallback = (event: OrderEvent) => void;
+
+export interface OrderTrackerState {
+  orders: Map<string, TrackedOrder>;
+  betIds: Map<string, string>; // Bet id -> tracked order id
+  customerOrderRefs: Map<string, string>; // Customer order ref -> tracked order id
+  nextId: number;
+  onOrderEvent?: OrderEventCallback;
+}
+
+// Orders only move forward - a late execution report must not undo a newer stream update
+const STATUS_RANK: { [key in OrderLifecycleStatus]: number } = {
+  [OrderLifecycleStatus.PENDING]: 0,
+  [OrderLifecycleStatus.EXECUTABLE]: 1,
+  [OrderLifecycleStatus.PARTIALLY_MATCHED]: 2,
+  [OrderLifecycleStatus.EXECUTION_COMPLETE]: 3,
+  [OrderLifecycleStatus.CANCELLED]: 3,
+  [OrderLifecycleStatus.LAPSED]: 3,
+  [OrderLifecycleStatus.VOIDED]: 3,
+  [OrderLifecycleStatus.REJECTED]: 3,
+};
+
+/**
+ * Creates an order tracker linking placeOrders execution reports with order stream updates
+ * @param onOrderEvent - Called for every lifecycle event of every order
+ * @returns Order tracker state
+ */
+export const createOrderTracker = (onOrderEvent?: OrderEventCallback): OrderTrackerState => ({
+  orders: new Map(),
+  betIds: new Map(),
+  customerOrderRefs: new Map(),
+  nextId: 1,
+  onOrderEvent,
+});
+
+/**
+ * Registers place instructions as pending orders, before they are sent
+ * @param tracker - Order tracker
+ * @param marketId - Market the instructions are placed on
+ * @param instructions - Place instructions
+ * @returns The tracked orders, in instruction order
+ */
+export const trackPlaceInstructions = (
+  tracker: OrderTrackerState,
+  marketId: string,
+  instructions: PlaceInstruction[]
+): TrackedOrder[] => {
+  return instructions.map(instruction => addOrder(tracker, getInstructionDetails(marketId, instruction)));
+};
+
+/**
+ * Applies a placeOrders execution report to the tracked orders.
+ * Instruction reports are matched to `trackedOrders` by position when given, otherwise by customerOrderRef.
+ * @param tracker - Order tracker
+ * @param report - Execution report returned by placeOrders
+ * @param trackedOrders - Orders returned by trackPlaceInstructions for the same instructions
+ * @returns The updated orders, in instruction report order
+ */
+export const applyPlaceExecutionReport = (
+  tracker: OrderTrackerState,
+  report: PlaceExecutionReport,
+  trackedOrders?: TrackedOrder[]
+): TrackedOrder[] => {
+  const marketId = report.marketId || trackedOrders?.[0]?.marketId || '';
+
+  return (report.instructionReports || []).map((instructionReport, index) => {
+    const instruction = instructionReport.instruction;
+    const tracked = trackedOrders?.[index]
+      || findOrderByRef(tracker, instruction.customerOrderRef)
+      || addOrder(tracker, getInstructionDetails(marketId, instruction));
+
+    return applyPlaceInstructionReport(tracker, tracked, instructionReport);
+  });
+};
+
+/**
+ * Applies every unmatched order in an order stream cache, e.g. from getOrderStreamCache.
+ * Orders placed elsewhere (another app or the website) are tracked as they appear.
+ * @param tracker - Order tracker
+ * @param orderCache - Order stream cache keyed by market id
+ */
+export const applyOrderStreamCache = (
+  tracker: OrderTrackerState,
+  orderCache: { [key: string]: OrderAccountCache }
+): void => {
+  Object.values(orderCache).forEach(market => {
+    Object.values(market.runners).forEach(runner => {
+      Object.values(runner.unmatchedOrders).forEach(order => {
+        applyUnmatchedOrder(tracker, market.marketId, runner.id, order, runner.hc);
+      });
+    });
+  });
+};
+
+/**
+ * Applies one order stream update for a bet
+ * @param tracker - Order tracker
+ * @param marketId - Market id
+ * @param selectionId - Selection id
+ * @param unmatchedOrder - Order as sent on the order stream
+ * @param handicap - Runner handicap
+ * @returns The updated order
+ */
+export const applyUnmatchedOrder = (
+  tracker: OrderTrackerState,
+  marketId: string,
+  selectionId: number,
+  unmatchedOrder: UnmatchedOrder,
+  handicap?: number
+): TrackedOrder => {
+  let order = findOrderByBetId(tracker, unmatchedOrder.id) || findOrderByRef(tracker, unmatchedOrder.rfo);
+
+  if (!order) {
+    order = addOrder(tracker, {
+      marketId,
+      selectionId,
+      handicap,
+      side: unmatchedOrder.side === OrderSide.LAY ? Side.LAY : Side.BACK,
+      customerOrderRef: unmatchedOrder.rfo,
+    });
+  }
+
+  return updateOrder(tracker, order, {
+    betId: unmatchedOrder.id,
+    customerOrderRef: order.customerOrderRef || unmatchedOrder.rfo,
+    price: unmatchedOrder.p,
+    size: unmatchedOrder.s,
+    bspLiability: unmatchedOrder.bsp,
+    status: getStreamOrderStatus(unmatchedOrder),
+    sizeMatched: unmatchedOrder.sm,
+    sizeRemaining: unmatchedOrder.sr,
+    sizeCancelled: unmatchedOrder.sc,
+    sizeLapsed: unmatchedOrder.sl,
+    sizeVoided: unmatchedOrder.sv,
+    averagePriceMatched: unmatchedOrder.avp,
+    placedDate: unmatchedOrder.pd,
+  });
+};
+
+/**
+ * Creates an order change callback that feeds the tracker before calling the original callback
+ */
+export const createTrackingOrderChangeCallback = (
+  tracker: OrderTrackerState,
+  originalCallback?: OrderChangeCallback
+): OrderChangeCallback => {
+  return (orderCache: { [key: string]: OrderAccountCache }, deltas: string[]) => {
+    applyOrderStreamCache(tracker, orderCache);
+
+    if (originalCallback) {
+      originalCallback(orderCache, deltas);
+    }
+  };
+};
+
+/**
+ * Finds a tracked order by bet id or customer order ref
+ */
+export const getTrackedOrder = (tracker: OrderTrackerState, betIdOrRef: string): TrackedOrder | undefined => {
+  return findOrderByBetId(tracker, betIdOrRef) || findOrderByRef(tracker, betIdOrRef);
+};
+
+/**
+ * Lists tracked orders, optionally for one market
+ */
+export const getTrackedOrders = (tracker: OrderTrackerState, marketId?: string): TrackedOrder[] => {
+  const orders = Array.from(tracker.orders.values());
+  return marketId ? orders.filter(order => order.marketId === marketId) : orders;
+};
+
+/**
+ * True once an order can no longer change
+ */
+export const isOrderComplete = (order: TrackedOrder): boolean => STATUS_RANK[order.status] === 3;
+
+/**
+ * Derives the lifecycle status of a stream order.
+ * Execution complete orders with cancelled, lapsed or voided size report that outcome, in that order.
+ */
+export const getStreamOrderStatus = (order: UnmatchedOrder): OrderLifecycleStatus => {
+  if (order.status === StreamOrderStatus.EXECUTABLE) {
+    return order.sm > 0 ? OrderLifecycleStatus.PARTIALLY_MATCHED : OrderLifecycleStatus.EXECUTABLE;
+  }
+
+  if (order.sc > 0) {
+    return OrderLifecycleStatus.CANCELLED;
+  }
+  if (order.sl > 0) {
+    return OrderLifecycleStatus.LAPSED;
+  }
+  if (order.sv > 0) {
+    return OrderLifecycleStatus.VOIDED;
+  }
+  return OrderLifecycleStatus.EXECUTION_COMPLETE;
+};
+
+const applyPlaceInstructionReport = (
+  tracker: OrderTrackerState,
+  order: TrackedOrder,
+  instructionReport: PlaceInstructionReport
+): TrackedOrder => {
+  if (instructionReport.status === InstructionReportStatus.FAILURE) {
+    return updateOrder(tracker, order, {
+      status: OrderLifecycleStatus.REJECTED,
+      errorCode: instructionReport.errorCode,
+    });
+  }
+
+  // A timed out placement may still have reached the market - leave it pending for the stream to resolve
+  if (instructionReport.status === InstructionReportStatus.TIMEOUT || !instructionReport.betId) {
+    return order;
+  }
+
+  // The stream may have reported the bet before the execution report arrived
+  const streamed = findOrderByBetId(tracker, instructionReport.betId);
+  if (streamed && streamed.id !== order.id) {
+    tracker.orders.delete(order.id);
+    return updateOrder(tracker, streamed, { customerOrderRef: streamed.customerOrderRef || order.customerOrderRef });
+  }
+
+  const sizeMatched = instructionReport.sizeMatched || 0;
+  const size = order.size || 0;
+  const status = instructionReport.orderStatus === OrderStatus.EXECUTION_COMPLETE
+    ? OrderLifecycleStatus.EXECUTION_COMPLETE
+    : sizeMatched > 0
+      ? OrderLifecycleStatus.PARTIALLY_MATCHED
+      : OrderLifecycleStatus.EXECUTABLE;
+
+  return updateOrder(tracker, order, {
+    betId: instructionReport.betId,
+    status,
+    sizeMatched,
+    sizeRemaining: status === OrderLifecycleStatus.EXECUTION_COMPLETE ? 0 : Math.max(0, size - sizeMatched),
+    averagePriceMatched: instructionReport.averagePriceMatched,
+    placedDate: instructionReport.placedDate ? Date.parse(instructionReport.placedDate) : undefined,
+  });
+};
+
+type OrderDetails = Pick<
+  TrackedOrder,
+  'marketId' | 'selectionId' | 'handicap' | 'side' | 'price' | 'size' | 'bspLiability' | 'customerOrderRef'
+>;
+
+const getInstructionDetails = (marketId: string, instruction: PlaceInstruction): OrderDetails => ({
+  marketId,
+  selectionId: instruction.selectionId,
+  handicap: instruction.handicap,
+  side: instruction.side as Side,
+  price: instruction.limitOrder?.price ?? instruction.limitOnCloseOrder?.price,
+  size: instruction.limitOrder?.size,
+  bspLiability: (instruction.limitOnCloseOrder || instruction.marketOnCloseOrder)?.liability,
+  customerOrderRef: instruction.customerOrderRef,
+});
+
+const addOrder = (tracker: OrderTrackerState, details: OrderDetails): TrackedOrder => {
+  const order: TrackedOrder = {
+    ...details,
+    id: `order-${tracker.nextId}`,
+    status: OrderLifecycleStatus.PENDING,
+    sizeMatched: 0,
+    sizeRemaining: details.size || 0,
+    sizeCancelled: 0,
+    sizeLapsed: 0,
+    sizeVoided: 0,
+    updatedAt: Date.now(),
+  };
+  tracker.nextId += 1;
+
+  storeOrder(tracker, order);
+  emitOrderEvent(tracker, OrderEventType.SUBMITTED, order);
+  return order;
+};
+
+const updateOrder = (
+  tracker: OrderTrackerState,
+  order: TrackedOrder,
+  changes: Partial<TrackedOrder>
+): TrackedOrder => {
+  const current = tracker.orders.get(order.id) || order;
+
+  // Ignore stale updates that would move the order backwards
+  const nextStatus = changes.status || current.status;
+  if (STATUS_RANK[nextStatus] < STATUS_RANK[current.status]
+    || (changes.sizeMatched !== undefined && changes.sizeMatched < current.sizeMatched)) {
+    return current;
+  }
+
+  const definedChanges = Object.fromEntries(
+    Object.entries(changes).filter(([, value]) => value !== undefined)
+  ) as Partial<TrackedOrder>;
+  const changed = (Object.keys(definedChanges) as (keyof TrackedOrder)[])
+    .some(key => definedChanges[key] !== current[key]);
+  if (!changed) {
+    return current;
+  }
+
+  const updated: TrackedOrder = { ...current, ...definedChanges, updatedAt: Date.now() };
+  storeOrder(tracker, updated);
+
+  if (updated.betId && !current.betId) {
+    emitOrderEvent(tracker, OrderEventType.ACCEPTED, updated);
+  }
+  if (updated.sizeMatched > current.sizeMatched) {
+    emitOrderEvent(tracker, OrderEventType.MATCHED, updated);
+  }
+  if (updated.status !== current.status) {
+    const type = updated.status === OrderLifecycleStatus.REJECTED
+      ? OrderEventType.REJECTED
+      : OrderEventType.STATUS_CHANGED;
+    emitOrderEvent(tracker, type, updated, current.status);
+  }
+
+  return updated;
+};
+
+const storeOrder = (tracker: OrderTrackerState, order: TrackedOrder): void => {
+  tracker.orders.set(order.id, order);
+  if (order.betId) {
+    tracker.betIds.set(order.betId, order.id);
+  }
+  if (order.customerOrderRef) {
+    tracker.customerOrderRefs.set(order.customerOrderRef, order.id);
+  }
+};
+
+const findOrderByBetId = (tracker: OrderTrackerState, betId?: string): TrackedOrder | undefined => {
+  const id = betId ? tracker.betIds.get(betId) : undefined;
+  return id ? tracker.orders.get(id) : undefined;
+};
+
+const findOrderByRef = (tracker: OrderTrackerState, customerOrderRef?: string): TrackedOrder | undefined => {
+  const id = customerOrderRef ? tracker.customerOrderRefs.get(customerOrderRef) : undefined;
+  return id ? tracker.orders.get(id) : undefined;
+};
+
+const emitOrderEvent = (
+  tracker: OrderTrackerState,
+  type: OrderEventType,
+  order: TrackedOrder,
+  previousStatus?: OrderLifecycleStatus
+): void => {
+  if (!tracker.onOrderEvent) {
+    return;
+  }
+
+  try {
+    tracker.onOrderEvent({ type, order, previousStatus });
+  } catch (error) {
+    console.error('Order event callback failed:', error);
+  }
+};
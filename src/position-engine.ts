@@ -0,0 +1,333 @@
+import { calculateBackProfit, calculateLayLiability } from './betfair-api';
+
+import {
+  MarketCache,
+  RunnerCache,
+  OrderAccountCache,
+  OrderRunnerCache,
+  OrderSide,
+  StreamOrderStatus,
+  StreamOrderType,
+  StreamRunnerStatus,
+  UnmatchedOrder,
+} from './betfair-exchange-stream-api-types';
+
+export enum MarkPriceSource {
+  BEST_PRICE = 'BEST_PRICE', // Best lay to close a net back, best back to close a net lay - falls back to LTP
+  LAST_TRADED = 'LAST_TRADED',
+}
+
+export type RunnerPosition = {
+  selectionId: number;
+  handicap?: number;
+  backStake: number;
+  layStake: number;
+  averageBackPrice?: number;
+  averageLayPrice?: number;
+  bspBackStake: number; // Unmatched BSP backs - lost if the runner loses
+  bspLayLiability: number; // Unmatched BSP lays - lost at most if the runner wins
+  ifWin: number; // P&L on this runner's bets if it wins
+  ifLose: number; // P&L on this runner's bets if it loses
+  markPrice?: number;
+  markToMarket?: number; // Locked-in P&L if the position were closed at markPrice
+};
+
+export type MarketPosition = {
+  marketId: string;
+  runners: { [selectionId: string]: RunnerPosition };
+  outcomes: { [selectionId: string]: number }; // Market P&L if each runner wins
+  worstCase: number;
+  bestCase: number;
+  liability: number; // Most that can be lost - 0 when every outcome is a profit
+  markToMarket?: number;
+};
+
+export type MarketPositionReport = MarketPosition & {
+  strategies: { [customerStrategyRef: string]: MarketPosition };
+};
+
+// BSP orders waiting for the starting price to be reconciled
+export type BspExposure = {
+  backStake: number;
+  layLiability: number;
+};
+
+type MatchedLadders = {
+  selectionId: number;
+  handicap?: number;
+  matchedBacks: [number, number][];
+  matchedLays: [number, number][];
+  bspExposure?: BspExposure;
+};
+
+/**
+ * Calculates the position on one runner from its matched backs and lays.
+ * Unreconciled BSP orders count at their worst case: the liability lost with nothing won.
+ * @param selectionId - Selection id
+ * @param matchedBacks - Matched backs as [price, size]
+ * @param matchedLays - Matched lays as [price, size]
+ * @param handicap - Runner handicap
+ * @param bspExposure - Unmatched BSP orders on the runner
+ * @returns Runner position
+ */
+export const calculateRunnerPosition = (
+  selectionId: number,
+  matchedBacks: [number, number][],
+  matchedLays: [number, number][],
+  handicap?: number,
+  bspExposure: BspExposure = { backStake: 0, layLiability: 0 }
+): RunnerPosition => {
+  const backStake = sumSizes(matchedBacks);
+  const layStake = sumSizes(matchedLays);
+  const backProfit = matchedBacks.reduce((total, [price, size]) => total + calculateBackProfit(size, price), 0);
+  const layLiability = matchedLays.reduce((total, [price, size]) => total + calculateLayLiability(size, price), 0);
+
+  return {
+    selectionId,
+    handicap,
+    backStake,
+    layStake,
+    averageBackPrice: getAveragePrice(matchedBacks),
+    averageLayPrice: getAveragePrice(matchedLays),
+    bspBackStake: bspExposure.backStake,
+    bspLayLiability: bspExposure.layLiability,
+    ifWin: backProfit - layLiability - bspExposure.layLiability,
+    ifLose: layStake - backStake - bspExposure.backStake,
+  };
+};
+
+/**
+ * Calculates the overall and per-strategy position on a market
+ * @param orderCache - Order stream cache for the market
+ * @param marketCache - Live market cache, used for runner statuses and mark to market prices
+ * @param priceSource - Prices used to mark to market
+ * @returns Market position with a position per customerStrategyRef
+ */
+export const calculateMarketPosition = (
+  orderCache: OrderAccountCache,
+  marketCache?: MarketCache,
+  priceSource: MarkPriceSource = MarkPriceSource.BEST_PRICE
+): MarketPositionReport => {
+  const runners = Object.values(orderCache.runners);
+  const overall = buildMarketPosition(orderCache.marketId, runners.map(getRunnerLadders), marketCache, priceSource);
+
+  const strategyRefs = new Set(runners.flatMap(runner => Object.keys(runner.strategyMatches)));
+  const strategies: { [customerStrategyRef: string]: MarketPosition } = {};
+  strategyRefs.forEach(strategyRef => {
+    const ladders = runners
+      .filter(runner => runner.strategyMatches[strategyRef])
+      .map(runner => ({
+        selectionId: runner.id,
+        handicap: runner.hc,
+        matchedBacks: runner.strategyMatches[strategyRef]?.mb || [],
+        matchedLays: runner.strategyMatches[strategyRef]?.ml || [],
+        bspExposure: getBspExposure(runner.unmatchedOrders, strategyRef),
+      }));
+    strategies[strategyRef] = buildMarketPosition(orderCache.marketId, ladders, marketCache, priceSource);
+  });
+
+  return { ...overall, strategies };
+};
+
+/**
+ * Calculates positions for every market in the order stream cache
+ * @param orderCache - Order stream cache, e.g. from getOrderStreamCache
+ * @param marketCache - Live market cache keyed by market id
+ * @param priceSource - Prices used to mark to market
+ * @returns Positions keyed by market id
+ */
+export const calculatePositions = (
+  orderCache: { [key: string]: OrderAccountCache },
+  marketCache: { [key: string]: MarketCache } = {},
+  priceSource: MarkPriceSource = MarkPriceSource.BEST_PRICE
+): { [marketId: string]: MarketPositionReport } => {
+  const positions: { [marketId: string]: MarketPositionReport } = {};
+  Object.values(orderCache).forEach(market => {
+    positions[market.marketId] = calculateMarketPosition(market, marketCache[market.marketId], priceSource);
+  });
+  return positions;
+};
+
+/**
+ * Sums the worst-case liability across markets
+ */
+export const getTotalLiability = (positions: { [marketId: string]: MarketPosition }): number => {
+  return Object.values(positions).reduce((total, position) => total + position.liability, 0);
+};
+
+/**
+ * Sums the BSP liability of executable BSP orders (UnmatchedOrder.bsp)
+ * @param unmatchedOrders - Orders of one runner from the order stream cache
+ * @param customerStrategyRef - Only count orders placed with this strategy ref
+ * @returns BSP back stake and lay liability
+ */
+export const getBspExposure = (
+  unmatchedOrders: { [betId: string]: UnmatchedOrder },
+  customerStrategyRef?: string
+): BspExposure => {
+  return Object.values(unmatchedOrders)
+    .filter(order => order.status === StreamOrderStatus.EXECUTABLE && isBspOrder(order))
+    .filter(order => !customerStrategyRef || order.rfs === customerStrategyRef)
+    .reduce(
+      (exposure, order) => order.side === OrderSide.LAY
+        ? { ...exposure, layLiability: exposure.layLiability + (order.bsp || 0) }
+        : { ...exposure, backStake: exposure.backStake + (order.bsp || 0) },
+      { backStake: 0, layLiability: 0 }
+    );
+};
+
+/**
+ * True for LIMIT_ON_CLOSE and MARKET_ON_CLOSE orders
+ */
+export const isBspOrder = (order: UnmatchedOrder): boolean =>
+  order.ot === StreamOrderType.LIMIT_ON_CLOSE || order.ot === StreamOrderType.MARKET_ON_CLOSE;
+
+/**
+ * Gets the price a runner position would be closed at
+ * @param runner - Live runner prices
+ * @param netBack - True to close a net back position (by laying), false to close a net lay (by backing)
+ * @param priceSource - Prices to use
+ * @returns Price, or undefined if the runner has none
+ */
+export const getMarkPrice = (
+  runner: RunnerCache,
+  netBack: boolean,
+  priceSource: MarkPriceSource = MarkPriceSource.BEST_PRICE
+): number | undefined => {
+  const lastTraded = runner.ltp || runner.lastPriceTraded || undefined;
+  if (priceSource === MarkPriceSource.LAST_TRADED) {
+    return lastTraded;
+  }
+
+  const bestPrice = netBack ? getBestLayPrice(runner) : getBestBackPrice(runner);
+  return bestPrice || lastTraded;
+};
+
+const buildMarketPosition = (
+  marketId: string,
+  ladders: MatchedLadders[],
+  marketCache: MarketCache | undefined,
+  priceSource: MarkPriceSource
+): MarketPosition => {
+  const runners: { [selectionId: string]: RunnerPosition } = {};
+
+  ladders.forEach(ladder => {
+    const runnerCache = marketCache?.runners[ladder.selectionId.toString()];
+
+    // Bets on removed runners are voided
+    if (runnerCache && isRemoved(runnerCache.status)) {
+      return;
+    }
+
+    const position = calculateRunnerPosition(
+      ladder.selectionId, ladder.matchedBacks, ladder.matchedLays, ladder.handicap, ladder.bspExposure
+    );
+    runners[ladder.selectionId.toString()] = runnerCache ? markRunnerPosition(position, runnerCache, priceSource) : position;
+  });
+
+  const positions = Object.values(runners);
+  const allLose = positions.reduce((total, position) => total + position.ifLose, 0);
+  const outcomes: { [selectionId: string]: number } = {};
+  positions.forEach(position => {
+    outcomes[position.selectionId.toString()] = allLose - position.ifLose + position.ifWin;
+  });
+
+  const outcomeValues = Object.values(outcomes);
+  // A runner without a position can win unless every active runner has one
+  if (!marketCache || hasRunnerWithoutPosition(marketCache, runners)) {
+    outcomeValues.push(allLose);
+  }
+
+  // With several winners, outcomes combine - take each runner's worse case independently
+  const numberOfWinners = marketCache?.marketDefinition?.numberOfWinners || 1;
+  const worstCase = numberOfWinners > 1
+    ? positions.reduce((total, position) => total + Math.min(position.ifWin, position.ifLose), 0)
+    : outcomeValues.length > 0 ? Math.min(...outcomeValues) : 0;
+  const bestCase = numberOfWinners > 1
+    ? positions.reduce((total, position) => total + Math.max(position.ifWin, position.ifLose), 0)
+    : outcomeValues.length > 0 ? Math.max(...outcomeValues) : 0;
+
+  const marked = positions.filter(position => position.markToMarket !== undefined);
+  const markToMarket = marked.length === positions.length && positions.length > 0
+    ? marked.reduce((total, position) => total + (position.markToMarket || 0), 0)
+    : undefined;
+
+  return {
+    marketId,
+    runners,
+    outcomes,
+    worstCase,
+    bestCase,
+    liability: Math.max(0, -worstCase),
+    markToMarket,
+  };
+};
+
+/**
+ * Closing a runner at price q with a lay (or back) of (ifWin - ifLose) / q equalises both outcomes at
+ * ifLose + (ifWin - ifLose) / q
+ */
+const markRunnerPosition = (
+  position: RunnerPosition,
+  runner: RunnerCache,
+  priceSource: MarkPriceSource
+): RunnerPosition => {
+  const markPrice = getMarkPrice(runner, position.ifWin >= position.ifLose, priceSource);
+  if (!markPrice) {
+    return position;
+  }
+
+  return {
+    ...position,
+    markPrice,
+    markToMarket: position.ifLose + (position.ifWin - position.ifLose) / markPrice,
+  };
+};
+
+const getRunnerLadders = (runner: OrderRunnerCache): MatchedLadders => ({
+  selectionId: runner.id,
+  handicap: runner.hc,
+  matchedBacks: runner.matchedBacks,
+  matchedLays: runner.matchedLays,
+  bspExposure: getBspExposure(runner.unmatchedOrders),
+});
+
+const hasRunnerWithoutPosition = (
+  marketCache: MarketCache,
+  runners: { [selectionId: string]: RunnerPosition }
+): boolean => {
+  const definitionRunners = marketCache.marketDefinition?.runners || [];
+  const activeIds = definitionRunners.length > 0
+    ? definitionRunners.filter(runner => !isRemoved(runner.status)).map(runner => runner.id.toString())
+    : Object.values(marketCache.runners).filter(runner => !isRemoved(runner.status)).map(runner => runner.id.toString());
+
+  return activeIds.length === 0 || activeIds.some(id => !runners[id]);
+};
+
+const isRemoved = (status?: StreamRunnerStatus): boolean =>
+  status === StreamRunnerStatus.REMOVED || status === StreamRunnerStatus.REMOVED_VACANT;
+
+const getBestBackPrice = (runner: RunnerCache): number | undefined => {
+  const best = runner.batb?.find(([level, , size]) => level === 0 && size > 0);
+  if (best) {
+    return best[1];
+  }
+  const prices = (runner.atb || []).filter(([, size]) => size > 0).map(([price]) => price);
+  return prices.length > 0 ? Math.max(...prices) : undefined;
+};
+
+const getBestLayPrice = (runner: RunnerCache): number | undefined => {
+  const best = runner.batl?.find(([level, , size]) => level === 0 && size > 0);
+  if (best) {
+    return best[1];
+  }
+  const prices = (runner.atl || []).filter(([, size]) => size > 0).map(([price]) => price);
+  return prices.length > 0 ? Math.min(...prices) : undefined;
+};
+
+const sumSizes = (ladder: [number, number][]): number => ladder.reduce((total, [, size]) => total + size, 0);
+
+const getAveragePrice = (ladder: [number, number][]): number | undefined => {
+  const stake = sumSizes(ladder);
+  return stake > 0 ? ladder.reduce((total, [price, size]) => total + price * size, 0) / stake : undefined;
+};
@@ -0,0 +1,485 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { spawn } from 'child_process';
+import { Writable } from 'stream';
+
+import {
+  BasicMarketRecord,
+  MarketRecordingConfig,
+  RawRecordingFile,
+  RecorderCheckpoint,
+} from './market-recorder';
+
+export type RawRecordingLine = {
+  line: string;
+  publishTime: number;
+};
+
+export interface RawRecordingPosition {
+  path?: string; // Current file, for sinks that write files
+  periodKey?: string;
+  part: number;
+  bytesWritten: number;
+}
+
+export type RecordedMarkets = {
+  basicRecords: string[]; // Market IDs with a basic record
+  rawRecords: string[]; // Market IDs with raw output
+};
+
+export interface RawStreamOptions {
+  publishTime: number; // Time the market was added, used to pick the first rotation period
+  resumeFrom?: RawRecordingPosition; // Position from the last checkpoint when resuming after a restart
+}
+
+/**
+ * Where a market recorder persists raw transmissions, basic records and checkpoints.
+ * Sinks throw on failure; the recorder logs and carries on.
+ */
+export interface RecorderStorageSink {
+  /** Opens a market's raw output as an object mode stream of RawRecordingLine, flushed when ended */
+  openRawStream: (marketId: string, options: RawStreamOptions) => Writable;
+  /** Current raw position of an open market, saved in checkpoints */
+  getRawPosition?: (marketId: string) => RawRecordingPosition | undefined;
+  saveBasicRecord: (record: BasicMarketRecord) => void;
+  loadBasicRecord: (marketId: string) => BasicMarketRecord | null;
+  /** Saves a checkpoint atomically, so a crash never leaves a partial one */
+  saveCheckpoint: (checkpoint: RecorderCheckpoint) => void;
+  loadCheckpoint: () => RecorderCheckpoint | null;
+  /** Lists the recorded markets, see listRecordedMarkets */
+  listMarkets?: () => RecordedMarkets;
+}
+
+/**
+ * The synchronous subset of better-sqlite3 and node:sqlite (DatabaseSync) used by the SQLite sink
+ */
+export interface SqliteDatabase {
+  exec: (sql: string) => unknown;
+  prepare: (sql: string) => SqliteStatement;
+}
+
+export interface SqliteStatement {
+  run: (...params: SqliteValue[]) => unknown;
+  get: (...params: SqliteValue[]) => unknown;
+  all: (...params: SqliteValue[]) => unknown[];
+}
+
+export type SqliteValue = string | number | null;
+
+export const SQLITE_RECORDER_SCHEMA = `
+CREATE TABLE IF NOT EXISTS markets (
+  market_id TEXT PRIMARY KEY,
+  market_name TEXT,
+  event_name TEXT,
+  market_status TEXT,
+  market_time TEXT,
+  in_play INTEGER,
+  complete INTEGER,
+  total_matched REAL,
+  recorded_at TEXT,
+  record TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS runners (
+  market_id TEXT NOT NULL,
+  selection_id INTEGER NOT NULL,
+  name TEXT,
+  status TEXT,
+  ltp REAL,
+  tv REAL,
+  bsp REAL,
+  is_winner INTEGER,
+  PRIMARY KEY (market_id, selection_id)
+);
+CREATE TABLE IF NOT EXISTS raw_messages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  market_id TEXT NOT NULL,
+  publish_time INTEGER NOT NULL,
+  message TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS raw_messages_market_id_publish_time ON raw_messages (market_id, publish_time);
+CREATE INDEX IF NOT EXISTS raw_messages_publish_time ON raw_messages (publish_time);
+CREATE TABLE IF NOT EXISTS recorder_checkpoints (
+  id INTEGER PRIMARY KEY CHECK (id = 1),
+  saved_at TEXT NOT NULL,
+  checkpoint TEXT NOT NULL
+);
+`;
+
+type OpenRawFile = {
+  stream: Writable;
+  file: RawRecordingFile;
+};
+
+/**
+ * Creates the default sink, writing raw files (compressed and rotated as configured), basic record
+ * JSON files and the checkpoint file in the output directory
+ */
+export const createFileSystemStorageSink = (config: MarketRecordingConfig): RecorderStorageSink => {
+  const rawFiles = new Map<string, RawRecordingFile>();
+
+  return {
+    openRawStream: (marketId, options) => createRawFileStream(config, rawFiles, marketId, options),
+    getRawPosition: (marketId): RawRecordingPosition | undefined => {
+      const file = rawFiles.get(marketId);
+      return file && { path: file.path, periodKey: file.periodKey, part: file.part, bytesWritten: file.bytesWritten };
+    },
+    saveBasicRecord: (record): void => {
+      const recordWithMetadata = {
+        ...record,
+        recordingMetadata: {
+          version: '1.0',
+          createdAt: new Date().toISOString(),
+          recordingType: 'basic',
+        }
+      };
+      fs.writeFileSync(getBasicRecordPath(config, record.marketId), JSON.stringify(recordWithMetadata, null, 2));
+    },
+    loadBasicRecord: (marketId): BasicMarketRecord | null => {
+      const filepath = getBasicRecordPath(config, marketId);
+      return fs.existsSync(filepath) ? JSON.parse(fs.readFileSync(filepath, 'utf-8')) : null;
+    },
+    saveCheckpoint: (checkpoint): void => {
+      const filepath = getCheckpointPath(config);
+      const tempPath = `${filepath}.tmp`;
+      const fd = fs.openSync(tempPath, 'w');
+      try {
+        fs.writeSync(fd, JSON.stringify(checkpoint));
+        fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+      fs.renameSync(tempPath, filepath);
+    },
+    loadCheckpoint: (): RecorderCheckpoint | null => {
+      const filepath = getCheckpointPath(config);
+      return fs.existsSync(filepath) ? JSON.parse(fs.readFileSync(filepath, 'utf-8')) : null;
+    },
+    listMarkets: (): RecordedMarkets => listRecordedFiles(config),
+  };
+};
+
+export interface SqliteStorageOptions {
+  batchSize?: number; // Raw messages written per transaction. Default: 500
+  flushIntervalMs?: number; // Longest a raw message waits for its batch to fill. Default: 1000
+}
+
+/**
+ * Creates a sink that stores recordings in an embedded SQLite database, with markets and runners
+ * tables for basic records and a raw_messages table indexed by market ID and publish time.
+ * Raw messages from every market are batched into one transaction per batchSize messages or flushIntervalMs.
+ * Pass a database from better-sqlite3 (new Database(file)) or node:sqlite (new DatabaseSync(file), Node 22.5+).
+ */
+export const createSqliteStorageSink = (
+  database: SqliteDatabase,
+  options: SqliteStorageOptions = {}
+): RecorderStorageSink => {
+  database.exec(SQLITE_RECORDER_SCHEMA);
+
+  const insertRawMessage = database.prepare(
+    'INSERT INTO raw_messages (market_id, publish_time, message) VALUES (?, ?, ?)'
+  );
+  const upsertMarket = database.prepare(
+    `INSERT OR REPLACE INTO markets
+      (market_id, market_name, event_name, market_status, market_time, in_play, complete, total_matched, recorded_at, record)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  const deleteRunners = database.prepare('DELETE FROM runners WHERE market_id = ?');
+  const insertRunner = database.prepare(
+    `INSERT INTO runners (market_id, selection_id, name, status, ltp, tv, bsp, is_winner)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  const selectMarket = database.prepare('SELECT record FROM markets WHERE market_id = ?');
+  const upsertCheckpoint = database.prepare(
+    'INSERT OR REPLACE INTO recorder_checkpoints (id, saved_at, checkpoint) VALUES (1, ?, ?)'
+  );
+  const selectCheckpoint = database.prepare('SELECT checkpoint FROM recorder_checkpoints WHERE id = 1');
+  const selectMarketIds = database.prepare('SELECT market_id FROM markets ORDER BY market_id');
+  const selectRawMarketIds = database.prepare('SELECT DISTINCT market_id FROM raw_messages ORDER BY market_id');
+
+  const batchSize = options.batchSize ?? 500;
+  const flushIntervalMs = options.flushIntervalMs ?? 1000;
+  const pendingRawMessages: SqliteValue[][] = [];
+  let flushTimer: NodeJS.Timeout | undefined;
+
+  const flushRawMessages = (): void => {
+    clearTimeout(flushTimer);
+    flushTimer = undefined;
+    const rows = pendingRawMessages.splice(0);
+    if (rows.length > 0) {
+      runTransaction(database, () => rows.forEach(row => insertRawMessage.run(...row)));
+    }
+  };
+
+  return {
+    openRawStream: marketId => new Writable({
+      objectMode: true,
+      write: ({ line, publishTime }: RawRecordingLine, _encoding, callback): void => {
+        pendingRawMessages.push([marketId, publishTime, line]);
+        try {
+          if (pendingRawMessages.length >= batchSize) {
+            flushRawMessages();
+          } else if (!flushTimer) {
+            flushTimer = setTimeout(() => {
+              try {
+                flushRawMessages();
+              } catch (error) {
+                console.error('Error writing raw messages to SQLite:', error);
+              }
+            }, flushIntervalMs);
+            flushTimer.unref();
+          }
+          callback();
+        } catch (error) {
+          callback(error as Error);
+        }
+      },
+      final: (callback): void => {
+        try {
+          flushRawMessages();
+          callback();
+        } catch (error) {
+          callback(error as Error);
+        }
+      },
+    }),
+    saveBasicRecord: (record): void => {
+      runTransaction(database, () => {
+        upsertMarket.run(
+          record.marketId,
+          record.marketName ?? null,
+          record.eventName ?? null,
+          record.marketStatus ?? null,
+          record.marketTime ?? null,
+          record.inPlay ? 1 : 0,
+          record.complete ? 1 : 0,
+          record.finalTotalMatched ?? record.totalMatched ?? null,
+          record.recordedAt ?? null,
+          JSON.stringify(record)
+        );
+        deleteRunners.run(record.marketId);
+        record.runners.forEach(runner => insertRunner.run(
+          record.marketId,
+          runner.id,
+          runner.name ?? null,
+          runner.status ?? null,
+          runner.ltp ?? null,
+          runner.tv ?? null,
+          runner.bsp ?? null,
+          runner.isWinner ? 1 : 0
+        ));
+      });
+    },
+    loadBasicRecord: (marketId): BasicMarketRecord | null => {
+      const row = selectMarket.get(marketId) as { record: string } | undefined;
+      return row ? JSON.parse(row.record) : null;
+    },
+    saveCheckpoint: (checkpoint): void => {
+      // The checkpoint should not be ahead of the raw messages it covers
+      flushRawMessages();
+      upsertCheckpoint.run(checkpoint.savedAt, JSON.stringify(checkpoint));
+    },
+    loadCheckpoint: (): RecorderCheckpoint | null => {
+      const row = selectCheckpoint.get() as { checkpoint: string } | undefined;
+      return row ? JSON.parse(row.checkpoint) : null;
+    },
+    listMarkets: (): RecordedMarkets => {
+      flushRawMessages();
+      const marketIds = (rows: unknown[]): string[] => (rows as { market_id: string }[]).map(row => row.market_id);
+      return { basicRecords: marketIds(selectMarketIds.all()), rawRecords: marketIds(selectRawMarketIds.all()) };
+    },
+  };
+};
+
+const runTransaction = (database: SqliteDatabase, statements: () => void): void => {
+  database.exec('BEGIN');
+  try {
+    statements();
+    database.exec('COMMIT');
+  } catch (error) {
+    database.exec('ROLLBACK');
+    throw error;
+  }
+};
+
+/**
+ * Opens a market's raw file stream, which starts a new file when the rotation period or size is reached
+ * and only finishes once every file it wrote is flushed and closed
+ */
+const createRawFileStream = (
+  config: MarketRecordingConfig,
+  rawFiles: Map<string, RawRecordingFile>,
+  marketId: string,
+  options: RawStreamOptions
+): Writable => {
+  const resumeFrom = options.resumeFrom;
+  const periodKey = resumeFrom?.periodKey ?? getPeriodKey(config, options.publishTime);
+  let part = resumeFrom?.part || 1;
+  let bytesWritten = resumeFrom?.bytesWritten || 0;
+
+  // A crash leaves the last gzip or bzip2 block unfinished, and anything appended after it is unreadable,
+  // so only plain text is appended to - compressed recordings resume in the next part
+  const resumedPath = path.join(config.outputDirectory, getRawFileName(config, marketId, periodKey, part));
+  if (resumeFrom && (config.rawCompression || 'none') !== 'none' && fs.existsSync(resumedPath)) {
+    part += 1;
+    bytesWritten = 0;
+  }
+
+  let current = openRawFile(config, marketId, periodKey, part, !!resumeFrom);
+  current.file.bytesWritten = bytesWritten;
+  rawFiles.set(marketId, current.file);
+
+  const closing = new Set<Promise<void>>();
+  const rotate = (periodKey: string | undefined, part: number): void => {
+    current.stream.end();
+    closing.add(current.file.closed);
+    current = openRawFile(config, marketId, periodKey, part);
+    rawFiles.set(marketId, current.file);
+  };
+
+  return new Writable({
+    objectMode: true,
+    write: ({ line, publishTime }: RawRecordingLine, _encoding, callback): void => {
+      const file = current.file;
+      const rotation = config.rawRotation;
+      const bytes = Buffer.byteLength(line) + 1;
+      if (rotation) {
+        const periodKey = getPeriodKey(config, publishTime);
+        if (periodKey !== file.periodKey) {
+          rotate(periodKey, 1);
+        } else if (rotation.maxBytes && file.bytesWritten > 0 && file.bytesWritten + bytes > rotation.maxBytes) {
+          rotate(periodKey, file.part + 1);
+        }
+      }
+
+      try {
+        if (current.stream.writable) {
+          current.stream.write(`${line}\n`);
+          current.file.bytesWritten += bytes;
+        }
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+    final: (callback): void => {
+      if (rawFiles.get(marketId) === current.file) {
+        rawFiles.delete(marketId);
+      }
+      current.stream.end();
+      Promise.all([...closing, current.file.closed]).then(() => callback());
+    },
+  });
+};
+
+/**
+ * Opens a raw file in append mode, compressing it if configured
+ */
+const openRawFile = (
+  config: MarketRecordingConfig,
+  marketId: string,
+  periodKey: string | undefined,
+  part: number,
+  resumed = false
+): OpenRawFile => {
+  const filepath = path.join(config.outputDirectory, getRawFileName(config, marketId, periodKey, part));
+
+  // Ensure the output directory still exists before creating the stream
+  // This guards against cases where the directory may have been removed between state creation and startRecording
+  const dir = config.outputDirectory;
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const fileStream = fs.createWriteStream(filepath, { flags: 'a' });
+
+  // Handle asynchronous stream errors gracefully to avoid unhandled errors during tests/cleanup
+  fileStream.on('error', (err) => {
+    console.error(`Raw recording stream error for market ${marketId} at ${filepath}:`, err);
+  });
+  const closed = new Promise<void>(resolve => {
+    fileStream.once('close', () => resolve());
+    fileStream.once('error', () => resolve());
+  });
+
+  let writeStream: Writable = fileStream;
+  const compression = config.rawCompression || 'none';
+  if (compression === 'gzip') {
+    const gzip = zlib.createGzip();
+    gzip.on('error', (err) => console.error(`Raw recording gzip error for market ${marketId}:`, err));
+    gzip.pipe(fileStream);
+    writeStream = gzip;
+  } else if (compression === 'bz2') {
+    const bzip2 = spawn('bzip2', ['-c'], { stdio: ['pipe', 'pipe', 'ignore'] });
+    bzip2.on('error', (err) => {
+      console.error(`Raw recording bzip2 error for market ${marketId}:`, err);
+      fileStream.end();
+    });
+    bzip2.stdin.on('error', (err) => console.error(`Raw recording bzip2 error for market ${marketId}:`, err));
+    bzip2.stdout.pipe(fileStream);
+    writeStream = bzip2.stdin;
+  }
+
+  // Write header (historical files hold stream messages only)
+  if (config.rawFormat !== 'historical' && writeStream.writable) {
+    writeStream.write(`# Raw market data for market: ${marketId}\n`);
+    writeStream.write(`# ${resumed ? 'Resumed' : 'Started'} at: ${new Date().toISOString()}\n`);
+    writeStream.write(`# Format: Each line contains raw JSON transmission from Betfair Exchange Stream API\n\n`);
+  }
+
+  return { stream: writeStream, file: { path: filepath, bytesWritten: 0, periodKey, part, closed } };
+};
+
+/**
+ * Builds a raw file name, e.g. raw_1.234.txt, or 1.234_20240101_2.bz2 when rotated and compressed
+ */
+const getRawFileName = (
+  config: MarketRecordingConfig,
+  marketId: string,
+  periodKey: string | undefined,
+  part: number
+): string => {
+  const extension = { none: '.txt', gzip: '.gz', bz2: '.bz2' }[config.rawCompression || 'none'];
+  const period = periodKey ? `_${periodKey}` : '';
+  const partSuffix = part > 1 ? `_${part}` : '';
+  return `${config.rawFilePrefix || ''}${marketId}${period}${partSuffix}${extension}`;
+};
+
+/**
+ * Lists the markets with basic record and raw files in the output directory
+ */
+const listRecordedFiles = (config: MarketRecordingConfig): RecordedMarkets => {
+  const files = fs.readdirSync(config.outputDirectory);
+  const basicPrefix = config.basicFilePrefix || 'basic_';
+  const rawPrefix = config.rawFilePrefix || '';
+
+  const basicRecords = files
+    .filter(f => f.startsWith(basicPrefix) && f.endsWith('.json'))
+    .map(f => f.replace(basicPrefix, '').replace('.json', ''));
+
+  // Rotated files share a market, e.g. 1.234_20240101.gz and 1.234_20240101_2.gz
+  const rawRecords = Array.from(new Set(files
+    .filter(f => f.startsWith(rawPrefix) && /\.(txt|gz|bz2)$/.test(f) && !f.startsWith(basicPrefix))
+    .map(f => f.replace(rawPrefix, '').replace(/(_\d{8,10})?(_\d+)?\.(txt|gz|bz2)$/, ''))));
+
+  return { basicRecords, rawRecords };
+};
+
+/**
+ * Gets the UTC rotation period of a time, e.g. 20240101 by day or 2024010114 by hour
+ */
+const getPeriodKey = (config: MarketRecordingConfig, time: number): string | undefined => {
+  const period = config.rawRotation?.period;
+  if (!period) {
+    return undefined;
+  }
+  const iso = new Date(time).toISOString();
+  const day = iso.slice(0, 10).replace(/-/g, '');
+  return period === 'hour' ? `${day}${iso.slice(11, 13)}` : day;
+};
+
+const getBasicRecordPath = (config: MarketRecordingConfig, marketId: string): string =>
+  path.join(config.outputDirectory, `${config.basicFilePrefix || 'basic_'}${marketId}.json`);
+
+const getCheckpointPath = (config: MarketRecordingConfig): string =>
+  path.join(config.outputDirectory, config.checkpoint?.fileName || 'recorder-checkpoint.json');
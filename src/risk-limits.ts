@@ -0,0 +1,598 @@
+import {
+  BetfairApiState,
+  placeOrdersResult,
+  replaceOrdersResult,
+  validatePlaceInstruction,
+} from './betfair-api';
+
+import {
+  PlaceInstruction,
+  PlaceExecutionReport,
+  ReplaceInstruction,
+  ReplaceExecutionReport,
+  Side,
+} from './betfair-api-types';
+
+import {
+  MarketCache,
+  OrderAccountCache,
+  OrderRunnerCache,
+  OrderSide,
+  StreamOrderStatus,
+  StreamOrderType,
+  StreamPersistenceType,
+  UnmatchedOrder,
+} from './betfair-exchange-stream-api-types';
+
+import { calculateMarketPosition, isBspOrder } from './position-engine';
+
+import { PriceLadder, getMarketDefinitionPriceLadder } from './utils';
+
+export interface RiskLimits {
+  maxStakePerBet?: number; // Limit order size or BSP liability
+  maxLiabilityPerMarket?: number;
+  maxLiabilityPerRunner?: number;
+  maxLiabilityPerStrategy?: number;
+  maxOpenOrders?: number;
+  maxDailyLoss?: number;
+  allowedMarketTypes?: string[]; // e.g. WIN, PLACE, MATCH_ODDS
+  allowedEventTypeIds?: string[]; // e.g. 7 (horse racing), 4339 (greyhounds)
+  clampStakes?: boolean; // Reduce stakes above maxStakePerBet instead of rejecting them
+}
+
+export enum RiskRejectionReason {
+  KILL_SWITCH = 'KILL_SWITCH',
+  INVALID_ORDER = 'INVALID_ORDER',
+  MAX_STAKE = 'MAX_STAKE',
+  MARKET_LIABILITY = 'MARKET_LIABILITY',
+  RUNNER_LIABILITY = 'RUNNER_LIABILITY',
+  STRATEGY_LIABILITY = 'STRATEGY_LIABILITY',
+  MAX_OPEN_ORDERS = 'MAX_OPEN_ORDERS',
+  DAILY_LOSS = 'DAILY_LOSS',
+  MARKET_TYPE_NOT_ALLOWED = 'MARKET_TYPE_NOT_ALLOWED',
+  EVENT_TYPE_NOT_ALLOWED = 'EVENT_TYPE_NOT_ALLOWED',
+  UNKNOWN_ORDER = 'UNKNOWN_ORDER', // Replace of a bet that is not in the order cache
+}
+
+export type RiskRejection = {
+  index: number; // Position in the checked instruction list
+  reason: RiskRejectionReason;
+  message: string;
+  limit?: number;
+  value?: number;
+};
+
+export type RiskCheckResult<I> = {
+  approved: boolean; // True when no instruction was rejected
+  instructions: I[]; // Instructions to send, with clamped stakes applied
+  rejections: RiskRejection[];
+  clamped: { index: number; originalSize: number; size: number }[];
+};
+
+// What the risk checks evaluate against
+export interface RiskContext {
+  orderCache?: { [marketId: string]: OrderAccountCache }; // Current positions and open orders, e.g. getOrderStreamCache
+  marketCache?: MarketCache; // Market type, event type and runner statuses
+  marketType?: string; // Overrides the market cache definition
+  eventTypeId?: string;
+  customerStrategyRef?: string;
+  priceLadder?: PriceLadder; // Overrides the market cache definition's ladder
+}
+
+export interface RiskManagerState {
+  limits: RiskLimits;
+  killSwitch: boolean;
+  killSwitchReason?: string;
+  tradingDay: string; // UTC date the daily P&L belongs to
+  dailyPnl: number;
+}
+
+/**
+ * Raised when a guarded order call is blocked by the risk limits
+ */
+export class RiskLimitError extends Error {
+  constructor(message: string, public readonly rejections: RiskRejection[]) {
+    super(message);
+    this.name = 'RiskLimitError';
+  }
+}
+
+type PendingBet = {
+  selectionId: number;
+  side: Side;
+  price: number;
+  size: number;
+  bspLiability?: number; // Set for LIMIT_ON_CLOSE and MARKET_ON_CLOSE bets
+};
+
+/**
+ * Creates a risk manager enforcing limits before orders are sent
+ * @param limits - Risk limits
+ * @returns Risk manager state
+ */
+export const createRiskManager = (limits: RiskLimits): RiskManagerState => ({
+  limits,
+  killSwitch: false,
+  tradingDay: getTradingDay(new Date()),
+  dailyPnl: 0,
+});
+
+/**
+ * Blocks all new orders until the kill switch is reset
+ */
+export const activateKillSwitch = (manager: RiskManagerState, reason: string = 'Kill switch activated'): void => {
+  manager.killSwitch = true;
+  manager.killSwitchReason = reason;
+  console.warn(`Risk kill switch activated: ${reason}`);
+};
+
+/**
+ * Allows new orders again after the kill switch
+ */
+export const resetKillSwitch = (manager: RiskManagerState): void => {
+  manager.killSwitch = false;
+  manager.killSwitchReason = undefined;
+};
+
+/**
+ * Adds settled P&L to today's total, starting a new total each UTC day
+ * @param manager - Risk manager
+ * @param pnl - Realised profit (positive) or loss (negative)
+ * @param date - When the P&L was realised
+ */
+export const recordRealisedPnl = (manager: RiskManagerState, pnl: number, date: Date = new Date()): void => {
+  rollTradingDay(manager, date);
+  manager.dailyPnl += pnl;
+};
+
+/**
+ * Gets today's realised P&L
+ */
+export const getDailyPnl = (manager: RiskManagerState, date: Date = new Date()): number => {
+  rollTradingDay(manager, date);
+  return manager.dailyPnl;
+};
+
+/**
+ * Checks place instructions against the risk limits.
+ * Positions assume every open order and every new instruction is fully matched.
+ * @param manager - Risk manager
+ * @param marketId - Market the instructions are for
+ * @param instructions - Place instructions
+ * @param context - Current positions and market details
+ * @returns Instructions to send (with clamped stakes) and the reasons for any rejections
+ */
+export const checkPlaceInstructions = (
+  manager: RiskManagerState,
+  marketId: string,
+  instructions: PlaceInstruction[],
+  context: RiskContext = {}
+): RiskCheckResult<PlaceInstruction> => {
+  const { limits } = manager;
+  const rejections: RiskRejection[] = [];
+  const clamped: RiskCheckResult<PlaceInstruction>['clamped'] = [];
+  const accepted: PlaceInstruction[] = [];
+  const acceptedBets: PendingBet[] = [];
+  let openOrders = countOpenOrders(context.orderCache);
+  const priceLadder = context.priceLadder || getMarketDefinitionPriceLadder(context.marketCache?.marketDefinition);
+
+  instructions.forEach((instruction, index) => {
+    const marketRejection = checkMarket(manager, index, context);
+    if (marketRejection) {
+      rejections.push(marketRejection);
+      return;
+    }
+
+    const bspOrder = instruction.limitOnCloseOrder || instruction.marketOnCloseOrder;
+    const price = instruction.limitOrder?.price || instruction.limitOnCloseOrder?.price || 0;
+    let size = instruction.limitOrder?.size || bspOrder?.liability || 0;
+
+    const validation = validatePlaceInstruction(marketId, instruction, undefined, undefined, priceLadder);
+    if (!validation.isValid) {
+      rejections.push({ index, reason: RiskRejectionReason.INVALID_ORDER, message: validation.errors.join(', ') });
+      return;
+    }
+
+    if (limits.maxStakePerBet !== undefined && size > limits.maxStakePerBet) {
+      if (!limits.clampStakes) {
+        rejections.push({
+          index,
+          reason: RiskRejectionReason.MAX_STAKE,
+          message: `Stake ${size} exceeds the maximum of ${limits.maxStakePerBet}`,
+          limit: limits.maxStakePerBet,
+          value: size,
+        });
+        return;
+      }
+
+      clamped.push({ index, originalSize: size, size: limits.maxStakePerBet });
+      size = limits.maxStakePerBet;
+    }
+
+    if (limits.maxOpenOrders !== undefined && openOrders >= limits.maxOpenOrders) {
+      rejections.push({
+        index,
+        reason: RiskRejectionReason.MAX_OPEN_ORDERS,
+        message: `${openOrders} open orders reaches the maximum of ${limits.maxOpenOrders}`,
+        limit: limits.maxOpenOrders,
+        value: openOrders,
+      });
+      return;
+    }
+
+    const bet: PendingBet = {
+      selectionId: instruction.selectionId,
+      side: instruction.side as Side,
+      price,
+      size,
+      bspLiability: bspOrder ? size : undefined,
+    };
+    const liabilityRejection = checkLiability(manager, index, marketId, [...acceptedBets, bet], context);
+    if (liabilityRejection) {
+      rejections.push(liabilityRejection);
+      return;
+    }
+
+    acceptedBets.push(bet);
+    openOrders += 1;
+    accepted.push(clamped.some(clamp => clamp.index === index) ? withStake(instruction, size) : instruction);
+  });
+
+  return { approved: rejections.length === 0, instructions: accepted, rejections, clamped };
+};
+
+/**
+ * Checks replace instructions against the risk limits. The replaced bets are looked up in the
+ * order cache and their remaining size is re-checked at the new price.
+ */
+export const checkReplaceInstructions = (
+  manager: RiskManagerState,
+  marketId: string,
+  instructions: ReplaceInstruction[],
+  context: RiskContext = {}
+): RiskCheckResult<ReplaceInstruction> => {
+  const rejections: RiskRejection[] = [];
+  const accepted: ReplaceInstruction[] = [];
+  const acceptedBets: PendingBet[] = [];
+  const replacedBetIds: string[] = [];
+
+  instructions.forEach((instruction, index) => {
+    const marketRejection = checkMarket(manager, index, context);
+    if (marketRejection) {
+      rejections.push(marketRejection);
+      return;
+    }
+
+    const existing = findUnmatchedOrder(context.orderCache?.[marketId], instruction.betId);
+    if (!existing) {
+      rejections.push({
+        index,
+        reason: RiskRejectionReason.UNKNOWN_ORDER,
+        message: `Bet ${instruction.betId} is not an open order on market ${marketId}`,
+      });
+      return;
+    }
+
+    // Moving a BSP order's price limit leaves its liability unchanged
+    if (isBspOrder(existing.order)) {
+      accepted.push(instruction);
+      return;
+    }
+
+    const bet: PendingBet = {
+      selectionId: existing.selectionId,
+      side: existing.order.side === OrderSide.LAY ? Side.LAY : Side.BACK,
+      price: instruction.newPrice,
+      size: existing.order.sr,
+    };
+    const liabilityRejection = checkLiability(
+      manager, index, marketId, [...acceptedBets, bet], context, [...replacedBetIds, instruction.betId]
+    );
+    if (liabilityRejection) {
+      rejections.push(liabilityRejection);
+      return;
+    }
+
+    acceptedBets.push(bet);
+    replacedBetIds.push(instruction.betId);
+    accepted.push(instruction);
+  });
+
+  return { approved: rejections.length === 0, instructions: accepted, rejections, clamped: [] };
+};
+
+/**
+ * Places orders only if every instruction passes the risk limits (after clamping)
+ * @throws RiskLimitError listing the rejections when any instruction is rejected
+ */
+export const placeOrdersWithRiskLimits = async (
+  manager: RiskManagerState,
+  state: BetfairApiState,
+  marketId: string,
+  instructions: PlaceInstruction[],
+  context: RiskContext = {},
+  customerRef: string = '',
+  marketVersion: number = 0,
+  async: boolean = false
+): Promise<PlaceExecutionReport> => {
+  const check = checkPlaceInstructions(manager, marketId, instructions, context);
+  if (!check.approved) {
+    throw createRiskLimitError('placeOrders', check.rejections);
+  }
+
+  return placeOrdersResult(
+    state, marketId, check.instructions, customerRef, marketVersion, context.customerStrategyRef || '', async
+  );
+};
+
+/**
+ * Replaces orders only if every instruction passes the risk limits
+ * @throws RiskLimitError listing the rejections when any instruction is rejected
+ */
+export const replaceOrdersWithRiskLimits = async (
+  manager: RiskManagerState,
+  state: BetfairApiState,
+  marketId: string,
+  instructions: ReplaceInstruction[],
+  context: RiskContext = {},
+  customerRef?: string,
+  marketVersion?: number,
+  async?: boolean
+): Promise<ReplaceExecutionReport> => {
+  const check = checkReplaceInstructions(manager, marketId, instructions, context);
+  if (!check.approved) {
+    throw createRiskLimitError('replaceOrders', check.rejections);
+  }
+
+  return replaceOrdersResult(state, marketId, check.instructions, customerRef, marketVersion, async);
+};
+
+const withStake = (instruction: PlaceInstruction, size: number): PlaceInstruction => {
+  if (instruction.limitOrder) {
+    return { ...instruction, limitOrder: { ...instruction.limitOrder, size } };
+  }
+  if (instruction.limitOnCloseOrder) {
+    return { ...instruction, limitOnCloseOrder: { ...instruction.limitOnCloseOrder, liability: size } };
+  }
+  return { ...instruction, marketOnCloseOrder: { liability: size } };
+};
+
+const createRiskLimitError = (method: string, rejections: RiskRejection[]): RiskLimitError => {
+  const reasons = Array.from(new Set(rejections.map(rejection => rejection.reason))).join(', ');
+  return new RiskLimitError(`${method} blocked by risk limits: ${reasons}`, rejections);
+};
+
+/**
+ * Market-wide checks - the kill switch, daily loss and allowed market and event types
+ */
+const checkMarket = (manager: RiskManagerState, index: number, context: RiskContext): RiskRejection | undefined => {
+  const { limits } = manager;
+
+  if (manager.killSwitch) {
+    return {
+      index,
+      reason: RiskRejectionReason.KILL_SWITCH,
+      message: manager.killSwitchReason || 'Kill switch activated',
+    };
+  }
+
+  const dailyPnl = getDailyPnl(manager);
+  if (limits.maxDailyLoss !== undefined && -dailyPnl >= limits.maxDailyLoss) {
+    return {
+      index,
+      reason: RiskRejectionReason.DAILY_LOSS,
+      message: `Daily loss of ${-dailyPnl} reaches the maximum of ${limits.maxDailyLoss}`,
+      limit: limits.maxDailyLoss,
+      value: -dailyPnl,
+    };
+  }
+
+  const marketType = context.marketType || context.marketCache?.marketDefinition?.marketType;
+  if (limits.allowedMarketTypes && (!marketType || !limits.allowedMarketTypes.includes(marketType))) {
+    return {
+      index,
+      reason: RiskRejectionReason.MARKET_TYPE_NOT_ALLOWED,
+      message: `Market type ${marketType || 'unknown'} is not allowed`,
+    };
+  }
+
+  const eventTypeId = context.eventTypeId || context.marketCache?.marketDefinition?.eventTypeId;
+  if (limits.allowedEventTypeIds && (!eventTypeId || !limits.allowedEventTypeIds.includes(eventTypeId))) {
+    return {
+      index,
+      reason: RiskRejectionReason.EVENT_TYPE_NOT_ALLOWED,
+      message: `Event type ${eventTypeId || 'unknown'} is not allowed`,
+    };
+  }
+
+  return undefined;
+};
+
+/**
+ * Checks market, runner and strategy liability with the pending bets added to the current position
+ */
+const checkLiability = (
+  manager: RiskManagerState,
+  index: number,
+  marketId: string,
+  bets: PendingBet[],
+  context: RiskContext,
+  replacedBetIds: string[] = []
+): RiskRejection | undefined => {
+  const { limits } = manager;
+  if (
+    limits.maxLiabilityPerMarket === undefined
+    && limits.maxLiabilityPerRunner === undefined
+    && limits.maxLiabilityPerStrategy === undefined
+  ) {
+    return undefined;
+  }
+
+  const exposure = createExposureCache(marketId, context.orderCache?.[marketId], bets, context.customerStrategyRef, replacedBetIds);
+  const position = calculateMarketPosition(exposure, context.marketCache);
+
+  if (limits.maxLiabilityPerMarket !== undefined && position.liability > limits.maxLiabilityPerMarket) {
+    return {
+      index,
+      reason: RiskRejectionReason.MARKET_LIABILITY,
+      message: `Market liability ${position.liability} exceeds the maximum of ${limits.maxLiabilityPerMarket}`,
+      limit: limits.maxLiabilityPerMarket,
+      value: position.liability,
+    };
+  }
+
+  if (limits.maxLiabilityPerRunner !== undefined) {
+    for (const runner of Object.values(position.runners)) {
+      const runnerLiability = Math.max(0, -Math.min(runner.ifWin, runner.ifLose));
+      if (runnerLiability > limits.maxLiabilityPerRunner) {
+        return {
+          index,
+          reason: RiskRejectionReason.RUNNER_LIABILITY,
+          message: `Liability ${runnerLiability} on selection ${runner.selectionId} exceeds the maximum of ${limits.maxLiabilityPerRunner}`,
+          limit: limits.maxLiabilityPerRunner,
+          value: runnerLiability,
+        };
+      }
+    }
+  }
+
+  const strategy = context.customerStrategyRef ? position.strategies[context.customerStrategyRef] : undefined;
+  if (limits.maxLiabilityPerStrategy !== undefined && strategy && strategy.liability > limits.maxLiabilityPerStrategy) {
+    return {
+      index,
+      reason: RiskRejectionReason.STRATEGY_LIABILITY,
+      message: `Strategy ${context.customerStrategyRef} liability ${strategy.liability} exceeds the maximum of ${limits.maxLiabilityPerStrategy}`,
+      limit: limits.maxLiabilityPerStrategy,
+      value: strategy.liability,
+    };
+  }
+
+  return undefined;
+};
+
+/**
+ * Builds a worst-case order cache: matched bets, plus every open order and pending bet as if fully matched
+ */
+const createExposureCache = (
+  marketId: string,
+  orderCache: OrderAccountCache | undefined,
+  bets: PendingBet[],
+  customerStrategyRef: string | undefined,
+  replacedBetIds: string[]
+): OrderAccountCache => {
+  const runners: { [key: string]: OrderRunnerCache } = {};
+
+  Object.values(orderCache?.runners || {}).forEach(runner => {
+    const matchedBacks = [...runner.matchedBacks];
+    const matchedLays = [...runner.matchedLays];
+    const strategyMatches = { ...runner.strategyMatches };
+
+    Object.values(runner.unmatchedOrders)
+      .filter(order => order.status === StreamOrderStatus.EXECUTABLE && order.sr > 0 && !isBspOrder(order))
+      .filter(order => !replacedBetIds.includes(order.id))
+      .forEach(order => {
+        const match: [number, number] = [order.p, order.sr];
+        const isBack = order.side === OrderSide.BACK;
+        (isBack ? matchedBacks : matchedLays).push(match);
+        if (order.rfs) {
+          strategyMatches[order.rfs] = addStrategyMatch(strategyMatches[order.rfs], isBack, match);
+        }
+      });
+
+    runners[runner.id.toString()] = { ...runner, matchedBacks, matchedLays, strategyMatches };
+  });
+
+  bets.forEach((bet, index) => {
+    const key = bet.selectionId.toString();
+    const runner = runners[key] || {
+      id: bet.selectionId,
+      unmatchedOrders: {},
+      matchedBacks: [],
+      matchedLays: [],
+      strategyMatches: {},
+    };
+    if (bet.bspLiability !== undefined) {
+      const id = `pending-bsp-${index}`;
+      runners[key] = {
+        ...runner,
+        unmatchedOrders: { ...runner.unmatchedOrders, [id]: createPendingBspOrder(id, bet, customerStrategyRef) },
+      };
+      return;
+    }
+
+    const match: [number, number] = [bet.price, bet.size];
+    const isBack = bet.side === Side.BACK;
+
+    runners[key] = {
+      ...runner,
+      matchedBacks: isBack ? [...runner.matchedBacks, match] : runner.matchedBacks,
+      matchedLays: isBack ? runner.matchedLays : [...runner.matchedLays, match],
+      strategyMatches: customerStrategyRef
+        ? { ...runner.strategyMatches, [customerStrategyRef]: addStrategyMatch(runner.strategyMatches[customerStrategyRef], isBack, match) }
+        : runner.strategyMatches,
+    };
+  });
+
+  return { marketId, closed: false, runners, published: Date.now() };
+};
+
+/**
+ * Represents a new BSP bet as an executable stream order so the position engine counts its liability
+ */
+const createPendingBspOrder = (id: string, bet: PendingBet, customerStrategyRef?: string): UnmatchedOrder => ({
+  id,
+  p: bet.price,
+  s: 0,
+  bsp: bet.bspLiability,
+  side: bet.side === Side.LAY ? OrderSide.LAY : OrderSide.BACK,
+  status: StreamOrderStatus.EXECUTABLE,
+  pt: StreamPersistenceType.MARKET_ON_CLOSE,
+  ot: bet.price > 0 ? StreamOrderType.LIMIT_ON_CLOSE : StreamOrderType.MARKET_ON_CLOSE,
+  pd: Date.now(),
+  sm: 0,
+  sr: 0,
+  sl: 0,
+  sc: 0,
+  sv: 0,
+  rfs: customerStrategyRef,
+});
+
+const addStrategyMatch = (
+  strategy: OrderRunnerCache['strategyMatches'][string] | undefined,
+  isBack: boolean,
+  match: [number, number]
+): OrderRunnerCache['strategyMatches'][string] => {
+  return isBack
+    ? { ...strategy, mb: [...(strategy?.mb || []), match] }
+    : { ...strategy, ml: [...(strategy?.ml || []), match] };
+};
+
+const countOpenOrders = (orderCache?: { [marketId: string]: OrderAccountCache }): number => {
+  return Object.values(orderCache || {}).reduce((total, market) =>
+    total + Object.values(market.runners).reduce((runnerTotal, runner) =>
+      runnerTotal + Object.values(runner.unmatchedOrders)
+        .filter(order => order.status === StreamOrderStatus.EXECUTABLE).length, 0), 0);
+};
+
+const findUnmatchedOrder = (
+  orderCache: OrderAccountCache | undefined,
+  betId: string
+): { selectionId: number; order: UnmatchedOrder } | undefined => {
+  for (const runner of Object.values(orderCache?.runners || {})) {
+    const order = runner.unmatchedOrders[betId];
+    if (order && order.status === StreamOrderStatus.EXECUTABLE) {
+      return { selectionId: runner.id, order };
+    }
+  }
+  return undefined;
+};
+
+const rollTradingDay = (manager: RiskManagerState, date: Date): void => {
+  const tradingDay = getTradingDay(date);
+  if (tradingDay !== manager.tradingDay) {
+    manager.tradingDay = tradingDay;
+    manager.dailyPnl = 0;
+  }
+};
+
+const getTradingDay = (date: Date): string => date.toISOString().slice(0, 10);
@@ -0,0 +1,254 @@
+import {
+  BetfairApiState,
+  isAuthenticated,
+  keepAlive,
+  logout,
+} from './betfair-api';
+
+import {
+  StreamApiState,
+  setAuthCredentials,
+  authenticateStreamAsync,
+} from './betfair-exchange-stream-api';
+
+import { BetfairSessionError } from './betfair-api-errors';
+
+// Re-logs in and returns the refreshed state, e.g. state => login(state, appKey, username, password)
+export type SessionLoginFunction = (state: BetfairApiState) => Promise<BetfairApiState>;
+
+export type SessionRefreshedCallback = (apiState: BetfairApiState) => void;
+
+// Lets the session manager read and replace a stream state that lives elsewhere (e.g. a supervisor)
+export interface SessionStreamBinding {
+  getStreamState: () => StreamApiState;
+  setStreamState: (streamState: StreamApiState) => void;
+}
+
+export interface SessionManagerState {
+  apiState: BetfairApiState;
+  loginFn: SessionLoginFunction;
+  keepAliveIntervalMs: number;
+  keepAliveTimer?: NodeJS.Timeout;
+  streams: SessionStreamBinding[];
+  pendingLogin?: Promise<BetfairApiState>; // Shared so concurrent failures only log in once
+  onSessionRefreshed?: SessionRefreshedCallback;
+}
+
+// Sessions expire after hours of inactivity on most jurisdictions - refresh well within that
+export const DEFAULT_KEEP_ALIVE_INTERVAL_MS = 60 * 60 * 1000;
+
+const SESSION_ERROR_CODES = ['INVALID_SESSION_INFORMATION', 'NO_SESSION'];
+
+type JsonRpcErrorBody = {
+  error?: {
+    data?: {
+      APINGException?: { errorCode?: string };
+      AccountAPINGException?: { errorCode?: string };
+    };
+  };
+};
+
+/**
+ * Creates a session manager that keeps a Betfair session alive and logs in again when it expires
+ * @param apiState - API state, logged in or not
+ * @param loginFn - Performs the (re-)login
+ * @param keepAliveIntervalMs - How often to call keepAlive
+ * @param onSessionRefreshed - Called with the new state after every re-login
+ * @returns Session manager state
+ */
+export const createSessionManager = (
+  apiState: BetfairApiState,
+  loginFn: SessionLoginFunction,
+  keepAliveIntervalMs: number = DEFAULT_KEEP_ALIVE_INTERVAL_MS,
+  onSessionRefreshed?: SessionRefreshedCallback
+): SessionManagerState => ({
+  apiState,
+  loginFn,
+  keepAliveIntervalMs,
+  streams: [],
+  onSessionRefreshed,
+});
+
+/**
+ * Logs in if needed and starts the keep-alive interval
+ */
+export const startSessionManager = async (
+  manager: SessionManagerState
+): Promise<SessionManagerState> => {
+  if (!isAuthenticated(manager.apiState)) {
+    await reloginSession(manager);
+  }
+
+  if (manager.keepAliveTimer) {
+    clearInterval(manager.keepAliveTimer);
+  }
+
+  manager.keepAliveTimer = setInterval(() => {
+    void refreshSession(manager);
+  }, manager.keepAliveIntervalMs);
+
+  return manager;
+};
+
+/**
+ * Stops the keep-alive interval, optionally logging the session out
+ */
+export const stopSessionManager = async (
+  manager: SessionManagerState,
+  logoutSession: boolean = false
+): Promise<SessionManagerState> => {
+  if (manager.keepAliveTimer) {
+    clearInterval(manager.keepAliveTimer);
+    manager.keepAliveTimer = undefined;
+  }
+
+  if (logoutSession && manager.apiState.sessionKey) {
+    try {
+      await logout(manager.apiState.sessionKey, manager.apiState.endpoints);
+    } catch (error) {
+      console.error('Error logging out session:', error);
+    }
+
+    manager.apiState = { ...manager.apiState, sessionKey: undefined };
+  }
+
+  return manager;
+};
+
+/**
+ * Registers a stream whose credentials should follow the session. After a re-login
+ * the stream gets the new token and, if connected, is re-authenticated.
+ */
+export const addSessionStream = (
+  manager: SessionManagerState,
+  binding: SessionStreamBinding
+): SessionManagerState => {
+  manager.streams = [...manager.streams, binding];
+  return manager;
+};
+
+/**
+ * Calls keepAlive, logging in again if Betfair reports the session has gone
+ */
+export const refreshSession = async (manager: SessionManagerState): Promise<BetfairApiState> => {
+  const { sessionKey } = manager.apiState;
+
+  try {
+    if (sessionKey) {
+      const response = await keepAlive(sessionKey, manager.apiState.endpoints);
+      if (response.data?.status === 'SUCCESS') {
+        return manager.apiState;
+      }
+
+      console.warn(`Session keep alive failed: ${response.data?.error || 'unknown error'} - logging in again`);
+    }
+
+    return await reloginSession(manager);
+  } catch (error) {
+    console.error('Error refreshing session:', error);
+    return manager.apiState;
+  }
+};
+
+/**
+ * Logs in again and hands the new session token to every registered stream.
+ * Concurrent callers share the same login.
+ */
+export const reloginSession = (manager: SessionManagerState): Promise<BetfairApiState> => {
+  if (!manager.pendingLogin) {
+    manager.pendingLogin = performRelogin(manager).finally(() => {
+      manager.pendingLogin = undefined;
+    });
+  }
+
+  return manager.pendingLogin;
+};
+
+/**
+ * Runs an API call with the managed session. If it fails because the session is
+ * invalid or missing, logs in again and retries the call once.
+ * @param manager - Session manager state
+ * @param call - API call, e.g. state => listMarketBook(state, marketIds, projection)
+ * @returns The call's result
+ */
+export const withSession = async <T>(
+  manager: SessionManagerState,
+  call: (apiState: BetfairApiState) => Promise<T>
+): Promise<T> => {
+  let result: T;
+
+  try {
+    result = await call(manager.apiState);
+  } catch (error) {
+    if (!isSessionError(error)) {
+      throw error;
+    }
+
+    await reloginSession(manager);
+    return call(manager.apiState);
+  }
+
+  if (isSessionError(result)) {
+    await reloginSession(manager);
+    return call(manager.apiState);
+  }
+
+  return result;
+};
+
+/**
+ * Checks whether a JSON-RPC response (or the error thrown for one) reports an
+ * invalid or missing session
+ */
+export const isSessionError = (value: unknown): boolean => {
+  if (value instanceof BetfairSessionError) {
+    return true;
+  }
+
+  const candidate = value as { data?: JsonRpcErrorBody; response?: { data?: JsonRpcErrorBody } } | undefined;
+  const body = candidate?.response?.data || candidate?.data;
+  const exception = body?.error?.data?.APINGException || body?.error?.data?.AccountAPINGException;
+
+  return SESSION_ERROR_CODES.includes(exception?.errorCode || '');
+};
+
+const performRelogin = async (manager: SessionManagerState): Promise<BetfairApiState> => {
+  console.log('Logging in to refresh Betfair session');
+  manager.apiState = await manager.loginFn(manager.apiState);
+
+  await Promise.all(manager.streams.map(binding => reauthenticateStream(manager.apiState, binding)));
+
+  if (manager.onSessionRefreshed) {
+    manager.onSessionRefreshed(manager.apiState);
+  }
+
+  return manager.apiState;
+};
+
+const reauthenticateStream = async (
+  apiState: BetfairApiState,
+  binding: SessionStreamBinding
+): Promise<void> => {
+  if (!apiState.sessionKey || !apiState.appKey) {
+    return;
+  }
+
+  const streamState = setAuthCredentials(binding.getStreamState(), apiState.appKey, apiState.sessionKey);
+  binding.setStreamState(streamState);
+
+  // Disconnected streams pick up the new token when they next connect
+  if (!streamState.tlsSocket) {
+    return;
+  }
+
+  try {
+    const authenticatedState = await authenticateStreamAsync(streamState);
+
+    // Skip the update if the stream reconnected while we were waiting
+    if (binding.getStreamState().tlsSocket === authenticatedState.tlsSocket) {
+      binding.setStreamState(authenticatedState);
+    }
+  } catch (error) {
+    console.error('Error re-authenticating stream with refreshed session:', error);
+  }
+};
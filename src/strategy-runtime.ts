@@ -0,0 +1,410 @@
+import {
+  BetfairApiState,
+  ensureAuthenticated,
+  findCurrencyRate,
+  placeOrdersResult,
+  cancelOrdersResult,
+  replaceOrdersResult,
+} from './betfair-api';
+
+import {
+  CancelExecutionReport,
+  CancelInstruction,
+  PlaceExecutionReport,
+  PlaceInstruction,
+  ReplaceExecutionReport,
+  ReplaceInstruction,
+} from './betfair-api-types';
+
+import { createStreamApiState } from './betfair-exchange-stream-api';
+
+import {
+  CurrencyRate,
+  MarketCache,
+  MarketDataFilter,
+  OrderAccountCache,
+  OrderFilter,
+  RunnerCache,
+  StreamMarketFilter,
+  StreamMarketStatus,
+} from './betfair-exchange-stream-api-types';
+
+import {
+  MarkPriceSource,
+  MarketPositionReport,
+  calculateMarketPosition,
+} from './position-engine';
+
+import {
+  RiskContext,
+  RiskManagerState,
+  placeOrdersWithRiskLimits,
+  replaceOrdersWithRiskLimits,
+} from './risk-limits';
+
+import {
+  ConnectionStateDetails,
+  ReconnectPolicy,
+  StreamConnectionState,
+  StreamSupervisorState,
+  createStreamSupervisor,
+  startStreamSupervisor,
+  stopStreamSupervisor,
+  subscribeSupervisedMarketsAsync,
+  subscribeSupervisedOrdersAsync,
+} from './stream-supervisor';
+
+/**
+ * What a strategy sees of one market: the live caches, its positions and an order API.
+ * Orders are placed with the strategy name as the customerStrategyRef.
+ */
+export interface StrategyContext {
+  strategy: Strategy;
+  marketId: string;
+  market: MarketCache;
+  orders?: OrderAccountCache; // Order stream cache for the market, once any order exists
+  getPosition: () => MarketPositionReport; // Positions per runner, with this strategy's under strategies[name]
+  placeOrders: (instructions: PlaceInstruction[], customerRef?: string) => Promise<PlaceExecutionReport>;
+  cancelOrders: (instructions: CancelInstruction[], customerRef?: string) => Promise<CancelExecutionReport>;
+  replaceOrders: (instructions: ReplaceInstruction[], customerRef?: string) => Promise<ReplaceExecutionReport>;
+}
+
+type StrategyHookResult = void | Promise<void>;
+
+export interface Strategy {
+  name: string; // Sent as customerStrategyRef - Betfair allows up to 15 characters
+  marketFilter?: (market: MarketCache) => boolean; // Markets to trade, default all subscribed markets
+  onMarketOpen?: (context: StrategyContext) => StrategyHookResult; // Also called when a suspended market re-opens
+  onMarketChange?: (context: StrategyContext, changedRunners: RunnerCache[]) => StrategyHookResult;
+  onInPlay?: (context: StrategyContext) => StrategyHookResult;
+  onSuspend?: (context: StrategyContext) => StrategyHookResult;
+  onClose?: (context: StrategyContext) => StrategyHookResult;
+  onOrderChange?: (context: StrategyContext) => StrategyHookResult;
+  // Stream drops, reconnects and failures - market and order caches are stale until SUBSCRIBED again
+  onConnectionStateChange?: (connectionState: StreamConnectionState, details: ConnectionStateDetails) => StrategyHookResult;
+}
+
+export interface StrategyRuntimeConfig {
+  segmentationEnabled?: boolean;
+  conflateMs?: number; // Defaults to the API state's conflateMs
+  heartbeatMs?: number; // Defaults to the API state's heartbeatMs
+  currencyRate?: CurrencyRate; // Defaults to the API state's target currency rate
+  priceSource?: MarkPriceSource;
+  riskManager?: RiskManagerState; // When set, every place and replace is checked against the risk limits
+  reconnectPolicy?: Partial<ReconnectPolicy>; // Overrides for the stream supervisor's reconnect policy
+}
+
+/**
+ * Sends a strategy's orders - the Betfair API when live, a simulator when backtesting
+ */
+export interface StrategyOrderExecutor {
+  placeOrders: (
+    marketId: string,
+    instructions: PlaceInstruction[],
+    customerRef: string,
+    customerStrategyRef: string
+  ) => Promise<PlaceExecutionReport>;
+  cancelOrders: (marketId: string, instructions: CancelInstruction[], customerRef?: string) => Promise<CancelExecutionReport>;
+  replaceOrders: (
+    marketId: string,
+    instructions: ReplaceInstruction[],
+    customerRef: string | undefined,
+    customerStrategyRef: string
+  ) => Promise<ReplaceExecutionReport>;
+}
+
+// Routes market and order updates to strategies, independent of where the updates come from
+export interface StrategyRouterState {
+  strategies: Strategy[];
+  markets: Map<string, RuntimeMarket>;
+  orderCache: { [marketId: string]: OrderAccountCache };
+  executor: StrategyOrderExecutor;
+  priceSource?: MarkPriceSource;
+}
+
+export interface StrategyRuntimeState extends StrategyRouterState {
+  apiState: BetfairApiState;
+  supervisor: StreamSupervisorState; // Read the stream with getSupervisedStreamState
+  config: StrategyRuntimeConfig;
+}
+
+type RuntimeMarket = {
+  market: MarketCache;
+  status?: StreamMarketStatus;
+  inPlay: boolean;
+};
+
+/**
+ * Creates a router that sends orders through the given executor, e.g. a backtest simulator
+ * @param executor - Order executor
+ * @param priceSource - Price the context positions are marked to market at
+ * @returns Router state
+ */
+export const createStrategyRouter = (
+  executor: StrategyOrderExecutor,
+  priceSource?: MarkPriceSource
+): StrategyRouterState => ({
+  strategies: [],
+  markets: new Map(),
+  orderCache: {},
+  executor,
+  priceSource,
+});
+
+/**
+ * Creates a strategy runtime that owns a supervised stream connection and routes each market's updates to its strategies.
+ * The stream reconnects and resumes per config.reconnectPolicy, and strategies are told through onConnectionStateChange.
+ * @param apiState - Logged-in API state, used for the stream credentials and to place orders
+ * @param config - Stream and order settings
+ * @returns Runtime state (not yet connected)
+ */
+export const createStrategyRuntime = (
+  apiState: BetfairApiState,
+  config: StrategyRuntimeConfig = {}
+): StrategyRuntimeState => {
+  const { sessionKey, appKey } = ensureAuthenticated(apiState);
+  const currencyRate = config.currencyRate
+    || findCurrencyRate(apiState.currencyRates || [], apiState.targetCurrency)
+    || { currencyCode: apiState.targetCurrency, rate: 1 };
+
+  const streamState = createStreamApiState(
+    sessionKey,
+    appKey,
+    config.segmentationEnabled ?? true,
+    config.conflateMs ?? apiState.conflateMs,
+    config.heartbeatMs ?? apiState.heartbeatMs,
+    currencyRate,
+    marketCache => handleStrategyMarketChange(runtime, marketCache),
+    orderCache => handleStrategyOrderChange(runtime, orderCache),
+    undefined,
+    apiState.endpoints
+  );
+
+  const runtime: StrategyRuntimeState = {
+    ...createStrategyRouter(createApiOrderExecutor(() => runtime), config.priceSource),
+    apiState,
+    config,
+    supervisor: createStreamSupervisor(
+      streamState,
+      config.reconnectPolicy,
+      (connectionState, details) => handleStrategyConnectionStateChange(runtime, connectionState, details)
+    ),
+  };
+
+  return runtime;
+};
+
+/**
+ * Adds a strategy. It receives updates for markets already being followed from their next change.
+ */
+export const registerStrategy = (router: StrategyRouterState, strategy: Strategy): void => {
+  if (router.strategies.some(existing => existing.name === strategy.name)) {
+    throw new Error(`Strategy ${strategy.name} is already registered`);
+  }
+  router.strategies.push(strategy);
+};
+
+/**
+ * Removes a strategy by name
+ */
+export const unregisterStrategy = (router: StrategyRouterState, name: string): void => {
+  router.strategies = router.strategies.filter(strategy => strategy.name !== name);
+};
+
+/**
+ * Connects the stream and subscribes to the markets and to the account's orders
+ * @param runtime - Strategy runtime
+ * @param marketFilter - Market ids or stream market filter
+ * @param marketDataFilter - Fields to stream, e.g. EX_BEST_OFFERS and EX_MARKET_DEF
+ * @param orderFilter - Order subscription filter
+ * @returns The runtime once both subscriptions are accepted
+ * @throws Error if the supervisor gives up connecting
+ */
+export const startStrategyRuntime = async (
+  runtime: StrategyRuntimeState,
+  marketFilter: string[] | StreamMarketFilter,
+  marketDataFilter?: MarketDataFilter,
+  orderFilter?: OrderFilter
+): Promise<StrategyRuntimeState> => {
+  // Initial connection failures are retried per the reconnect policy before this resolves
+  await startStreamSupervisor(runtime.supervisor);
+  if (runtime.supervisor.connectionState !== StreamConnectionState.AUTHENTICATED) {
+    throw new Error(`Strategy runtime stream did not connect: ${runtime.supervisor.connectionState}`);
+  }
+
+  await subscribeSupervisedMarketsAsync(runtime.supervisor, marketFilter, marketDataFilter);
+  await subscribeSupervisedOrdersAsync(runtime.supervisor, orderFilter);
+
+  return runtime;
+};
+
+/**
+ * Stops the supervisor and closes the stream. Strategies keep their state and can be started again.
+ */
+export const stopStrategyRuntime = (runtime: StrategyRuntimeState): StrategyRuntimeState => {
+  stopStreamSupervisor(runtime.supervisor);
+  return runtime;
+};
+
+/**
+ * Routes a market stream update to the strategies. Only markets whose cache changed are routed.
+ * Exposed so the runtime can be fed from another stream, a supervisor or recorded data.
+ * @param router - Strategy runtime or router
+ * @param marketCache - Market cache from the stream decoder
+ */
+export const handleStrategyMarketChange = (
+  router: StrategyRouterState,
+  marketCache: { [marketId: string]: MarketCache }
+): void => {
+  Object.values(marketCache).forEach(market => {
+    const previous = router.markets.get(market.marketId);
+    if (previous?.market === market || previous?.status === StreamMarketStatus.CLOSED) {
+      return;
+    }
+
+    const status = market.marketDefinition?.status;
+    const inPlay = !!market.marketDefinition?.inPlay;
+    const changedRunners = Object.values(market.runners)
+      .filter(runner => previous?.market.runners[runner.id.toString()] !== runner);
+    router.markets.set(market.marketId, { market, status, inPlay });
+
+    getMarketStrategies(router, market).forEach(strategy => {
+      const context = createStrategyContext(router, strategy, market);
+
+      if (status !== previous?.status && status === StreamMarketStatus.OPEN) {
+        invokeHook(strategy, 'onMarketOpen', () => strategy.onMarketOpen?.(context));
+      }
+      if (status !== previous?.status && status === StreamMarketStatus.SUSPENDED) {
+        invokeHook(strategy, 'onSuspend', () => strategy.onSuspend?.(context));
+      }
+      if (inPlay && !previous?.inPlay) {
+        invokeHook(strategy, 'onInPlay', () => strategy.onInPlay?.(context));
+      }
+      if (status === StreamMarketStatus.CLOSED) {
+        invokeHook(strategy, 'onClose', () => strategy.onClose?.(context));
+        return;
+      }
+      invokeHook(strategy, 'onMarketChange', () => strategy.onMarketChange?.(context, changedRunners));
+    });
+  });
+};
+
+/**
+ * Routes an order stream update to the strategies trading each changed market
+ * @param router - Strategy runtime or router
+ * @param orderCache - Order cache from the stream decoder
+ */
+export const handleStrategyOrderChange = (
+  router: StrategyRouterState,
+  orderCache: { [marketId: string]: OrderAccountCache }
+): void => {
+  const previousCache = router.orderCache;
+  router.orderCache = orderCache;
+
+  Object.values(orderCache)
+    .filter(orders => previousCache[orders.marketId] !== orders)
+    .forEach(orders => {
+      const runtimeMarket = router.markets.get(orders.marketId);
+      if (!runtimeMarket) {
+        return;
+      }
+
+      getMarketStrategies(router, runtimeMarket.market).forEach(strategy => {
+        const context = createStrategyContext(router, strategy, runtimeMarket.market);
+        invokeHook(strategy, 'onOrderChange', () => strategy.onOrderChange?.(context));
+      });
+    });
+};
+
+/**
+ * Tells every strategy about a stream connection state change, e.g. from the runtime's supervisor
+ * @param router - Strategy runtime or router
+ * @param connectionState - New connection state
+ * @param details - Reconnect attempt, reason and error
+ */
+export const handleStrategyConnectionStateChange = (
+  router: StrategyRouterState,
+  connectionState: StreamConnectionState,
+  details: ConnectionStateDetails
+): void => {
+  router.strategies.forEach(strategy => {
+    invokeHook(strategy, 'onConnectionStateChange', () => strategy.onConnectionStateChange?.(connectionState, details));
+  });
+};
+
+/**
+ * Builds the context a strategy hook receives for a market
+ */
+export const createStrategyContext = (
+  router: StrategyRouterState,
+  strategy: Strategy,
+  market: MarketCache
+): StrategyContext => {
+  const { marketId } = market;
+
+  return {
+    strategy,
+    marketId,
+    market,
+    orders: router.orderCache[marketId],
+    getPosition: () => calculateMarketPosition(
+      router.orderCache[marketId] || { marketId, closed: false, runners: {}, published: 0 },
+      market,
+      router.priceSource
+    ),
+    placeOrders: (instructions, customerRef = '') =>
+      router.executor.placeOrders(marketId, instructions, customerRef, strategy.name),
+    cancelOrders: (instructions, customerRef) => router.executor.cancelOrders(marketId, instructions, customerRef),
+    replaceOrders: (instructions, customerRef) =>
+      router.executor.replaceOrders(marketId, instructions, customerRef, strategy.name),
+  };
+};
+
+// Sends orders to Betfair, through the risk limits when a risk manager is configured.
+// The runtime is read per order, so the executor can be created along with it.
+const createApiOrderExecutor = (getRuntime: () => StrategyRuntimeState): StrategyOrderExecutor => {
+  const riskContext = (runtime: StrategyRuntimeState, marketId: string, customerStrategyRef?: string): RiskContext => ({
+    orderCache: runtime.orderCache,
+    marketCache: runtime.markets.get(marketId)?.market,
+    customerStrategyRef,
+  });
+
+  return {
+    placeOrders: (marketId, instructions, customerRef, customerStrategyRef): Promise<PlaceExecutionReport> => {
+      const runtime = getRuntime();
+      const { riskManager } = runtime.config;
+      return riskManager
+        ? placeOrdersWithRiskLimits(
+          riskManager, runtime.apiState, marketId, instructions, riskContext(runtime, marketId, customerStrategyRef), customerRef
+        )
+        : placeOrdersResult(runtime.apiState, marketId, instructions, customerRef, 0, customerStrategyRef, false);
+    },
+    cancelOrders: (marketId, instructions, customerRef) =>
+      cancelOrdersResult(getRuntime().apiState, marketId, instructions, customerRef),
+    // A replace places a new bet for the strategy, so it counts towards the strategy's liability
+    replaceOrders: (marketId, instructions, customerRef, customerStrategyRef): Promise<ReplaceExecutionReport> => {
+      const runtime = getRuntime();
+      const { riskManager } = runtime.config;
+      return riskManager
+        ? replaceOrdersWithRiskLimits(
+          riskManager, runtime.apiState, marketId, instructions, riskContext(runtime, marketId, customerStrategyRef), customerRef
+        )
+        : replaceOrdersResult(runtime.apiState, marketId, instructions, customerRef);
+    },
+  };
+};
+
+const getMarketStrategies = (router: StrategyRouterState, market: MarketCache): Strategy[] => {
+  return router.strategies.filter(strategy => !strategy.marketFilter || strategy.marketFilter(market));
+};
+
+// A failing strategy must not stop the stream or the other strategies
+const invokeHook = (strategy: Strategy, hook: string, call: () => StrategyHookResult): void => {
+  try {
+    Promise.resolve(call()).catch(error => {
+      console.error(`Strategy ${strategy.name} ${hook} failed:`, error);
+    });
+  } catch (error) {
+    console.error(`Strategy ${strategy.name} ${hook} failed:`, error);
+  }
+};
@@ -0,0 +1,387 @@
+import {
+  ConnectionClosedEvent,
+  OrderFilter,
+  StreamMarketFilter,
+  MarketDataFilter,
+  StreamErrorCode,
+  StreamErrorSeverity,
+} from './betfair-exchange-stream-api-types';
+
+import {
+  StreamApiState,
+  openStream,
+  closeStream,
+  authenticateStreamAsync,
+  restartStream,
+  subscribeToMarkets,
+  subscribeToOrders,
+  subscribeToMarketsAsync,
+  subscribeToOrdersAsync,
+  getStreamErrorSeverity,
+  getLiveStreamState,
+  resetStreamClocks,
+  StreamRequestError,
+} from './betfair-exchange-stream-api';
+
+import { createHeartbeatState } from './heartbeat';
+
+// Connection states reported by the supervisor
+export enum StreamConnectionState {
+  CONNECTING = 'CONNECTING',
+  CONNECTED = 'CONNECTED',
+  AUTHENTICATED = 'AUTHENTICATED',
+  SUBSCRIBED = 'SUBSCRIBED',
+  STALE = 'STALE',
+  RECONNECTING = 'RECONNECTING',
+  FAILED = 'FAILED',
+  STOPPED = 'STOPPED',
+}
+
+export interface ReconnectPolicy {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  jitter: number; // Fraction of the delay to randomise by (0 - 1)
+  maxAttempts: number; // Consecutive failed attempts before giving up (Infinity = never)
+}
+
+export interface ConnectionStateDetails {
+  attempt?: number;
+  delayMs?: number;
+  reason?: string;
+  errorCode?: StreamErrorCode;
+  error?: Error;
+}
+
+export type ConnectionStateCallback = (
+  connectionState: StreamConnectionState,
+  details: ConnectionStateDetails
+) => void;
+
+export interface StreamSupervisorState {
+  streamState: StreamApiState; // Read through getSupervisedStreamState for the clocks and caches the socket last updated
+  policy: ReconnectPolicy;
+  connectionState: StreamConnectionState;
+  attempt: number;
+  isReconnecting: boolean;
+  isStopped: boolean;
+  reconnectTimer?: NodeJS.Timeout;
+  cancelReconnectWait?: () => void;
+  onConnectionStateChange?: ConnectionStateCallback;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  initialDelayMs: 1000,
+  maxDelayMs: 60000,
+  multiplier: 2,
+  jitter: 0.2,
+  maxAttempts: 10,
+};
+
+// Errors caused by too many connections/requests - wait the longest delay before retrying
+const THROTTLING_STREAM_ERROR_CODES: StreamErrorCode[] = [
+  StreamErrorCode.MAX_CONNECTION_LIMIT_EXCEEDED,
+  StreamErrorCode.TOO_MANY_REQUESTS,
+];
+
+/**
+ * Calculates the backoff delay for a reconnect attempt
+ * @param policy - Reconnect policy
+ * @param attempt - Attempt number (1-based)
+ * @param random - Random source in [0, 1), injectable for testing
+ * @returns Delay in milliseconds
+ */
+export const calculateReconnectDelay = (
+  policy: ReconnectPolicy,
+  attempt: number,
+  random: () => number = Math.random
+): number => {
+  const exponential = policy.initialDelayMs * Math.pow(policy.multiplier, Math.max(0, attempt - 1));
+  const capped = Math.min(policy.maxDelayMs, exponential);
+  const jittered = capped * (1 + policy.jitter * (2 * random() - 1));
+
+  return Math.round(Math.min(policy.maxDelayMs, Math.max(0, jittered)));
+};
+
+/**
+ * Creates a supervisor that keeps a stream connected, reconnecting with backoff
+ * when the socket drops, the heartbeat goes stale or Betfair closes the connection
+ * @param streamState - Stream state to supervise (not yet opened)
+ * @param policy - Overrides for the default reconnect policy
+ * @param onConnectionStateChange - Called on every connection state transition
+ * @returns Supervisor state
+ */
+export const createStreamSupervisor = (
+  streamState: StreamApiState,
+  policy: Partial<ReconnectPolicy> = {},
+  onConnectionStateChange?: ConnectionStateCallback
+): StreamSupervisorState => {
+  const supervisor: StreamSupervisorState = {
+    streamState,
+    policy: { ...DEFAULT_RECONNECT_POLICY, ...policy },
+    connectionState: StreamConnectionState.STOPPED,
+    attempt: 0,
+    isReconnecting: false,
+    isStopped: true,
+    onConnectionStateChange,
+  };
+
+  // Route heartbeat timeouts and connection losses back to this supervisor
+  supervisor.streamState = {
+    ...streamState,
+    heartbeat: createHeartbeatState(streamState.heartbeatMs, () => handleStale(supervisor)),
+    connectionClosedCallback: (event: ConnectionClosedEvent) => handleConnectionClosed(supervisor, event),
+  };
+
+  return supervisor;
+};
+
+/**
+ * Opens and authenticates the supervised stream. Failures are retried per the reconnect policy.
+ * @param supervisor - Supervisor state
+ * @returns The supervisor once connected (or once reconnection has been scheduled)
+ */
+export const startStreamSupervisor = async (
+  supervisor: StreamSupervisorState
+): Promise<StreamSupervisorState> => {
+  supervisor.isStopped = false;
+  supervisor.attempt = 0;
+
+  try {
+    setConnectionState(supervisor, StreamConnectionState.CONNECTING, {});
+    supervisor.streamState = await openStream(supervisor.streamState);
+    setConnectionState(supervisor, StreamConnectionState.CONNECTED, {});
+
+    supervisor.streamState = await authenticateStreamAsync(getSupervisedStreamState(supervisor));
+    setConnectionState(supervisor, StreamConnectionState.AUTHENTICATED, {});
+  } catch (error) {
+    await reconnect(supervisor, 'Initial connection failed', getErrorCode(error), error as Error);
+  }
+
+  return supervisor;
+};
+
+/**
+ * Stops supervising and closes the stream
+ * @param supervisor - Supervisor state
+ * @returns Supervisor state
+ */
+export const stopStreamSupervisor = (supervisor: StreamSupervisorState): StreamSupervisorState => {
+  supervisor.isStopped = true;
+  supervisor.isReconnecting = false;
+
+  if (supervisor.cancelReconnectWait) {
+    supervisor.cancelReconnectWait();
+  }
+
+  supervisor.streamState = closeStream(getSupervisedStreamState(supervisor));
+  setConnectionState(supervisor, StreamConnectionState.STOPPED, {});
+
+  return supervisor;
+};
+
+/**
+ * Subscribes the supervised stream to markets. The subscription is resumed after reconnects.
+ */
+export const subscribeSupervisedMarkets = (
+  supervisor: StreamSupervisorState,
+  marketFilter: string[] | StreamMarketFilter,
+  marketDataFilter?: MarketDataFilter
+): StreamSupervisorState => {
+  supervisor.streamState = subscribeToMarkets(getSupervisedStreamState(supervisor), marketFilter, marketDataFilter);
+  setConnectionState(supervisor, StreamConnectionState.SUBSCRIBED, {});
+  return supervisor;
+};
+
+/**
+ * Subscribes the supervised stream to orders. The subscription is resumed after reconnects.
+ */
+export const subscribeSupervisedOrders = (
+  supervisor: StreamSupervisorState,
+  orderFilter?: OrderFilter
+): StreamSupervisorState => {
+  supervisor.streamState = subscribeToOrders(getSupervisedStreamState(supervisor), orderFilter);
+  setConnectionState(supervisor, StreamConnectionState.SUBSCRIBED, {});
+  return supervisor;
+};
+
+/**
+ * Subscribes the supervised stream to markets and resolves once Betfair accepts the subscription
+ */
+export const subscribeSupervisedMarketsAsync = async (
+  supervisor: StreamSupervisorState,
+  marketFilter: string[] | StreamMarketFilter,
+  marketDataFilter?: MarketDataFilter
+): Promise<StreamSupervisorState> => {
+  // The stream API keeps the live state current, and a reconnect may have replaced it by the time Betfair replies
+  await subscribeToMarketsAsync(getSupervisedStreamState(supervisor), marketFilter, marketDataFilter);
+  setConnectionState(supervisor, StreamConnectionState.SUBSCRIBED, {});
+  return supervisor;
+};
+
+/**
+ * Subscribes the supervised stream to orders and resolves once Betfair accepts the subscription
+ */
+export const subscribeSupervisedOrdersAsync = async (
+  supervisor: StreamSupervisorState,
+  orderFilter?: OrderFilter
+): Promise<StreamSupervisorState> => {
+  await subscribeToOrdersAsync(getSupervisedStreamState(supervisor), orderFilter);
+  setConnectionState(supervisor, StreamConnectionState.SUBSCRIBED, {});
+  return supervisor;
+};
+
+/**
+ * Gets the latest stream state owned by the supervisor, including the clocks received since it last changed it
+ */
+export const getSupervisedStreamState = (supervisor: StreamSupervisorState): StreamApiState => {
+  return getLiveStreamState(supervisor.streamState);
+};
+
+// Event Handlers
+const handleStale = (supervisor: StreamSupervisorState): void => {
+  if (supervisor.isStopped) {
+    return;
+  }
+
+  console.warn('Heartbeat timeout detected - reconnecting stream');
+  setConnectionState(supervisor, StreamConnectionState.STALE, { reason: 'Heartbeat timeout' });
+  void reconnect(supervisor, 'Heartbeat timeout');
+};
+
+const handleConnectionClosed = (
+  supervisor: StreamSupervisorState,
+  event: ConnectionClosedEvent
+): void => {
+  // Ignore sockets we have already replaced or closed ourselves
+  if (event.tlsSocket !== undefined && event.tlsSocket !== getSupervisedStreamState(supervisor).tlsSocket) {
+    return;
+  }
+
+  const statusMessage = event.statusMessage;
+  const reason = statusMessage
+    ? `Connection closed by Betfair: ${statusMessage.errorCode} ${statusMessage.errorMessage || ''}`.trim()
+    : `Connection lost (${event.source})`;
+
+  void reconnect(supervisor, reason, statusMessage?.errorCode, event.error);
+};
+
+/**
+ * Reconnects with exponential backoff until connected, stopped or out of attempts
+ */
+const reconnect = async (
+  supervisor: StreamSupervisorState,
+  reason: string,
+  errorCode?: StreamErrorCode,
+  error?: Error
+): Promise<void> => {
+  if (supervisor.isStopped || supervisor.isReconnecting) {
+    return;
+  }
+
+  // The supervisor has no credentials to renew a session, so only recoverable errors are retried
+  if (errorCode && getStreamErrorSeverity(errorCode) !== StreamErrorSeverity.RECOVERABLE) {
+    fail(supervisor, { reason, errorCode, error });
+    return;
+  }
+
+  // A rejected clock can never resume - start over with a full image
+  if (errorCode === StreamErrorCode.INVALID_CLOCK) {
+    supervisor.streamState = resetStreamClocks(getSupervisedStreamState(supervisor));
+  }
+
+  supervisor.isReconnecting = true;
+  let lastError = error;
+
+  while (!supervisor.isStopped) {
+    supervisor.attempt += 1;
+
+    if (supervisor.attempt > supervisor.policy.maxAttempts) {
+      supervisor.isReconnecting = false;
+      fail(supervisor, { reason, errorCode, error: lastError, attempt: supervisor.attempt - 1 });
+      return;
+    }
+
+    const delayMs = errorCode && THROTTLING_STREAM_ERROR_CODES.includes(errorCode)
+      ? supervisor.policy.maxDelayMs
+      : calculateReconnectDelay(supervisor.policy, supervisor.attempt);
+
+    setConnectionState(supervisor, StreamConnectionState.RECONNECTING, {
+      attempt: supervisor.attempt,
+      delayMs,
+      reason,
+      errorCode,
+      error: lastError,
+    });
+
+    await waitForReconnect(supervisor, delayMs);
+    if (supervisor.isStopped) {
+      break;
+    }
+
+    try {
+      setConnectionState(supervisor, StreamConnectionState.CONNECTING, { attempt: supervisor.attempt });
+      supervisor.streamState = await restartStream(getSupervisedStreamState(supervisor));
+      setConnectionState(supervisor, StreamConnectionState.AUTHENTICATED, { attempt: supervisor.attempt });
+
+      if (supervisor.streamState.lastMarketSubscription || supervisor.streamState.lastOrderSubscription) {
+        setConnectionState(supervisor, StreamConnectionState.SUBSCRIBED, { attempt: supervisor.attempt });
+      }
+
+      supervisor.attempt = 0;
+      break;
+    } catch (restartError) {
+      console.error(`Stream reconnect attempt ${supervisor.attempt} failed:`, restartError);
+      lastError = restartError as Error;
+
+      // Betfair rejected the session or app key - another attempt will fail the same way
+      const restartErrorCode = getErrorCode(restartError);
+      if (restartErrorCode && getStreamErrorSeverity(restartErrorCode) !== StreamErrorSeverity.RECOVERABLE) {
+        supervisor.isReconnecting = false;
+        fail(supervisor, { reason, errorCode: restartErrorCode, error: lastError, attempt: supervisor.attempt });
+        return;
+      }
+    }
+  }
+
+  supervisor.isReconnecting = false;
+};
+
+const getErrorCode = (error: unknown): StreamErrorCode | undefined => {
+  return error instanceof StreamRequestError ? error.errorCode : undefined;
+};
+
+const waitForReconnect = (supervisor: StreamSupervisorState, delayMs: number): Promise<void> => {
+  return new Promise(resolve => {
+    const done = (): void => {
+      if (supervisor.reconnectTimer) {
+        clearTimeout(supervisor.reconnectTimer);
+      }
+      supervisor.reconnectTimer = undefined;
+      supervisor.cancelReconnectWait = undefined;
+      resolve();
+    };
+
+    supervisor.reconnectTimer = setTimeout(done, delayMs);
+    supervisor.cancelReconnectWait = done;
+  });
+};
+
+const fail = (supervisor: StreamSupervisorState, details: ConnectionStateDetails): void => {
+  console.error(`Stream supervisor giving up: ${details.reason}`);
+  supervisor.isStopped = true;
+  supervisor.streamState = closeStream(getSupervisedStreamState(supervisor));
+  setConnectionState(supervisor, StreamConnectionState.FAILED, details);
+};
+
+const setConnectionState = (
+  supervisor: StreamSupervisorState,
+  connectionState: StreamConnectionState,
+  details: ConnectionStateDetails
+): void => {
+  supervisor.connectionState = connectionState;
+
+  if (supervisor.onConnectionStateChange) {
+    supervisor.onConnectionStateChange(connectionState, details);
+  }
+};
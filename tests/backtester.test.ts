@@ -0,0 +1,237 @@
+import * as path from 'path';
+
+import {
+  BacktestState,
+  createBacktestState,
+  getBacktestResult,
+  processBacktestPacket,
+  runBacktest,
+} from '../src/backtester';
+
+import {
+  ExecutionReportErrorCode,
+  ExecutionReportStatus,
+  OrderStatus,
+  OrderType,
+  PersistenceType,
+  PlaceExecutionReport,
+  PlaceInstruction,
+  Side,
+} from '../src/betfair-api-types';
+
+import { Strategy, StrategyContext } from '../src/strategy-runtime';
+
+const MARKET_ID = '1.200';
+const START = 1700000000000;
+
+type RunnerUpdate = { id: number; atb?: number[][]; atl?: number[][]; trd?: number[][] };
+
+const createDefinition = (overrides: object = {}, runners: object[] = [{ id: 1, status: 'ACTIVE' }, { id: 2, status: 'ACTIVE' }]) => ({
+  status: 'OPEN',
+  inPlay: false,
+  betDelay: 0,
+  bspMarket: true,
+  bspReconciled: false,
+  marketBaseRate: 5,
+  numberOfWinners: 1,
+  runners,
+  ...overrides,
+});
+
+const mcm = (offsetMs: number, rc: RunnerUpdate[] = [], marketDefinition?: object): string => JSON.stringify({
+  op: 'mcm',
+  pt: START + offsetMs,
+  mc: [{ id: MARKET_ID, ...(marketDefinition && { marketDefinition }), rc }],
+});
+
+const limitOrder = (side: Side, price: number, size: number, persistenceType = PersistenceType.LAPSE): PlaceInstruction => ({
+  orderType: OrderType.LIMIT,
+  selectionId: 1,
+  side,
+  limitOrder: { size, price, persistenceType },
+});
+
+// Places the instructions the first time the market opens
+const createOneShotStrategy = (instructions: PlaceInstruction[], reports: PlaceExecutionReport[] = []): Strategy => ({
+  name: 'one-shot',
+  onMarketOpen: async (context: StrategyContext) => {
+    reports.push(await context.placeOrders(instructions));
+  },
+});
+
+const openMarket = (state: BacktestState, definition: object = createDefinition()): void => {
+  processBacktestPacket(state, mcm(0, [
+    { id: 1, atb: [[2.9, 30]], atl: [[3, 20]] },
+    { id: 2, atb: [[1.5, 50]], atl: [[1.52, 50]] },
+  ], definition));
+};
+
+const flush = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+
+describe('Backtester', () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+
+  describe('processBacktestPacket', () => {
+    it('should match against the book immediately when the price is available', () => {
+      const state = createBacktestState([createOneShotStrategy([limitOrder(Side.BACK, 2.9, 10)])]);
+
+      openMarket(state);
+
+      const [bet] = getBacktestResult(state).bets;
+      expect(bet?.status).toBe(OrderStatus.EXECUTION_COMPLETE);
+      expect(bet?.fills).toEqual([{ time: START, price: 2.9, size: 10 }]);
+    });
+
+    it('should not match the same book liquidity twice', () => {
+      const state = createBacktestState([createOneShotStrategy([limitOrder(Side.BACK, 2.9, 50)])]);
+
+      openMarket(state);
+      expect(state.bets.get('1')?.sizeMatched).toBe(30);
+
+      // The other runner's update leaves the £30 already taken at 2.9 on the recorded book
+      processBacktestPacket(state, mcm(1000, [{ id: 2, atb: [[1.5, 60]] }]));
+      expect(state.bets.get('1')?.sizeMatched).toBe(30);
+
+      // Only size added to the level is new liquidity
+      processBacktestPacket(state, mcm(2000, [{ id: 1, atb: [[2.9, 45]] }]));
+      expect(state.bets.get('1')?.sizeMatched).toBe(45);
+      expect(state.bets.get('1')?.status).toBe(OrderStatus.EXECUTABLE);
+    });
+
+    it('should wait for the queue ahead to trade before filling', () => {
+      const state = createBacktestState([createOneShotStrategy([limitOrder(Side.BACK, 3, 10)])]);
+
+      openMarket(state);
+      expect(state.bets.get('1')?.queueAhead).toBe(20);
+
+      processBacktestPacket(state, mcm(1000, [{ id: 1, trd: [[3, 15]] }]));
+      expect(state.bets.get('1')?.sizeMatched).toBe(0);
+      expect(state.bets.get('1')?.queueAhead).toBe(5);
+
+      processBacktestPacket(state, mcm(2000, [{ id: 1, trd: [[3, 25]] }]));
+      expect(state.bets.get('1')?.sizeMatched).toBe(5);
+      expect(state.bets.get('1')?.status).toBe(OrderStatus.EXECUTABLE);
+    });
+
+    it('should move up the queue when orders ahead are cancelled', () => {
+      const state = createBacktestState([createOneShotStrategy([limitOrder(Side.BACK, 3, 10)])]);
+
+      openMarket(state);
+      processBacktestPacket(state, mcm(1000, [{ id: 1, atl: [[3, 4]] }]));
+      processBacktestPacket(state, mcm(2000, [{ id: 1, trd: [[3, 10]] }]));
+
+      expect(state.bets.get('1')?.sizeMatched).toBe(6);
+    });
+
+    it('should hold orders for the bet delay once in-play', async () => {
+      const reports: PlaceExecutionReport[] = [];
+      const state = createBacktestState([createOneShotStrategy([limitOrder(Side.BACK, 3, 10)], reports)]);
+
+      openMarket(state, createDefinition({ inPlay: true, betDelay: 1 }));
+      await flush();
+      expect(state.bets.get('1')?.status).toBe(OrderStatus.PENDING);
+      expect(reports).toEqual([]);
+
+      processBacktestPacket(state, mcm(500, [{ id: 1, atl: [[3, 5]] }]));
+      await flush();
+      expect(reports).toEqual([]);
+
+      processBacktestPacket(state, mcm(1000, [{ id: 1, atl: [[3, 8]] }]));
+      await flush();
+      expect(reports[0]?.status).toBe(ExecutionReportStatus.SUCCESS);
+      expect(reports[0]?.instructionReports?.[0]?.orderStatus).toBe(OrderStatus.EXECUTABLE);
+      expect(state.bets.get('1')?.queueAhead).toBe(5);
+    });
+
+    it('should lapse LAPSE orders and keep PERSIST orders when the market turns in-play', () => {
+      const state = createBacktestState([createOneShotStrategy([
+        limitOrder(Side.BACK, 3, 10),
+        limitOrder(Side.LAY, 2.8, 10, PersistenceType.PERSIST),
+      ])]);
+
+      openMarket(state);
+      processBacktestPacket(state, mcm(1000, [], createDefinition({ inPlay: true })));
+
+      expect(state.bets.get('1')?.sizeLapsed).toBe(10);
+      expect(state.bets.get('2')?.status).toBe(OrderStatus.EXECUTABLE);
+    });
+
+    it('should reject orders when the market is not open', async () => {
+      const reports: PlaceExecutionReport[] = [];
+      const state = createBacktestState([{
+        name: 'suspended',
+        onSuspend: async context => {
+          reports.push(await context.placeOrders([limitOrder(Side.BACK, 3, 10)]));
+        },
+      }]);
+
+      openMarket(state, createDefinition({ status: 'SUSPENDED' }));
+      await flush();
+
+      expect(reports[0]?.status).toBe(ExecutionReportStatus.FAILURE);
+      expect(reports[0]?.errorCode).toBe(ExecutionReportErrorCode.MARKET_NOT_OPEN_FOR_BETTING);
+      expect(state.bets.size).toBe(0);
+    });
+
+    it('should cancel part of an order and publish the change to the strategy', async () => {
+      const onOrderChange = jest.fn();
+      const state = createBacktestState([{
+        ...createOneShotStrategy([limitOrder(Side.BACK, 3, 10)]),
+        onOrderChange,
+      }]);
+
+      openMarket(state);
+      const report = await state.router.executor.cancelOrders(MARKET_ID, [{ betId: '1', sizeReduction: 4 }]);
+      processBacktestPacket(state, mcm(1000, [{ id: 1, trd: [[3, 30]] }]));
+
+      expect(report.instructionReports?.[0]?.sizeCancelled).toBe(4);
+      expect(state.bets.get('1')?.sizeMatched).toBe(6);
+      const context: StrategyContext = onOrderChange.mock.calls[onOrderChange.mock.calls.length - 1][0];
+      expect(context.orders?.runners['1']?.unmatchedOrders['1']).toMatchObject({ sm: 6, sc: 4, sr: 0, rfs: 'one-shot' });
+      expect(context.orders?.runners['1']?.matchedBacks).toEqual([[3, 6]]);
+    });
+
+    it('should fill BSP orders at the reconciled price and settle with commission', () => {
+      const state = createBacktestState([createOneShotStrategy([
+        limitOrder(Side.BACK, 2.9, 10),
+        { orderType: OrderType.MARKET_ON_CLOSE, selectionId: 2, side: Side.LAY, marketOnCloseOrder: { liability: 20 } },
+        { orderType: OrderType.LIMIT_ON_CLOSE, selectionId: 2, side: Side.BACK, limitOnCloseOrder: { liability: 5, price: 3 } },
+      ])]);
+
+      openMarket(state);
+      processBacktestPacket(state, mcm(1000, [], createDefinition({ status: 'CLOSED', bspReconciled: true }, [
+        { id: 1, status: 'WINNER', bsp: 2.5 },
+        { id: 2, status: 'LOSER', bsp: 2 },
+      ])));
+
+      const result = getBacktestResult(state);
+      expect(result.bets.map(bet => bet.profit)).toEqual([19, 20, 0]);
+      expect(result.bets[1]?.fills).toEqual([{ time: START + 1000, price: 2, size: 20 }]);
+      expect(result.bets[2]?.sizeLapsed).toBe(5);
+      expect(result.markets[MARKET_ID]).toMatchObject({ winners: [1], grossProfit: 39 });
+      expect(result.markets[MARKET_ID]?.commission).toBeCloseTo(1.95);
+      expect(result.profit).toBeCloseTo(37.05);
+      expect(result.strategies).toEqual({ 'one-shot': 39 });
+    });
+  });
+
+  describe('runBacktest', () => {
+    it('should replay a recorded file and settle on the recorded winner', async () => {
+      const strategy: Strategy = {
+        name: 'favourite',
+        onMarketChange: async (context, changedRunners) => {
+          if (changedRunners.some(runner => runner.id === 111 && runner.atb) && context.orders === undefined) {
+            await context.placeOrders([{ ...limitOrder(Side.BACK, 2, 10), selectionId: 111 }]);
+          }
+        },
+      };
+
+      const result = await runBacktest(path.join(__dirname, 'data', 'simple-winner.json'), [strategy]);
+
+      expect(result.messages).toBe(6);
+      expect(result.bets).toHaveLength(1);
+      expect(result.markets['1.111111111']).toMatchObject({ settled: true, winners: [111], grossProfit: 10 });
+      expect(result.profit).toBeCloseTo(9.5);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  ApiErrorCode,
+  BetfairApiError,
+  BetfairSessionError,
+  BetfairAccessError,
+  BetfairThrottlingError,
+  BetfairRequestError,
+  BetfairLoginError,
+  createBetfairApiError,
+  parseJsonRpcError,
+  unwrapApiResult,
+  toBetfairApiError,
+} from '../src/betfair-api-errors';
+
+const apingErrorBody = (errorCode: string, exceptionname = 'APINGException') => ({
+  jsonrpc: '2.0',
+  error: {
+    code: -32099,
+    message: 'ANGX-0006',
+    data: {
+      [exceptionname]: { requestUUID: 'prdang-1234', errorCode, errorDetails: 'Details here' },
+      exceptionname,
+    },
+  },
+  id: 1,
+});
+
+describe('Betfair API Errors', () => {
+  describe('createBetfairApiError', () => {
+    it.each([
+      [ApiErrorCode.INVALID_SESSION_INFORMATION, BetfairSessionError],
+      [ApiErrorCode.NO_SESSION, BetfairSessionError],
+      [ApiErrorCode.INVALID_APP_KEY, BetfairAccessError],
+      [ApiErrorCode.TOO_MANY_REQUESTS, BetfairThrottlingError],
+      [ApiErrorCode.TOO_MUCH_DATA, BetfairRequestError],
+      [ApiErrorCode.UNEXPECTED_ERROR, BetfairApiError],
+    ])('should create the right error class for %s', (errorCode, ErrorClass) => {
+      const error = createBetfairApiError('failed', errorCode);
+
+      expect(error).toBeInstanceOf(ErrorClass);
+      expect(error).toBeInstanceOf(BetfairApiError);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.errorCode).toBe(errorCode);
+    });
+
+    it('should make login errors part of the hierarchy', () => {
+      const error = new BetfairLoginError('Login failed', 'CERT_AUTH_REQUIRED');
+
+      expect(error).toBeInstanceOf(BetfairApiError);
+      expect(error.errorCode).toBe('CERT_AUTH_REQUIRED');
+      expect(error.loginStatus).toBe('CERT_AUTH_REQUIRED');
+    });
+  });
+
+  describe('parseJsonRpcError', () => {
+    it('should expose the APINGException details', () => {
+      const error = parseJsonRpcError(apingErrorBody('TOO_MUCH_DATA'), 'listMarketBook', 200);
+
+      expect(error).toBeInstanceOf(BetfairRequestError);
+      expect(error).toMatchObject({
+        errorCode: ApiErrorCode.TOO_MUCH_DATA,
+        requestUUID: 'prdang-1234',
+        httpStatus: 200,
+        method: 'listMarketBook',
+        errorDetails: 'Details here',
+      });
+      expect(error!.message).toBe('listMarketBook failed: TOO_MUCH_DATA (Details here)');
+    });
+
+    it('should read AccountAPINGException errors', () => {
+      const error = parseJsonRpcError(apingErrorBody('INVALID_APP_KEY', 'AccountAPINGException'), 'listCurrencyRates');
+
+      expect(error).toBeInstanceOf(BetfairAccessError);
+      expect(error!.errorCode).toBe(ApiErrorCode.INVALID_APP_KEY);
+    });
+
+    it('should map JSON-RPC protocol errors', () => {
+      const error = parseJsonRpcError({ error: { code: -32601, message: 'Method not found' } }, 'listThings');
+
+      expect(error).toBeInstanceOf(BetfairRequestError);
+      expect(error!.errorCode).toBe(ApiErrorCode.JSON_RPC_METHOD_NOT_FOUND);
+    });
+
+    it('should return undefined when there is no error', () => {
+      expect(parseJsonRpcError({ result: [] })).toBeUndefined();
+      expect(parseJsonRpcError(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('unwrapApiResult', () => {
+    it('should return the result', () => {
+      const result = unwrapApiResult<string[]>({ status: 200, data: { result: ['a'] } } as any, 'listEvents');
+
+      expect(result).toEqual(['a']);
+    });
+
+    it('should throw the typed error', () => {
+      expect(() => unwrapApiResult({ status: 200, data: apingErrorBody('TOO_MANY_REQUESTS') } as any, 'listEvents'))
+        .toThrow(BetfairThrottlingError);
+    });
+
+    it('should throw when the response has no result', () => {
+      expect(() => unwrapApiResult({ status: 503, data: 'Service unavailable' } as any, 'listEvents'))
+        .toThrow('listEvents failed: HTTP 503');
+    });
+  });
+
+  describe('toBetfairApiError', () => {
+    it('should convert HTTP error responses', () => {
+      const error = toBetfairApiError(
+        { message: 'Request failed', response: { status: 400, data: apingErrorBody('INVALID_SESSION_INFORMATION') } },
+        'listMarketCatalogue'
+      );
+
+      expect(error).toBeInstanceOf(BetfairSessionError);
+      expect((error as BetfairApiError).httpStatus).toBe(400);
+    });
+
+    it('should leave errors without a response unchanged', () => {
+      const networkError = new Error('ECONNRESET');
+
+      expect(toBetfairApiError(networkError, 'listMarketCatalogue')).toBe(networkError);
+    });
+  });
+});
@@ -1,6 +1,10 @@
 import {
   createBetfairApiState,
   login,
+  loginWithCertificate,
+  listMarketBookResult,
+  listCurrencyRatesResult,
+  placeOrdersResult,
   logout,
   keepAlive,
   listMarketCatalogue,
@@ -21,10 +25,15 @@ import {
   createCancelInstruction,
   createReplaceInstruction,
   createUpdateInstruction,
+  createLimitOrderInstruction,
+  createLimitOnCloseInstruction,
+  createMarketOnCloseInstruction,
   isValidBetId,
   calculateBackProfit,
   calculateLayLiability,
   validateOrderParameters,
+  validatePlaceInstruction,
+  calculateInstructionLiability,
   getComprehensiveMarketResults,
   BetfairApiState,
 } from '../src/betfair-api';
@@ -45,10 +54,22 @@ import {
   UpdateInstruction,
   ComprehensiveMarketResults,
   MarketProjection,
+  LoginStatus,
+  PriceLadderType,
 } from '../src/betfair-api-types';
 
 import { CurrencyRate, MarketCache } from '../src/betfair-exchange-stream-api-types';
+import { FINEST_PRICE_LADDER, getPriceLadder } from '../src/utils';
+import {
+  BetfairLoginError,
+  BetfairThrottlingError,
+  BetfairSessionError,
+} from '../src/betfair-api-errors';
 import axios from 'axios';
+import * as fs from 'fs';
+import * as https from 'https';
+import * as os from 'os';
+import * as path from 'path';
 
 // Mock dependencies
 jest.mock('querystring', () => ({
@@ -173,6 +194,15 @@ describe('Betfair API Functional Implementation', () => {
           .rejects.toThrow('Login failed');
       });
 
+      it('should throw a BetfairLoginError with the reported error', async () => {
+        mockedAxios.mockResolvedValueOnce({ data: { status: 'FAIL', error: 'INVALID_USERNAME_OR_PASSWORD' } });
+
+        await expect(login(apiState, 'test-app-key', 'username', 'password')).rejects.toMatchObject({
+          name: 'BetfairLoginError',
+          loginStatus: 'INVALID_USERNAME_OR_PASSWORD',
+        });
+      });
+
       it('should throw error when currency rates fail to load', async () => {
         const mockAuthResponse = {
           data: {
@@ -188,8 +218,81 @@ describe('Betfair API Functional Implementation', () => {
         mockedAxios.mockResolvedValueOnce(mockAuthResponse);
         mockedAxios.mockResolvedValueOnce(mockCurrencyResponse);
 
-        await expect(login(apiState, 'test-app-key', 'username', 'password'))
-          .rejects.toThrow('Error listing currency rates');
+        await expect(login(apiState, 'test-app-key', 'username', 'password')).rejects.toMatchObject({
+          name: 'BetfairApiError',
+          method: 'listCurrencyRates',
+          httpStatus: 500,
+        });
+      });
+
+      it('should throw a BetfairApiError when the login request fails with an HTTP error', async () => {
+        mockedAxios.mockRejectedValueOnce({ response: { status: 503, data: '<html>Service Unavailable</html>' } });
+
+        await expect(login(apiState, 'test-app-key', 'username', 'password')).rejects.toMatchObject({
+          name: 'BetfairApiError',
+          method: 'login',
+          httpStatus: 503,
+        });
+      });
+    });
+
+    describe('loginWithCertificate', () => {
+      const certificate = { cert: Buffer.from('CERT'), key: Buffer.from('KEY'), passphrase: 'secret' };
+      const mockCurrencyResponse = {
+        status: 200,
+        data: { result: [{ currencyCode: 'AUD', rate: 1.0 }] },
+      };
+
+      it('should log in via certlogin and update state', async () => {
+        mockedAxios.mockResolvedValueOnce({ data: { sessionToken: 'cert-token', loginStatus: 'SUCCESS' } });
+        mockedAxios.mockResolvedValueOnce(mockCurrencyResponse);
+
+        const updatedState = await loginWithCertificate(apiState, 'test-app-key', 'username', 'password', certificate);
+
+        expect(updatedState.appKey).toBe('test-app-key');
+        expect(updatedState.sessionKey).toBe('cert-token');
+        expect(updatedState.currencyRates).toHaveLength(1);
+
+        const request = (mockedAxios.mock.calls[0] as any[])[0];
+        expect(request.url).toBe('https://identitysso-api.betfair.com.au:443/api/certlogin');
+        expect(request.headers['x-application']).toBe('test-app-key');
+        expect(request.httpsAgent).toBeInstanceOf(https.Agent);
+        expect(request.httpsAgent.options).toMatchObject({ passphrase: 'secret' });
+      });
+
+      it('should read the certificate and key from file paths', async () => {
+        const certDir = fs.mkdtempSync(path.join(os.tmpdir(), 'betfair-cert-'));
+        fs.writeFileSync(path.join(certDir, 'client-2048.crt'), 'CERT-FROM-FILE');
+        fs.writeFileSync(path.join(certDir, 'client-2048.key'), 'KEY-FROM-FILE');
+        mockedAxios.mockResolvedValueOnce({ data: { sessionToken: 'cert-token', loginStatus: 'SUCCESS' } });
+        mockedAxios.mockResolvedValueOnce(mockCurrencyResponse);
+
+        try {
+          await loginWithCertificate(apiState, 'test-app-key', 'username', 'password', {
+            cert: path.join(certDir, 'client-2048.crt'),
+            key: path.join(certDir, 'client-2048.key'),
+          });
+        } finally {
+          fs.rmSync(certDir, { recursive: true, force: true });
+        }
+
+        const request = (mockedAxios.mock.calls[0] as any[])[0];
+        expect(request.httpsAgent.options.cert.toString()).toBe('CERT-FROM-FILE');
+        expect(request.httpsAgent.options.key.toString()).toBe('KEY-FROM-FILE');
+      });
+
+      it.each([
+        LoginStatus.INVALID_USERNAME_OR_PASSWORD,
+        LoginStatus.CERT_AUTH_REQUIRED,
+        LoginStatus.ACCOUNT_NOW_LOCKED,
+      ])('should throw a BetfairLoginError for %s', async loginStatus => {
+        mockedAxios.mockResolvedValueOnce({ data: { loginStatus } });
+
+        const attempt = loginWithCertificate(apiState, 'test-app-key', 'username', 'password', certificate);
+
+        await expect(attempt).rejects.toBeInstanceOf(BetfairLoginError);
+        await expect(attempt).rejects.toMatchObject({ loginStatus });
+        expect(mockedAxios).toHaveBeenCalledTimes(1);
       });
     });
 
@@ -789,6 +892,25 @@ describe('Betfair API Functional Implementation', () => {
         expect(result2.errors).toContain('Size cannot exceed 100,000');
       });
 
+      it('should detect prices between ladder ticks', () => {
+        expect(validateOrderParameters('1.123456', 123456, 2.51, 10).errors)
+          .toEqual(['Price 2.51 is not a valid CLASSIC ladder tick']);
+        expect(validateOrderParameters('1.123456', 123456, 2.51, 10, FINEST_PRICE_LADDER).isValid).toBe(true);
+      });
+
+      it('should validate line values against a LINE_RANGE ladder', () => {
+        const ladder = getPriceLadder(
+          { type: PriceLadderType.LINE_RANGE },
+          { minUnitValue: 0.5, maxUnitValue: 10.5, interval: 1, marketUnit: 'Goals' }
+        );
+
+        expect(validateOrderParameters('1.123456', 123456, 2.5, 10, ladder).isValid).toBe(true);
+        expect(validateOrderParameters('1.123456', 123456, 2, 10, ladder).errors)
+          .toEqual(['Price 2 is not a valid LINE_RANGE ladder tick']);
+        expect(validateOrderParameters('1.123456', 123456, 11.5, 10, ladder).errors)
+          .toEqual(['Price must be between 0.5 and 10.5']);
+      });
+
       it('should detect multiple errors', () => {
         const result = validateOrderParameters('invalid', -1, 0.5, 0.005);
         expect(result.isValid).toBe(false);
@@ -796,6 +918,81 @@ describe('Betfair API Functional Implementation', () => {
       });
     });
 
+    describe('place instruction builders', () => {
+      it('should create limit, limit on close and market on close instructions', () => {
+        expect(createLimitOrderInstruction(123456, Side.BACK, 2.5, 10, PersistenceType.PERSIST, 'ref-1')).toEqual({
+          orderType: OrderType.LIMIT,
+          selectionId: 123456,
+          side: Side.BACK,
+          limitOrder: { size: 10, price: 2.5, persistenceType: PersistenceType.PERSIST },
+          customerOrderRef: 'ref-1',
+        });
+        expect(createLimitOnCloseInstruction(123456, Side.LAY, 20, 5)).toEqual({
+          orderType: OrderType.LIMIT_ON_CLOSE,
+          selectionId: 123456,
+          side: Side.LAY,
+          limitOnCloseOrder: { liability: 20, price: 5 },
+        });
+        expect(createMarketOnCloseInstruction(123456, Side.BACK, 2)).toEqual({
+          orderType: OrderType.MARKET_ON_CLOSE,
+          selectionId: 123456,
+          side: Side.BACK,
+          marketOnCloseOrder: { liability: 2 },
+        });
+      });
+    });
+
+    describe('validatePlaceInstruction', () => {
+      it('should validate limit orders like validateOrderParameters', () => {
+        expect(validatePlaceInstruction('1.123456', createLimitOrderInstruction(123456, Side.BACK, 2.5, 10)).isValid)
+          .toBe(true);
+        expect(validatePlaceInstruction('1.123456', createLimitOrderInstruction(123456, Side.BACK, 1, 10)).errors)
+          .toContain('Price must be between 1.01 and 1000');
+        expect(validatePlaceInstruction('1.123456', { orderType: OrderType.LIMIT, selectionId: 123456, side: Side.BACK }))
+          .toEqual({ isValid: false, errors: ['LIMIT orders require a limitOrder'] });
+      });
+
+      it('should enforce BSP liability minimums', () => {
+        expect(validatePlaceInstruction('1.123456', createMarketOnCloseInstruction(123456, Side.BACK, 1)).isValid)
+          .toBe(true);
+        expect(validatePlaceInstruction('1.123456', createMarketOnCloseInstruction(123456, Side.LAY, 5)).errors)
+          .toEqual(['BSP lay liability must be at least 10']);
+        expect(validatePlaceInstruction('1.123456', createLimitOnCloseInstruction(123456, Side.BACK, 0.5, 3)).errors)
+          .toEqual(['BSP back stake must be at least 1']);
+        expect(validatePlaceInstruction('1.123456', createLimitOnCloseInstruction(123456, Side.LAY, 5, 3), 1, 5).isValid)
+          .toBe(true);
+      });
+
+      it('should validate market on close orders without a price', () => {
+        expect(validatePlaceInstruction('1.123456', createMarketOnCloseInstruction(123456, Side.LAY, 50)).isValid)
+          .toBe(true);
+        expect(validatePlaceInstruction('invalid', createMarketOnCloseInstruction(0, Side.BACK, 0.5)).errors).toEqual([
+          'Invalid market ID format',
+          'Selection ID must be a positive integer',
+          'BSP back stake must be at least 1',
+        ]);
+      });
+
+      it('should require the BSP order details', () => {
+        const result = validatePlaceInstruction('1.123456', {
+          orderType: OrderType.LIMIT_ON_CLOSE,
+          selectionId: 123456,
+          side: Side.BACK,
+        });
+
+        expect(result).toEqual({ isValid: false, errors: ['LIMIT_ON_CLOSE orders require a limitOnCloseOrder'] });
+      });
+    });
+
+    describe('calculateInstructionLiability', () => {
+      it('should return the stake, lay liability or BSP liability', () => {
+        expect(calculateInstructionLiability(createLimitOrderInstruction(123456, Side.BACK, 3, 10))).toBe(10);
+        expect(calculateInstructionLiability(createLimitOrderInstruction(123456, Side.LAY, 3, 10))).toBe(20);
+        expect(calculateInstructionLiability(createLimitOnCloseInstruction(123456, Side.LAY, 25, 4))).toBe(25);
+        expect(calculateInstructionLiability(createMarketOnCloseInstruction(123456, Side.BACK, 5))).toBe(5);
+      });
+    });
+
     describe('getComprehensiveMarketResults', () => {
       let authenticatedState: BetfairApiState;
 
@@ -893,4 +1090,65 @@ describe('Betfair API Functional Implementation', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('Result Variants', () => {
+    let authenticatedState: BetfairApiState;
+
+    beforeEach(() => {
+      authenticatedState = { ...apiState, sessionKey: 'test-session', appKey: 'test-app-key' };
+    });
+
+    it('should unwrap the result', async () => {
+      mockedAxios.mockResolvedValueOnce({ status: 200, data: { jsonrpc: '2.0', result: [{ marketId: '1.123' }], id: 1 } });
+
+      const marketBooks = await listMarketBookResult(authenticatedState, { marketIds: ['1.123'] });
+
+      expect(marketBooks).toEqual([{ marketId: '1.123' }]);
+    });
+
+    it('should throw a typed error from the JSON-RPC error body', async () => {
+      mockedAxios.mockResolvedValueOnce({
+        status: 200,
+        data: {
+          jsonrpc: '2.0',
+          error: {
+            code: -32099,
+            message: 'ANGX-0007',
+            data: {
+              APINGException: { requestUUID: 'uuid-1', errorCode: 'TOO_MANY_REQUESTS', errorDetails: '' },
+              exceptionname: 'APINGException',
+            },
+          },
+          id: 1,
+        },
+      });
+
+      const request = placeOrdersResult(authenticatedState, '1.123', [], '', 0, '', false);
+
+      await expect(request).rejects.toBeInstanceOf(BetfairThrottlingError);
+      await expect(request).rejects.toMatchObject({
+        errorCode: 'TOO_MANY_REQUESTS',
+        requestUUID: 'uuid-1',
+        method: 'placeOrders',
+        httpStatus: 200,
+      });
+    });
+
+    it('should convert HTTP errors thrown by axios', async () => {
+      mockedAxios.mockRejectedValueOnce({
+        message: 'Request failed with status code 400',
+        response: {
+          status: 400,
+          data: {
+            error: {
+              code: -32099,
+              data: { AccountAPINGException: { errorCode: 'INVALID_SESSION_INFORMATION', requestUUID: 'uuid-2' } },
+            },
+          },
+        },
+      });
+
+      await expect(listCurrencyRatesResult(authenticatedState, 'GBP')).rejects.toBeInstanceOf(BetfairSessionError);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  Jurisdiction,
+  JURISDICTION_ENDPOINTS,
+  DEFAULT_BETFAIR_ENDPOINTS,
+  getBetfairEndpoints,
+} from '../src/betfair-endpoints';
+
+import { createBetfairApiState, login, listEventTypes } from '../src/betfair-api';
+import { createStreamApiState, openStream } from '../src/betfair-exchange-stream-api';
+
+import axios from 'axios';
+import * as tls from 'tls';
+import { createInterface } from 'readline';
+
+jest.mock('axios');
+jest.mock('tls');
+jest.mock('readline');
+
+const mockedAxios = jest.mocked(axios);
+
+describe('Betfair Endpoints', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getBetfairEndpoints', () => {
+    it('should provide a preset for every jurisdiction', () => {
+      expect(getBetfairEndpoints(Jurisdiction.INTERNATIONAL)).toMatchObject({
+        interactiveLogin: 'https://identitysso.betfair.com:443/api/login',
+        betting: 'https://api.betfair.com:443/exchange/betting/json-rpc/v1',
+        streamHost: 'stream-api.betfair.com',
+      });
+      expect(getBetfairEndpoints(Jurisdiction.ITALY)).toMatchObject({
+        certLogin: 'https://identitysso-cert.betfair.it:443/api/certlogin',
+        account: 'https://api.betfair.it/exchange/account/json-rpc/v1',
+        streamHost: 'stream-api.betfair.it',
+      });
+      expect(getBetfairEndpoints(Jurisdiction.SPAIN).betting).toBe(
+        'https://api.betfair.es:443/exchange/betting/json-rpc/v1'
+      );
+    });
+
+    it('should keep the Australian endpoints as the default', () => {
+      expect(DEFAULT_BETFAIR_ENDPOINTS).toBe(JURISDICTION_ENDPOINTS[Jurisdiction.AUSTRALIA]);
+      expect(DEFAULT_BETFAIR_ENDPOINTS.interactiveLogin).toBe('https://identitysso.betfair.com.au:443/api/login');
+      expect(DEFAULT_BETFAIR_ENDPOINTS.betting).toBe('https://api.betfair.com:443/exchange/betting/json-rpc/v1');
+    });
+
+    it('should apply custom overrides on top of a preset', () => {
+      const endpoints = getBetfairEndpoints(Jurisdiction.INTERNATIONAL, {
+        betting: 'http://localhost:8080/betting',
+        streamHost: 'localhost',
+        streamPort: 9443,
+      });
+
+      expect(endpoints.betting).toBe('http://localhost:8080/betting');
+      expect(endpoints.streamPort).toBe(9443);
+      expect(endpoints.account).toBe(JURISDICTION_ENDPOINTS[Jurisdiction.INTERNATIONAL].account);
+    });
+  });
+
+  describe('per-state endpoints', () => {
+    it('should send API requests to the configured jurisdiction', async () => {
+      const apiState = {
+        ...createBetfairApiState('en', 'EUR', 0, 5000, jest.fn(), getBetfairEndpoints(Jurisdiction.ITALY)),
+        sessionKey: 'session',
+        appKey: 'app-key',
+      };
+      mockedAxios.mockResolvedValueOnce({ status: 200, data: { result: [] } });
+
+      await listEventTypes(apiState, {});
+
+      expect(mockedAxios).toHaveBeenCalledWith(expect.objectContaining({
+        url: 'https://api.betfair.it:443/exchange/betting/json-rpc/v1',
+      }));
+    });
+
+    it('should log in against the configured identity endpoint', async () => {
+      const apiState = createBetfairApiState('en', 'EUR', 0, 5000, jest.fn(), getBetfairEndpoints(Jurisdiction.SPAIN));
+      mockedAxios.mockResolvedValueOnce({ data: { status: 'SUCCESS', token: 'token' } });
+      mockedAxios.mockResolvedValueOnce({ status: 200, data: { result: [] } });
+
+      await login(apiState, 'app-key', 'username', 'password');
+
+      expect(mockedAxios).toHaveBeenNthCalledWith(1, expect.objectContaining({
+        url: 'https://identitysso.betfair.es:443/api/login',
+      }));
+      expect(mockedAxios).toHaveBeenNthCalledWith(2, expect.objectContaining({
+        url: 'https://api.betfair.es/exchange/account/json-rpc/v1',
+      }));
+    });
+
+    it('should connect the stream to the configured host and port', () => {
+      const streamState = createStreamApiState(
+        'token',
+        'app-key',
+        false,
+        0,
+        5000,
+        { currencyCode: 'AUD', rate: 1 },
+        jest.fn(),
+        undefined,
+        undefined,
+        getBetfairEndpoints(Jurisdiction.INTERNATIONAL, { streamHost: 'localhost', streamPort: 9443 })
+      );
+      jest.mocked(tls.connect).mockReturnValue({ on: jest.fn() } as any);
+      jest.mocked(createInterface).mockReturnValue({ on: jest.fn() } as any);
+
+      void openStream(streamState);
+
+      expect(tls.connect).toHaveBeenCalledWith({ host: 'localhost', port: 9443 }, expect.any(Function));
+    });
+  });
+});
@@ -3,13 +3,30 @@ import {
   createStreamApiState,
   setAuthCredentials,
   getStreamCache,
+  subscribeToMarkets,
+  subscribeToOrders,
+  resumeMarketSubscription,
+  resumeOrderSubscription,
+  openStream,
+  closeStream,
+  getStreamErrorSeverity,
+  authenticateStreamAsync,
+  subscribeToMarketsAsync,
+  StreamRequestError,
+  getLiveStreamState,
 } from '../src/betfair-exchange-stream-api';
 
 import {
   CurrencyRate,
   MarketCache,
+  MarketDataField,
+  StreamErrorCode,
+  StreamErrorSeverity,
 } from '../src/betfair-exchange-stream-api-types';
 
+import * as tls from 'tls';
+import { createInterface } from 'readline';
+
 // Mock the TLS and readline modules
 jest.mock('tls');
 jest.mock('readline');
@@ -291,4 +308,365 @@ describe('Betfair Exchange Stream API Functions', () => {
       expect(mockMarketChangeCallback).toHaveBeenCalledWith(testMarketCache, testDeltas);
     });
   });
-});
\ No newline at end of file
+
+  describe('Subscription Resume', () => {
+    const connectedState = (): { state: StreamApiState; write: jest.Mock } => {
+      const write = jest.fn();
+      return {
+        state: { ...initialState, tlsSocket: { write } as any, authenticationStatus: true },
+        write,
+      };
+    };
+
+    it('should resend the market subscription with the latest clocks', () => {
+      const { state, write } = connectedState();
+      let subscribed = subscribeToMarkets(state, ['1.123456']);
+      subscribed = {
+        ...subscribed,
+        streamDecoder: {
+          ...subscribed.streamDecoder,
+          clocks: { market: { initialClk: 'init-1', clk: 'clk-5' }, order: {} },
+        },
+      };
+
+      const resumed = resumeMarketSubscription(subscribed);
+      const payload = JSON.parse(write.mock.calls[1][0]);
+
+      expect(payload.op).toBe('marketSubscription');
+      expect(payload.marketFilter).toEqual({ marketIds: ['1.123456'] });
+      expect(payload.initialClk).toBe('init-1');
+      expect(payload.clk).toBe('clk-5');
+      expect(payload.id).not.toBe(subscribed.lastMarketSubscription!.id);
+      expect(resumed.pendingPackets[payload.id]).toBe('AWAITING');
+    });
+
+    it('should resend the order subscription with the latest clocks', () => {
+      const { state, write } = connectedState();
+      let subscribed = subscribeToOrders(state, { includeOverallPosition: true });
+      subscribed = {
+        ...subscribed,
+        streamDecoder: {
+          ...subscribed.streamDecoder,
+          clocks: { market: {}, order: { initialClk: 'o-init', clk: 'o-clk' } },
+        },
+      };
+
+      resumeOrderSubscription(subscribed);
+      const payload = JSON.parse(write.mock.calls[1][0]);
+
+      expect(payload.op).toBe('orderSubscription');
+      expect(payload.orderFilter).toEqual({ includeOverallPosition: true });
+      expect(payload.initialClk).toBe('o-init');
+      expect(payload.clk).toBe('o-clk');
+    });
+
+    it('should clear the market cache when there are no clocks to resume from', () => {
+      const { state, write } = connectedState();
+      let subscribed = subscribeToMarkets(state, ['1.123456']);
+      subscribed = {
+        ...subscribed,
+        streamDecoder: {
+          ...subscribed.streamDecoder,
+          marketCache: { '1.123456': {} as MarketCache },
+        },
+      };
+
+      const resumed = resumeMarketSubscription(subscribed);
+      const payload = JSON.parse(write.mock.calls[1][0]);
+
+      expect(payload.clk).toBeUndefined();
+      expect(resumed.streamDecoder.marketCache).toEqual({});
+    });
+
+    it('should leave state unchanged when nothing was subscribed', () => {
+      const { state, write } = connectedState();
+
+      expect(resumeMarketSubscription(state)).toBe(state);
+      expect(resumeOrderSubscription(state)).toBe(state);
+      expect(write).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('subscribeToMarkets', () => {
+    const connectedState = (): { state: StreamApiState; write: jest.Mock } => {
+      const write = jest.fn();
+      return {
+        state: { ...initialState, tlsSocket: { write } as any, authenticationStatus: true },
+        write,
+      };
+    };
+
+    it('should subscribe by market IDs without a data filter', () => {
+      const { state, write } = connectedState();
+      const updatedState = subscribeToMarkets(state, ['1.123456']);
+      const payload = JSON.parse(write.mock.calls[0][0]);
+
+      expect(payload.marketFilter).toEqual({ marketIds: ['1.123456'] });
+      expect(payload.marketDataFilter).toBeUndefined();
+      expect(updatedState.lastMarkets).toEqual(['1.123456']);
+    });
+
+    it('should keep the order cache and clocks when resubscribing to markets', () => {
+      const { state } = connectedState();
+      const orders = { marketId: '1.1', closed: false, published: 0, runners: {} };
+      state.streamDecoder = {
+        ...state.streamDecoder,
+        marketCache: { '1.1': {} as MarketCache },
+        orderCache: { '1.1': orders },
+        clocks: { market: { clk: 'market-clk' }, order: { initialClk: 'order-initial', clk: 'order-clk' } },
+      };
+
+      const { streamDecoder } = subscribeToMarkets(state, ['1.123456']);
+
+      expect(streamDecoder.marketCache).toEqual({});
+      expect(streamDecoder.clocks).toEqual({ market: {}, order: { initialClk: 'order-initial', clk: 'order-clk' } });
+      expect(streamDecoder.orderCache).toEqual({ '1.1': orders });
+    });
+
+    it('should send a full market filter and market data filter', () => {
+      const { state, write } = connectedState();
+      const updatedState = subscribeToMarkets(
+        state,
+        { eventTypeIds: ['4339'], countryCodes: ['AU'], marketTypes: ['WIN'], raceTypes: ['Flat'] },
+        { fields: [MarketDataField.EX_BEST_OFFERS, MarketDataField.EX_LTP, MarketDataField.EX_MARKET_DEF], ladderLevels: 3 }
+      );
+      const payload = JSON.parse(write.mock.calls[0][0]);
+
+      expect(payload.marketFilter).toEqual({
+        eventTypeIds: ['4339'],
+        countryCodes: ['AU'],
+        marketTypes: ['WIN'],
+        raceTypes: ['Flat'],
+      });
+      expect(payload.marketDataFilter).toEqual({
+        fields: ['EX_BEST_OFFERS', 'EX_LTP', 'EX_MARKET_DEF'],
+        ladderLevels: 3,
+      });
+      expect(updatedState.lastMarkets).toEqual([]);
+      expect(updatedState.lastMarketSubscription!.marketDataFilter!.ladderLevels).toBe(3);
+    });
+
+    it('should reject ladder levels outside 1 to 10', () => {
+      const { state, write } = connectedState();
+
+      expect(() => subscribeToMarkets(state, ['1.123456'], { ladderLevels: 11 })).toThrow(
+        'Ladder levels must be an integer between 1 and 10'
+      );
+      expect(() => subscribeToMarkets(state, ['1.123456'], { ladderLevels: 0 })).toThrow();
+      expect(write).not.toHaveBeenCalled();
+    });
+
+    it('should keep the market data filter when resuming', () => {
+      const { state, write } = connectedState();
+      const subscribed = subscribeToMarkets(state, { eventTypeIds: ['7'] }, { ladderLevels: 5 });
+
+      resumeMarketSubscription(subscribed);
+      const payload = JSON.parse(write.mock.calls[1][0]);
+
+      expect(payload.marketFilter).toEqual({ eventTypeIds: ['7'] });
+      expect(payload.marketDataFilter).toEqual({ ladderLevels: 5 });
+    });
+
+    it('should throw when the stream is not authenticated', () => {
+      expect(() => subscribeToMarkets(initialState, ['1.123456'])).toThrow(
+        'Stream not connected or authenticated'
+      );
+    });
+  });
+
+  describe('Status Handling', () => {
+    let lineHandler: (data: string) => void;
+
+    const openMockedStream = async (state: StreamApiState): Promise<StreamApiState> => {
+      const socket = { on: jest.fn(), write: jest.fn(), destroy: jest.fn() };
+      jest.mocked(tls.connect).mockImplementation(((_options: unknown, onConnect: () => void) => {
+        setImmediate(onConnect);
+        return socket;
+      }) as any);
+      jest.mocked(createInterface).mockReturnValue({
+        on: jest.fn((event: string, handler: (data: string) => void) => {
+          if (event === 'line') {
+            lineHandler = handler;
+          }
+        }),
+      } as any);
+
+      return openStream(state);
+    };
+
+    const statusLine = (fields: object): string =>
+      JSON.stringify({ op: 'status', connectionClosed: false, connectionsAvailable: 5, ...fields });
+
+    it('should report failed operations to onStreamError instead of throwing', async () => {
+      const onStreamError = jest.fn();
+      const opened = await openMockedStream({
+        ...initialState,
+        onStreamError,
+        pendingPackets: { 42: 'AWAITING' },
+      });
+
+      expect(() =>
+        lineHandler(statusLine({
+          id: 42,
+          statusCode: 'FAILURE',
+          errorCode: 'SUBSCRIPTION_LIMIT_EXCEEDED',
+          errorMessage: 'Too many markets',
+        }))
+      ).not.toThrow();
+
+      expect(onStreamError).toHaveBeenCalledWith(expect.objectContaining({
+        id: 42,
+        errorCode: StreamErrorCode.SUBSCRIPTION_LIMIT_EXCEEDED,
+        errorMessage: 'Too many markets',
+        severity: StreamErrorSeverity.FATAL,
+        connectionClosed: false,
+      }));
+      expect(opened.pendingPackets[42]).toBe('REJECTED');
+    });
+
+    it('should report failures to an onStreamError passed to createStreamApiState', async () => {
+      const onStreamError = jest.fn();
+      const state = createStreamApiState(
+        'test-auth-token', 'test-app-key', false, 500, 5000, currencyRate, mockMarketChangeCallback,
+        undefined, undefined, undefined, onStreamError
+      );
+      await openMockedStream(state);
+
+      lineHandler(statusLine({ id: 3, statusCode: 'FAILURE', errorCode: 'INVALID_SESSION_INFORMATION' }));
+
+      expect(onStreamError).toHaveBeenCalledWith(expect.objectContaining({
+        errorCode: StreamErrorCode.INVALID_SESSION_INFORMATION,
+        severity: StreamErrorSeverity.REAUTHENTICATE,
+      }));
+    });
+
+    it('should clear pending packets on success', async () => {
+      const onStreamError = jest.fn();
+      const opened = await openMockedStream({
+        ...initialState,
+        onStreamError,
+        pendingPackets: { 7: 'AWAITING' },
+      });
+
+      lineHandler(statusLine({ id: 7, statusCode: 'SUCCESS' }));
+
+      expect(onStreamError).not.toHaveBeenCalled();
+      expect(opened.pendingPackets[7]).toBeUndefined();
+    });
+
+    it('should report the error and the closed connection when Betfair disconnects', async () => {
+      const onStreamError = jest.fn();
+      const connectionClosedCallback = jest.fn();
+      await openMockedStream({ ...initialState, onStreamError, connectionClosedCallback });
+
+      lineHandler(statusLine({
+        id: 1,
+        statusCode: 'FAILURE',
+        connectionClosed: true,
+        errorCode: 'TIMEOUT',
+        errorMessage: 'Connection timed out',
+      }));
+
+      expect(onStreamError).toHaveBeenCalledWith(expect.objectContaining({
+        errorCode: StreamErrorCode.TIMEOUT,
+        severity: StreamErrorSeverity.RECOVERABLE,
+        connectionClosed: true,
+      }));
+      expect(connectionClosedCallback).toHaveBeenCalledWith(expect.objectContaining({ source: 'status' }));
+    });
+
+    describe('awaitable requests', () => {
+      const lastRequestId = (state: StreamApiState): number => {
+        const writes = (state.tlsSocket!.write as jest.Mock).mock.calls;
+        return JSON.parse(writes[writes.length - 1][0]).id;
+      };
+
+      it('should only mark the stream authenticated once Betfair accepts it', async () => {
+        const opened = await openMockedStream(initialState);
+        const authenticating = authenticateStreamAsync(opened);
+        const id = lastRequestId(opened);
+
+        lineHandler(statusLine({ id, statusCode: 'SUCCESS' }));
+        const authenticated = await authenticating;
+
+        expect(authenticated.authenticationStatus).toBe(true);
+        expect(authenticated.pendingPackets[id]).toBeUndefined();
+        expect(authenticated.pendingRequests.size).toBe(0);
+      });
+
+      it('should keep the clocks from the socket on the state the caller holds', async () => {
+        const opened = await openMockedStream(initialState);
+        const authenticating = authenticateStreamAsync(opened);
+        lineHandler(statusLine({ id: lastRequestId(opened), statusCode: 'SUCCESS' }));
+        let state = subscribeToMarkets(await authenticating, ['1.123']);
+
+        lineHandler(JSON.stringify({ op: 'mcm', id: 1, initialClk: 'init-1', clk: 'clk-1', pt: 1, ct: 'SUB_IMAGE', mc: [] }));
+        lineHandler(JSON.stringify({ op: 'mcm', id: 1, clk: 'clk-2', pt: 2, ct: 'HEARTBEAT' }));
+
+        expect(state.streamDecoder.clocks.market).toEqual({ initialClk: 'init-1', clk: 'clk-2' });
+
+        state = resumeMarketSubscription(state);
+        const writes = (state.tlsSocket!.write as jest.Mock).mock.calls;
+        expect(JSON.parse(writes[writes.length - 1][0])).toMatchObject({
+          op: 'marketSubscription',
+          marketFilter: { marketIds: ['1.123'] },
+          initialClk: 'init-1',
+          clk: 'clk-2',
+        });
+        closeStream(state);
+      });
+
+      it('should reject with the error code when a subscription fails', async () => {
+        const opened = await openMockedStream(initialState);
+        const subscribing = subscribeToMarketsAsync({ ...opened, authenticationStatus: true }, ['1.123']);
+
+        lineHandler(statusLine({
+          id: lastRequestId(opened),
+          statusCode: 'FAILURE',
+          errorCode: 'SUBSCRIPTION_LIMIT_EXCEEDED',
+          errorMessage: 'Too many markets',
+        }));
+
+        await expect(subscribing).rejects.toBeInstanceOf(StreamRequestError);
+        await expect(subscribing).rejects.toMatchObject({
+          errorCode: StreamErrorCode.SUBSCRIPTION_LIMIT_EXCEEDED,
+        });
+      });
+
+      it('should time out when no reply arrives', async () => {
+        const opened = await openMockedStream(initialState);
+
+        await expect(authenticateStreamAsync(opened, 10)).rejects.toMatchObject({
+          errorCode: StreamErrorCode.TIMEOUT,
+        });
+        expect(opened.pendingRequests.size).toBe(0);
+        expect(Object.values(getLiveStreamState(opened).pendingPackets)).toEqual(['TIMEOUT']);
+      });
+
+      it('should reject outstanding requests when the stream is closed', async () => {
+        const opened = await openMockedStream(initialState);
+        const authenticating = authenticateStreamAsync(opened);
+
+        closeStream(opened);
+
+        await expect(authenticating).rejects.toMatchObject({
+          errorCode: StreamErrorCode.CONNECTION_FAILED,
+        });
+      });
+    });
+
+    it('should classify stream error codes', () => {
+      expect(getStreamErrorSeverity(StreamErrorCode.INVALID_APP_KEY)).toBe(StreamErrorSeverity.FATAL);
+      expect(getStreamErrorSeverity(StreamErrorCode.INVALID_INPUT)).toBe(StreamErrorSeverity.FATAL);
+      expect(getStreamErrorSeverity(StreamErrorCode.NO_SESSION)).toBe(StreamErrorSeverity.REAUTHENTICATE);
+      expect(getStreamErrorSeverity(StreamErrorCode.INVALID_SESSION_INFORMATION)).toBe(
+        StreamErrorSeverity.REAUTHENTICATE
+      );
+      expect(getStreamErrorSeverity(StreamErrorCode.INVALID_CLOCK)).toBe(StreamErrorSeverity.RECOVERABLE);
+      expect(getStreamErrorSeverity(StreamErrorCode.MAX_CONNECTION_LIMIT_EXCEEDED)).toBe(
+        StreamErrorSeverity.RECOVERABLE
+      );
+      expect(getStreamErrorSeverity('SOMETHING_NEW')).toBe(StreamErrorSeverity.RECOVERABLE);
+    });
+  });
+});
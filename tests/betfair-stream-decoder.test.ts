@@ -8,6 +8,9 @@ import {
   updateSubscribedMarkets,
   getMarketCache,
   resetStreamDecoder,
+  mergePriceLadder,
+  mergeLevelLadder,
+  getSubscriptionClocks,
 } from '../src/betfair-stream-decoder';
 
 import {
@@ -440,4 +443,142 @@ describe('Stream Decoder Functions', () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('Ladder Delta Merging', () => {
+    const sendRunnerChange = (
+      state: StreamDecoderState,
+      rc: object,
+      img = false
+    ): StreamDecoderState =>
+      processDataPacket(
+        state,
+        mockCallbacks,
+        JSON.stringify({
+          id: 5,
+          op: 'mcm',
+          ct: img ? 'SUB_IMAGE' : undefined,
+          pt: Date.now(),
+          mc: [{ id: '1.123456', rc: [{ id: 123456, ...rc }], img }],
+        })
+      );
+
+    it('should merge price-keyed deltas and remove zero-size prices', () => {
+      expect(mergePriceLadder([[2.0, 10], [2.02, 20]], [[2.0, 0], [2.04, 5]])).toEqual([
+        [2.02, 20],
+        [2.04, 5],
+      ]);
+      expect(mergePriceLadder([[2.0, 10]], [[2.02, 5]], 'desc')).toEqual([
+        [2.02, 5],
+        [2.0, 10],
+      ]);
+    });
+
+    it('should merge level-keyed deltas and remove zero-size levels', () => {
+      const merged = mergeLevelLadder(
+        [[0, 3.4, 100], [1, 3.3, 200], [2, 3.25, 50]],
+        [[0, 3.45, 20], [2, 3.25, 0]]
+      );
+      expect(merged).toEqual([[0, 3.45, 20], [1, 3.3, 200]]);
+    });
+
+    it('should apply atb/atl/batb/batl updates incrementally', () => {
+      let state = sendRunnerChange(
+        initialState,
+        {
+          atb: [[3.4, 100], [3.3, 200]],
+          atl: [[3.6, 150], [3.7, 300]],
+          batb: [[0, 3.4, 100], [1, 3.3, 200]],
+          batl: [[0, 3.6, 150], [1, 3.7, 300]],
+        },
+        true
+      );
+
+      state = sendRunnerChange(state, {
+        atb: [[3.4, 0], [3.35, 40]],
+        atl: [[3.6, 80]],
+        batb: [[0, 3.35, 40], [1, 3.3, 200]],
+        batl: [[1, 3.7, 0]],
+      });
+
+      const runner = state.marketCache['1.123456']!.runners['123456']!;
+      expect(runner.atb).toEqual([[3.35, 40], [3.3, 200]]);
+      expect(runner.atl).toEqual([[3.6, 80], [3.7, 300]]);
+      expect(runner.batb).toEqual([[0, 3.35, 40], [1, 3.3, 200]]);
+      expect(runner.batl).toEqual([[0, 3.6, 150]]);
+    });
+
+    it('should merge display ladders and traded volume', () => {
+      let state = sendRunnerChange(initialState, {
+        bdatb: [[0, 2.5, 10]],
+        trd: [[2.5, 10]],
+      });
+      state = sendRunnerChange(state, {
+        bdatb: [[1, 2.48, 5]],
+        trd: [[2.52, 4]],
+      });
+
+      const runner = state.marketCache['1.123456']!.runners['123456']!;
+      expect(runner.bdatb).toEqual([[0, 2.5, 10], [1, 2.48, 5]]);
+      expect(runner.trd).toEqual([[2.5, 10], [2.52, 4]]);
+    });
+
+    it('should replace cached ladders when a full image arrives', () => {
+      let state = sendRunnerChange(initialState, {
+        atb: [[3.4, 100], [3.3, 200]],
+        batb: [[0, 3.4, 100], [1, 3.3, 200]],
+      });
+      state = sendRunnerChange(
+        state,
+        {
+          atb: [[3.2, 10]],
+          batb: [[0, 3.2, 10]],
+        },
+        true
+      );
+
+      const runner = state.marketCache['1.123456']!.runners['123456']!;
+      expect(runner.atb).toEqual([[3.2, 10]]);
+      expect(runner.batb).toEqual([[0, 3.2, 10]]);
+    });
+  });
+
+  describe('Clock Tracking', () => {
+    it('should track initialClk and clk from market change messages', () => {
+      let state = processDataPacket(
+        initialState,
+        mockCallbacks,
+        JSON.stringify({ id: 1, op: 'mcm', ct: 'SUB_IMAGE', initialClk: 'init-1', clk: 'clk-1', pt: 1, mc: [] })
+      );
+      state = processDataPacket(
+        state,
+        mockCallbacks,
+        JSON.stringify({ id: 1, op: 'mcm', ct: 'HEARTBEAT', clk: 'clk-2', pt: 2 })
+      );
+
+      expect(getSubscriptionClocks(state).market).toEqual({ initialClk: 'init-1', clk: 'clk-2' });
+      expect(getSubscriptionClocks(state).order).toEqual({});
+    });
+
+    it('should track order clocks separately from market clocks', () => {
+      const state = processDataPacket(
+        initialState,
+        mockCallbacks,
+        JSON.stringify({ id: 2, op: 'ocm', ct: 'SUB_IMAGE', initialClk: 'o-init', clk: 'o-clk', pt: 1, oc: [] })
+      );
+
+      expect(getSubscriptionClocks(state).order).toEqual({ initialClk: 'o-init', clk: 'o-clk' });
+      expect(getSubscriptionClocks(state).market).toEqual({});
+    });
+
+    it('should reset clocks with the caches they describe', () => {
+      const state = processDataPacket(
+        initialState,
+        mockCallbacks,
+        JSON.stringify({ id: 1, op: 'mcm', initialClk: 'init-1', clk: 'clk-1', pt: 1, mc: [] })
+      );
+
+      expect(getSubscriptionClocks(clearMarketCache(state)).market).toEqual({});
+      expect(getSubscriptionClocks(resetStreamDecoder(state)).market).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import {
+  calculateHedgeStake,
+  calculateRunnerHedge,
+  calculateMarketHedge,
+  calculateCurrentOrdersHedge,
+  createOrderCacheFromCurrentOrders,
+} from '../src/hedging';
+
+import { calculateRunnerPosition } from '../src/position-engine';
+
+import {
+  CurrentOrderSummary,
+  OrderType,
+  OrderStatus,
+  PersistenceType,
+  Side,
+} from '../src/betfair-api-types';
+
+import {
+  MarketCache,
+  OrderAccountCache,
+  RunnerCache,
+  StreamRunnerStatus,
+} from '../src/betfair-exchange-stream-api-types';
+
+const createRunnerCache = (id: number, overrides: Partial<RunnerCache> = {}): RunnerCache => ({
+  id,
+  status: StreamRunnerStatus.ACTIVE,
+  batb: [],
+  batl: [],
+  atb: [],
+  atl: [],
+  ltp: 0,
+  lastPriceTraded: 0,
+  ...overrides,
+} as unknown as RunnerCache);
+
+const createMarketCache = (runners: RunnerCache[]): MarketCache => ({
+  marketId: '1.123',
+  marketDefinition: {
+    numberOfWinners: 1,
+    runners: runners.map(runner => ({ id: runner.id, status: runner.status })),
+  },
+  runners: Object.fromEntries(runners.map(runner => [runner.id.toString(), runner])),
+} as unknown as MarketCache);
+
+const createOrderCache = (): OrderAccountCache => ({
+  marketId: '1.123',
+  closed: false,
+  published: 0,
+  runners: {
+    '11': {
+      id: 11,
+      unmatchedOrders: {},
+      matchedBacks: [[3, 10]],
+      matchedLays: [],
+      strategyMatches: { scalper: { mb: [[3, 10]], ml: [] } },
+    },
+    '22': {
+      id: 22,
+      unmatchedOrders: {},
+      matchedBacks: [],
+      matchedLays: [[4, 10]],
+      strategyMatches: {},
+    },
+  },
+});
+
+const createCurrentOrder = (overrides: Partial<CurrentOrderSummary>): CurrentOrderSummary => ({
+  betId: '1',
+  marketId: '1.123',
+  selectionId: 11,
+  handicap: 0,
+  priceSize: { price: 3, size: 10 },
+  bspLiability: 0,
+  side: Side.BACK,
+  status: OrderStatus.EXECUTION_COMPLETE,
+  persistenceType: PersistenceType.LAPSE,
+  orderType: OrderType.LIMIT,
+  placedDate: '2024-01-01T00:00:00.000Z',
+  sizeMatched: 10,
+  averagePriceMatched: 3,
+  ...overrides,
+});
+
+describe('Hedging', () => {
+  const marketCache = createMarketCache([
+    createRunnerCache(11, { batb: [[0, 2.48, 100]], batl: [[0, 2.5, 100]] }),
+    createRunnerCache(22, { batb: [[0, 5, 100]], batl: [[0, 5.1, 100]] }),
+  ]);
+
+  describe('calculateHedgeStake', () => {
+    it('should lay a net back position and back a net lay position', () => {
+      expect(calculateHedgeStake(20, -10, 2.5)).toEqual({ side: Side.LAY, stake: 12 });
+      expect(calculateHedgeStake(-30, 10, 5)).toEqual({ side: Side.BACK, stake: 8 });
+      expect(calculateHedgeStake(20, -10, 2.5, 0.5).stake).toBeCloseTo(6);
+    });
+  });
+
+  describe('calculateRunnerHedge', () => {
+    it('should equalise if-win and if-lose P&L', () => {
+      const hedge = calculateRunnerHedge(calculateRunnerPosition(11, [[3, 10]], []), 2.5);
+
+      expect(hedge).toMatchObject({ side: Side.LAY, price: 2.5, stake: 12 });
+      expect(hedge?.ifWinAfter).toBeCloseTo(2);
+      expect(hedge?.ifLoseAfter).toBeCloseTo(2);
+    });
+
+    it('should round the price to a valid tick towards matching', () => {
+      const position = calculateRunnerPosition(11, [[3, 10]], []);
+
+      expect(calculateRunnerHedge(position, 2.51)?.price).toBe(2.52);
+      expect(calculateRunnerHedge(calculateRunnerPosition(11, [], [[4, 10]]), 5.05)?.price).toBe(5);
+    });
+
+    it('should round stakes to cents and skip hedges below the minimum stake', () => {
+      const position = calculateRunnerPosition(11, [[3, 10]], []);
+
+      expect(calculateRunnerHedge(position, 2.6)?.stake).toBe(11.54);
+      expect(calculateRunnerHedge(position, 2.62)?.stake).toBe(11.45);
+      expect(calculateRunnerHedge(position, 2.5, { fraction: 0.1, minimumStake: 2 })).toBeUndefined();
+      expect(calculateRunnerHedge(calculateRunnerPosition(11, [[2, 10]], [[2, 10]]), 2)).toBeUndefined();
+    });
+  });
+
+  describe('calculateMarketHedge', () => {
+    it('should produce place instructions for every runner', () => {
+      const hedge = calculateMarketHedge(createOrderCache(), marketCache);
+
+      expect(hedge.instructions).toEqual([
+        {
+          orderType: OrderType.LIMIT,
+          selectionId: 11,
+          handicap: undefined,
+          side: Side.LAY,
+          limitOrder: { size: 12, price: 2.5, persistenceType: PersistenceType.LAPSE },
+        },
+        {
+          orderType: OrderType.LIMIT,
+          selectionId: 22,
+          handicap: undefined,
+          side: Side.BACK,
+          limitOrder: { size: 8, price: 5, persistenceType: PersistenceType.LAPSE },
+        },
+      ]);
+      expect(hedge.lockedProfit).toBeCloseTo(4);
+      expect(hedge.unpriced).toEqual([]);
+    });
+
+    it('should cash out a fraction of one strategy', () => {
+      const hedge = calculateMarketHedge(createOrderCache(), marketCache, {
+        customerStrategyRef: 'scalper',
+        fraction: 0.5,
+        persistenceType: PersistenceType.PERSIST,
+      });
+
+      expect(hedge.hedges).toHaveLength(1);
+      expect(hedge.instructions[0]?.limitOrder).toEqual({
+        size: 6,
+        price: 2.5,
+        persistenceType: PersistenceType.PERSIST,
+      });
+    });
+
+    it('should report runners without a price to hedge at', () => {
+      const unpricedMarket = createMarketCache([createRunnerCache(11), createRunnerCache(22)]);
+
+      const hedge = calculateMarketHedge(createOrderCache(), unpricedMarket);
+
+      expect(hedge.instructions).toEqual([]);
+      expect(hedge.unpriced).toEqual([11, 22]);
+    });
+  });
+
+  describe('current orders', () => {
+    it('should build matched ladders from listCurrentOrders results', () => {
+      const orders = [
+        createCurrentOrder({ customerStrategyRef: 'scalper' }),
+        createCurrentOrder({ betId: '2', selectionId: 22, side: Side.LAY, averagePriceMatched: 4 }),
+        createCurrentOrder({ betId: '3', sizeMatched: 0 }),
+        createCurrentOrder({ betId: '4', marketId: '1.999' }),
+      ];
+
+      const cache = createOrderCacheFromCurrentOrders('1.123', orders);
+
+      expect(cache.runners['11']?.matchedBacks).toEqual([[3, 10]]);
+      expect(cache.runners['11']?.strategyMatches['scalper']?.mb).toEqual([[3, 10]]);
+      expect(cache.runners['22']?.matchedLays).toEqual([[4, 10]]);
+
+      const hedge = calculateCurrentOrdersHedge('1.123', orders, marketCache);
+      expect(hedge.hedges.map(runnerHedge => runnerHedge.stake)).toEqual([12, 8]);
+    });
+  });
+});
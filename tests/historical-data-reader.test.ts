@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { spawnSync } from 'child_process';
+
+import {
+  HistoricalDataLine,
+  HistoricalMarketUpdate,
+  readHistoricalLines,
+  readHistoricalMarketUpdates,
+} from '../src/historical-data-reader';
+
+const TEST_OUTPUT_DIR = path.join(__dirname, 'test-historical');
+const SIMPLE_WINNER = path.join(__dirname, 'data', 'simple-winner.json');
+
+const collect = async <T>(iterator: AsyncGenerator<T>): Promise<T[]> => {
+  const items: T[] = [];
+  for await (const item of iterator) {
+    items.push(item);
+  }
+  return items;
+};
+
+// Minimal ustar archive of regular files
+const createTar = (files: { name: string; content: Buffer }[]): Buffer => {
+  const blocks = files.flatMap(({ name, content }) => {
+    const header = Buffer.alloc(512);
+    header.write(name, 0);
+    header.write('0000644\0', 100);
+    header.write(`${content.length.toString(8).padStart(11, '0')}\0`, 124);
+    header.write('0', 156);
+    header.write('ustar\0', 257);
+    header.write('00', 263);
+    const padding = Buffer.alloc((512 - (content.length % 512)) % 512);
+    return [header, content, padding];
+  });
+  return Buffer.concat([...blocks, Buffer.alloc(1024)]);
+};
+
+describe('Historical Data Reader', () => {
+  const simpleWinner = fs.readFileSync(SIMPLE_WINNER);
+
+  beforeEach(() => {
+    fs.rmSync(TEST_OUTPUT_DIR, { recursive: true, force: true });
+    fs.mkdirSync(TEST_OUTPUT_DIR, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(TEST_OUTPUT_DIR, { recursive: true, force: true });
+  });
+
+  describe('readHistoricalLines', () => {
+    it('should skip blank lines and recording comment headers', async () => {
+      const file = path.join(TEST_OUTPUT_DIR, 'raw_1.111111111.txt');
+      fs.writeFileSync(file, `# Raw market data for market: 1.111111111\n\n${simpleWinner.toString()}`);
+
+      const lines = await collect(readHistoricalLines(file));
+
+      expect(lines).toHaveLength(6);
+      expect(lines.every(line => line.source === file && line.line.startsWith('{"op":"mcm"'))).toBe(true);
+    });
+
+    it('should decompress gzip files', async () => {
+      const file = path.join(TEST_OUTPUT_DIR, '1.111111111.gz');
+      fs.writeFileSync(file, zlib.gzipSync(simpleWinner));
+
+      const lines = await collect(readHistoricalLines(file));
+
+      expect(lines.map(line => line.line)).toEqual(simpleWinner.toString().trim().split('\n'));
+    });
+
+    const hasBzip2 = spawnSync('bzip2', ['--help']).status === 0;
+    (hasBzip2 ? it : it.skip)('should decompress bz2 files', async () => {
+      const file = path.join(TEST_OUTPUT_DIR, '1.111111111.bz2');
+      fs.writeFileSync(file, spawnSync('bzip2', ['-c'], { input: simpleWinner }).stdout);
+
+      const lines = await collect(readHistoricalLines(file));
+
+      expect(lines).toHaveLength(6);
+    });
+
+    it('should read every file in a tar archive', async () => {
+      const file = path.join(TEST_OUTPUT_DIR, 'data.tar');
+      fs.writeFileSync(file, createTar([
+        { name: 'PRO/2023/Nov/15/12345/1.111111111.gz', content: zlib.gzipSync(simpleWinner) },
+        { name: 'PRO/2023/Nov/15/12345/1.222222222', content: Buffer.from('{"op":"mcm","pt":1}\n{"op":"mcm","pt":2}') },
+      ]));
+
+      const lines: HistoricalDataLine[] = await collect(readHistoricalLines(file));
+
+      expect(lines).toHaveLength(8);
+      expect(lines[0]?.source).toBe(`${file}/PRO/2023/Nov/15/12345/1.111111111.gz`);
+      expect(lines[7]).toEqual({ source: `${file}/PRO/2023/Nov/15/12345/1.222222222`, line: '{"op":"mcm","pt":2}' });
+    });
+
+    it('should reject missing files', async () => {
+      await expect(collect(readHistoricalLines(path.join(TEST_OUTPUT_DIR, 'missing.bz2'))))
+        .rejects.toThrow('Historical data file not found');
+    });
+  });
+
+  describe('readHistoricalMarketUpdates', () => {
+    it('should yield each changed market with its publish time and changed runners', async () => {
+      const updates: HistoricalMarketUpdate[] = await collect(readHistoricalMarketUpdates(SIMPLE_WINNER));
+
+      expect(updates.map(update => update.publishTime)).toEqual([
+        1700000000000, 1700000001000, 1700000002000, 1700000003000, 1700000004000, 1700000010000,
+      ]);
+      expect(updates[2]?.changedRunnerIds).toEqual([111]);
+      expect(updates[3]?.changedRunnerIds).toEqual([222]);
+      expect(updates[5]?.market.marketDefinition.status).toBe('CLOSED');
+    });
+
+    it('should decode each file in an archive with a fresh decoder', async () => {
+      const file = path.join(TEST_OUTPUT_DIR, 'data.tar.gz');
+      fs.writeFileSync(file, zlib.gzipSync(createTar([
+        { name: 'a/1.111111111', content: simpleWinner },
+        { name: 'b/1.111111111', content: simpleWinner },
+      ])));
+
+      const updates = await collect(readHistoricalMarketUpdates(file));
+
+      expect(updates).toHaveLength(12);
+      expect(updates[6]?.source).toBe(`${file}/b/1.111111111`);
+      expect(updates[6]?.market.runners).toEqual({});
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import * as zlib from 'zlib';
+import { spawnSync } from 'child_process';
 import {
   createMarketRecorderState,
   startRecording,
@@ -13,6 +15,12 @@ import {
   listRecordedMarkets,
   MarketRecordingConfig,
   registerRecorderProcessCleanup,
+  shutdownRecorderAsync,
+  stopRecordingAsync,
+  resumeRecording,
+  saveRecorderCheckpoint,
+  loadRecorderCheckpoint,
+  getRecordingCompletionStatus,
 } from '../src/market-recorder';
 import {
   MarketCache,
@@ -92,6 +100,8 @@ const createMockMarketCache = (marketId: string, complete = false): MarketCache
       totalMatched: 1000,
       batb: [[0, 2.4, 100]],
       batl: [[0, 2.6, 150]],
+      bdatb: [],
+      bdatl: [],
       atb: [[2.4, 100]],
       atl: [[2.6, 150]],
       ltp: 2.5,
@@ -111,6 +121,8 @@ const createMockMarketCache = (marketId: string, complete = false): MarketCache
       totalMatched: 800,
       batb: [[0, 3.1, 80]],
       batl: [[0, 3.3, 120]],
+      bdatb: [],
+      bdatl: [],
       atb: [[3.1, 80]],
       atl: [[3.3, 120]],
       ltp: 3.2,
@@ -433,4 +445,171 @@ describe('Market Recorder', () => {
       state = stopRecording(state);
     }
   });
-});
\ No newline at end of file
+
+  describe('compressed and rotated raw recordings', () => {
+    const mcm = (pt: number, marketIds: string[]) => JSON.stringify({
+      op: 'mcm',
+      id: 2,
+      clk: `clk${pt}`,
+      pt,
+      mc: marketIds.map(id => ({ id, rc: [{ id: 123, ltp: 2.5 }] })),
+    });
+
+    const readLines = (file: string): string[] => zlib.gunzipSync(fs.readFileSync(path.join(TEST_OUTPUT_DIR, file)))
+      .toString()
+      .split('\n')
+      .filter(line => line);
+
+    test('should write gzip files in the historical data layout', async () => {
+      let state = createMarketRecorderState({ ...config, rawFormat: 'historical', rawCompression: 'gzip' });
+      state = startRecording(state, ['1.123', '1.456']);
+
+      recordRawTransmission(state, JSON.stringify({ op: 'connection', connectionId: 'abc' }));
+      recordRawTransmission(state, mcm(1704067200000, ['1.123', '1.456']));
+      recordRawTransmission(state, JSON.stringify({ op: 'mcm', id: 2, clk: 'hb', pt: 1704067205000, ct: 'HEARTBEAT' }));
+      expect(getRecordingStatus(state, '1.123').rawFilePath).toBe(path.join(TEST_OUTPUT_DIR, 'raw_1.123.gz'));
+      state = await shutdownRecorderAsync(state);
+
+      const lines = readLines('raw_1.123.gz');
+      expect(lines).toHaveLength(1);
+      expect(JSON.parse(lines[0]!)).toEqual({
+        op: 'mcm',
+        clk: 'clk1704067200000',
+        pt: 1704067200000,
+        mc: [{ id: '1.123', rc: [{ id: 123, ltp: 2.5 }] }],
+      });
+      expect(state.rawFileStreams.size).toBe(0);
+      expect(state.closingRawFiles.size).toBe(0);
+    });
+
+    test('should rotate files by size and by publish date', async () => {
+      let state = createMarketRecorderState({
+        ...config,
+        rawFormat: 'historical',
+        rawCompression: 'gzip',
+        rawRotation: { maxBytes: 150, period: 'day' },
+      });
+      state = startRecording(state, ['1.123']);
+
+      recordRawTransmission(state, mcm(Date.UTC(2024, 0, 1, 23, 0), ['1.123']));
+      recordRawTransmission(state, mcm(Date.UTC(2024, 0, 1, 23, 1), ['1.123']));
+      recordRawTransmission(state, mcm(Date.UTC(2024, 0, 1, 23, 2), ['1.123']));
+      recordRawTransmission(state, mcm(Date.UTC(2024, 0, 2, 0, 0), ['1.123']));
+      state = await shutdownRecorderAsync(state);
+
+      expect(readLines('raw_1.123_20240101.gz')).toHaveLength(1);
+      expect(readLines('raw_1.123_20240101_2.gz')).toHaveLength(1);
+      expect(readLines('raw_1.123_20240101_3.gz')).toHaveLength(1);
+      expect(readLines('raw_1.123_20240102.gz')).toHaveLength(1);
+      expect(listRecordedMarkets(config).rawRecords).toEqual(['1.123']);
+    });
+
+    const hasBzip2 = spawnSync('bzip2', ['--help']).status === 0;
+    (hasBzip2 ? test : test.skip)('should write bz2 files', async () => {
+      let state = createMarketRecorderState({ ...config, rawFormat: 'historical', rawCompression: 'bz2' });
+      state = startRecording(state, ['1.123']);
+
+      recordRawTransmission(state, mcm(1704067200000, ['1.123']));
+      state = await shutdownRecorderAsync(state);
+
+      const output = spawnSync('bzip2', ['-dc', path.join(TEST_OUTPUT_DIR, 'raw_1.123.bz2')]).stdout.toString();
+      expect(JSON.parse(output.trim()).pt).toBe(1704067200000);
+    });
+  });
+
+  describe('checkpointing', () => {
+    const checkpointFile = path.join(TEST_OUTPUT_DIR, 'recorder-checkpoint.json');
+    const readCheckpoint = () => JSON.parse(fs.readFileSync(checkpointFile, 'utf-8'));
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('should checkpoint atomically when markets are added', async () => {
+      let state = createMarketRecorderState({ ...config, checkpoint: { enabled: true } });
+      state = startRecording(state, ['1.123', '1.456']);
+
+      expect(readCheckpoint()).toMatchObject({
+        subscribedMarkets: ['1.123', '1.456'],
+        completedMarkets: [],
+        rawFiles: { '1.123': { part: 1, bytesWritten: 0 } },
+      });
+      expect(fs.existsSync(`${checkpointFile}.tmp`)).toBe(false);
+
+      await stopRecordingAsync(state);
+    });
+
+    test('should checkpoint partial basic records on an interval', async () => {
+      jest.useFakeTimers();
+      let state = createMarketRecorderState({ ...config, checkpoint: { enabled: true, intervalMs: 1000 } });
+      state = startRecording(state, ['1.123']);
+      updateBasicRecord(state, createMockMarketCache('1.123'));
+
+      expect(readCheckpoint().basicRecords).toEqual([]);
+      jest.advanceTimersByTime(1000);
+      expect(readCheckpoint().basicRecords.map((record: { marketId: string }) => record.marketId)).toEqual(['1.123']);
+
+      jest.useRealTimers();
+      await stopRecordingAsync(state);
+    });
+
+    test('should resume in-flight markets after a crash', async () => {
+      const checkpointConfig = { ...config, checkpoint: { enabled: true } };
+      const crashed = startRecording(createMarketRecorderState(checkpointConfig), ['1.123', '1.456']);
+      recordRawTransmission(crashed, JSON.stringify({ op: 'mcm', pt: 1, mc: [{ id: '1.123' }] }));
+      updateBasicRecord(crashed, createMockMarketCache('1.123'));
+      updateBasicRecord(crashed, createMockMarketCache('1.456', true));
+      saveRecorderCheckpoint(crashed);
+
+      // Simulate the process dying without stopping the recorder
+      clearInterval(crashed.checkpointTimer);
+      await Promise.all(Array.from(crashed.rawFileStreams.values()).map(stream =>
+        new Promise(resolve => stream.end(resolve))));
+
+      let state = resumeRecording(checkpointConfig);
+
+      expect(state.isRecording).toBe(true);
+      expect(getRecordingCompletionStatus(state).pendingMarkets).toEqual(['1.123']);
+      expect(state.basicRecords.get('1.123')?.complete).toBe(false);
+      expect(Array.from(state.rawFileStreams.keys())).toEqual(['1.123']);
+
+      recordRawTransmission(state, JSON.stringify({ op: 'mcm', pt: 2, mc: [{ id: '1.123' }] }));
+      state = await stopRecordingAsync(state);
+
+      const raw = fs.readFileSync(path.join(TEST_OUTPUT_DIR, 'raw_1.123.txt'), 'utf-8');
+      expect(raw).toContain('"pt":1');
+      expect(raw).toContain('# Resumed at:');
+      expect(raw.indexOf('"pt":2')).toBeGreaterThan(raw.indexOf('"pt":1'));
+      expect(loadRecorderCheckpoint(config)?.completedMarkets).toEqual(['1.456']);
+    });
+
+    test('should resume a compressed recording in a new part', async () => {
+      const checkpointConfig = { ...config, rawFormat: 'historical' as const, rawCompression: 'gzip' as const, checkpoint: { enabled: true } };
+      const crashed = startRecording(createMarketRecorderState(checkpointConfig), ['1.123']);
+      saveRecorderCheckpoint(crashed);
+      clearInterval(crashed.checkpointTimer);
+      await Promise.all(Array.from(crashed.rawFileStreams.values()).map(stream =>
+        new Promise(resolve => stream.end(resolve))));
+
+      // The process died part way through a gzip block
+      const firstPart = path.join(TEST_OUTPUT_DIR, 'raw_1.123.gz');
+      const cutOff = zlib.gzipSync(`${JSON.stringify({ op: 'mcm', pt: 1, mc: [{ id: '1.123' }] })}\n`).subarray(0, -8);
+      fs.writeFileSync(firstPart, cutOff);
+
+      let state = resumeRecording(checkpointConfig);
+      recordRawTransmission(state, JSON.stringify({ op: 'mcm', pt: 2, mc: [{ id: '1.123' }] }));
+      state = await stopRecordingAsync(state);
+
+      expect(fs.readFileSync(firstPart)).toEqual(cutOff);
+      const resumed = zlib.gunzipSync(fs.readFileSync(path.join(TEST_OUTPUT_DIR, 'raw_1.123_2.gz'))).toString().trim().split('\n');
+      expect(resumed.map(line => JSON.parse(line).pt)).toEqual([2]);
+    });
+
+    test('should start fresh without a checkpoint', () => {
+      const state = resumeRecording({ ...config, checkpoint: { enabled: true } });
+
+      expect(state.isRecording).toBe(false);
+      expect(state.subscribedMarkets.size).toBe(0);
+    });
+  });
+});
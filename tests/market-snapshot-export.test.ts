@@ -0,0 +1,159 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {
+  ParquetModule,
+  RunnerSnapshot,
+  SNAPSHOT_COLUMNS,
+  exportMarketSnapshots,
+  formatSnapshotCsvRow,
+  sampleRunnerSnapshots,
+} from '../src/market-snapshot-export';
+import { readHistoricalMarketUpdates } from '../src/historical-data-reader';
+
+const TEST_OUTPUT_DIR = path.join(__dirname, 'test-snapshots');
+const SIMPLE_WINNER = path.join(__dirname, 'data', 'simple-winner.json');
+const START = 1700000000000;
+
+type ParquetReaderModule = ParquetModule & {
+  ParquetReader: {
+    openFile: (filepath: string) => Promise<{
+      getCursor: () => { next: () => Promise<Record<string, unknown> | null> };
+      close: () => Promise<void>;
+    }>;
+  };
+};
+
+// parquetjs-lite is an optional dependency
+const loadParquet = (): ParquetReaderModule | undefined => {
+  try {
+    return require('parquetjs-lite');
+  } catch {
+    return undefined;
+  }
+};
+
+const readParquetRows = async (parquet: ParquetReaderModule, filepath: string): Promise<Record<string, unknown>[]> => {
+  const reader = await parquet.ParquetReader.openFile(filepath);
+  const cursor = reader.getCursor();
+  const rows: Record<string, unknown>[] = [];
+  for (let row = await cursor.next(); row; row = await cursor.next()) {
+    rows.push(row);
+  }
+  await reader.close();
+  return rows;
+};
+
+const collect = async (intervalMs?: number): Promise<RunnerSnapshot[]> => {
+  const snapshots: RunnerSnapshot[] = [];
+  for await (const snapshot of sampleRunnerSnapshots(readHistoricalMarketUpdates(SIMPLE_WINNER), intervalMs)) {
+    snapshots.push(snapshot);
+  }
+  return snapshots;
+};
+
+describe('Market Snapshot Export', () => {
+  afterEach(() => {
+    fs.rmSync(TEST_OUTPUT_DIR, { recursive: true, force: true });
+  });
+
+  describe('sampleRunnerSnapshots', () => {
+    it('should sample the changed runners on every update', async () => {
+      const snapshots = await collect();
+
+      expect(snapshots.map(snapshot => [snapshot.publishTime - START, snapshot.selectionId])).toEqual([
+        [1000, 111], [1000, 222], [1000, 333],
+        [2000, 111],
+        [3000, 222],
+        [4000, 111],
+        [10000, 111], [10000, 222], [10000, 333],
+      ]);
+      expect(snapshots[3]).toMatchObject({
+        marketId: '1.111111111',
+        marketStatus: 'OPEN',
+        inPlay: false,
+        secondsToOff: (Date.parse('2023-11-15T15:00:00.000Z') - START - 2000) / 1000,
+        back1Price: 2,
+        back1Size: 100,
+        back2Price: null,
+        lay1Price: 2.1,
+        lay1Size: 50,
+        ltp: 2,
+        tradedVolume: 50,
+      });
+      expect(snapshots[6]?.marketStatus).toBe('CLOSED');
+    });
+
+    it('should sample every runner at a fixed interval with the latest state', async () => {
+      const snapshots = await collect(2000);
+
+      expect(snapshots.map(snapshot => snapshot.publishTime - START)).toEqual([
+        2000, 2000, 2000, 4000, 4000, 4000, 6000, 6000, 6000, 8000, 8000, 8000, 10000, 10000, 10000,
+      ]);
+      expect(snapshots[6]).toMatchObject({ selectionId: 111, tradedVolume: 100, marketStatus: 'OPEN' });
+      expect(snapshots[12]).toMatchObject({ selectionId: 111, marketStatus: 'CLOSED', runnerStatus: 'WINNER' });
+    });
+
+    it('should take a final sample when the market closes between intervals', async () => {
+      const snapshots = await collect(4000);
+
+      expect(snapshots.map(snapshot => snapshot.publishTime - START)).toEqual([
+        4000, 4000, 4000, 8000, 8000, 8000, 10000, 10000, 10000,
+      ]);
+      expect(snapshots[5]).toMatchObject({ marketStatus: 'OPEN' });
+      expect(snapshots[6]).toMatchObject({ selectionId: 111, marketStatus: 'CLOSED', runnerStatus: 'WINNER' });
+    });
+  });
+
+  describe('formatSnapshotCsvRow', () => {
+    it('should write the columns in order with empty cells for missing values', async () => {
+      const [snapshot] = await collect();
+
+      expect(formatSnapshotCsvRow(snapshot!)).toBe(
+        `${START + 1000},1.111111111,111,OPEN,false,${(Date.parse('2023-11-15T15:00:00.000Z') - START - 1000) / 1000},`
+        + 'ACTIVE,2,100,,,,,2.1,50,,,,,,0,,'
+      );
+    });
+  });
+
+  describe('exportMarketSnapshots', () => {
+    it('should write a CSV file per market', async () => {
+      const result = await exportMarketSnapshots(SIMPLE_WINNER, { outputDirectory: TEST_OUTPUT_DIR, intervalMs: 2000 });
+
+      const csvFile = path.join(TEST_OUTPUT_DIR, '1.111111111_snapshots.csv');
+      expect(result).toEqual({ '1.111111111': { rows: 15, files: [csvFile] } });
+
+      const csv = fs.readFileSync(csvFile, 'utf-8').trim().split('\n');
+      expect(csv[0]).toBe(SNAPSHOT_COLUMNS.join(','));
+      expect(csv).toHaveLength(16);
+    });
+
+    const parquet = loadParquet();
+    (parquet ? it : it.skip)('should write a CSV and a Parquet file per market with parquetjs-lite', async () => {
+      const config = { outputDirectory: TEST_OUTPUT_DIR, intervalMs: 2000, parquet };
+      const result = await exportMarketSnapshots(SIMPLE_WINNER, config);
+
+      const csvFile = path.join(TEST_OUTPUT_DIR, '1.111111111_snapshots.csv');
+      const parquetFile = path.join(TEST_OUTPUT_DIR, '1.111111111_snapshots.parquet');
+      expect(result).toEqual({ '1.111111111': { rows: 15, files: [csvFile, parquetFile] } });
+
+      const rows = parquet ? await readParquetRows(parquet, parquetFile) : [];
+      expect(rows).toHaveLength(15);
+      expect(rows.slice(0, 3).map(row => row.back1Price)).toEqual([2, 3.5, 8]);
+      expect(rows[0]).toMatchObject({ marketId: '1.111111111', inPlay: false });
+      expect(rows[0]).not.toHaveProperty('back2Price'); // Nulls are missing values
+    });
+
+    it('should require the parquetjs-lite module for Parquet output', async () => {
+      await expect(exportMarketSnapshots(SIMPLE_WINNER, { outputDirectory: TEST_OUTPUT_DIR, formats: ['parquet'] }))
+        .rejects.toThrow('Parquet snapshot export requires config.parquet');
+    });
+
+    it('should only write the requested formats', async () => {
+      const result = await exportMarketSnapshots(SIMPLE_WINNER, { outputDirectory: TEST_OUTPUT_DIR, formats: ['csv'] });
+
+      expect(result['1.111111111']?.rows).toBe(9);
+      expect(fs.readdirSync(TEST_OUTPUT_DIR)).toEqual(['1.111111111_snapshots.csv']);
+    });
+  });
+});
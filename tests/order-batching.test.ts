@@ -0,0 +1,211 @@
+import {
+  placeOrdersBatched,
+  cancelOrdersBatched,
+  updateOrdersBatched,
+  chunkInstructions,
+  MAX_PLACE_INSTRUCTIONS,
+} from '../src/order-batching';
+
+import {
+  BetfairApiState,
+  createBetfairApiState,
+  placeOrdersResult,
+  cancelOrdersResult,
+  updateOrdersResult,
+} from '../src/betfair-api';
+
+import {
+  PlaceInstruction,
+  CancelInstruction,
+  UpdateInstruction,
+  OrderType,
+  Side,
+  PersistenceType,
+  ExecutionReportStatus,
+  ExecutionReportErrorCode,
+  InstructionReportStatus,
+} from '../src/betfair-api-types';
+
+import { BetfairThrottlingError } from '../src/betfair-api-errors';
+
+jest.mock('axios');
+jest.mock('../src/betfair-api', () => ({
+  ...jest.requireActual('../src/betfair-api'),
+  placeOrdersResult: jest.fn(),
+  cancelOrdersResult: jest.fn(),
+  updateOrdersResult: jest.fn(),
+}));
+
+const mockedPlaceOrdersResult = jest.mocked(placeOrdersResult);
+const mockedCancelOrdersResult = jest.mocked(cancelOrdersResult);
+const mockedUpdateOrdersResult = jest.mocked(updateOrdersResult);
+
+const createPlaceInstructions = (count: number): PlaceInstruction[] =>
+  Array.from({ length: count }, (_, i) => ({
+    orderType: OrderType.LIMIT,
+    selectionId: i + 1,
+    side: Side.BACK,
+    limitOrder: { size: 2, price: 3, persistenceType: PersistenceType.LAPSE },
+  }));
+
+const successfulPlace = async (
+  _state: BetfairApiState,
+  marketId: string,
+  instructions: PlaceInstruction[],
+  customerRef: string
+): Promise<any> => ({
+  customerRef,
+  marketId,
+  status: ExecutionReportStatus.SUCCESS,
+  instructionReports: instructions.map(instruction => ({
+    status: InstructionReportStatus.SUCCESS,
+    instruction,
+    betId: `bet-${instruction.selectionId}`,
+  })),
+});
+
+describe('Order Batching', () => {
+  let apiState: BetfairApiState;
+
+  beforeEach(() => {
+    apiState = { ...createBetfairApiState('en', 'AUD', 0, 5000, jest.fn()), appKey: 'app-key', sessionKey: 'session' };
+    mockedPlaceOrdersResult.mockReset();
+    mockedCancelOrdersResult.mockReset();
+    mockedUpdateOrdersResult.mockReset();
+  });
+
+  describe('chunkInstructions', () => {
+    it('should split instructions into chunks of at most the given size', () => {
+      expect(chunkInstructions([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    });
+
+    it('should reject invalid sizes', () => {
+      expect(() => chunkInstructions([1], 0)).toThrow('Batch size must be a positive integer');
+    });
+  });
+
+  describe('placeOrdersBatched', () => {
+    it('should split place instructions at the 200 instruction limit and merge the reports', async () => {
+      mockedPlaceOrdersResult.mockImplementation(successfulPlace);
+
+      const instructions = createPlaceInstructions(450);
+      const report = await placeOrdersBatched(apiState, '1.123', instructions, { customerRef: 'ref' });
+
+      expect(mockedPlaceOrdersResult).toHaveBeenCalledTimes(3);
+      const sentSizes = mockedPlaceOrdersResult.mock.calls.map(call => (call[2] as PlaceInstruction[]).length);
+      expect(sentSizes).toEqual([MAX_PLACE_INSTRUCTIONS, MAX_PLACE_INSTRUCTIONS, 50]);
+      expect(mockedPlaceOrdersResult.mock.calls.map(call => call[3])).toEqual(['ref-1', 'ref-2', 'ref-3']);
+
+      expect(report.status).toBe(ExecutionReportStatus.SUCCESS);
+      expect(report.batchCount).toBe(3);
+      expect(report.customerRef).toBe('ref');
+      expect(report.instructionReports).toHaveLength(450);
+      expect(report.results).toHaveLength(450);
+      report.results.forEach((result, index) => {
+        expect(result.index).toBe(index);
+        expect(result.instruction).toBe(instructions[index]);
+        expect(result.report?.betId).toBe(`bet-${index + 1}`);
+      });
+    });
+
+    it('should send a single request unchanged when within the limit', async () => {
+      mockedPlaceOrdersResult.mockImplementation(successfulPlace);
+
+      await placeOrdersBatched(apiState, '1.123', createPlaceInstructions(5), {
+        customerRef: 'ref',
+        customerStrategyRef: 'strategy',
+        marketVersion: 7,
+      });
+
+      expect(mockedPlaceOrdersResult).toHaveBeenCalledWith(
+        apiState, '1.123', expect.any(Array), 'ref', 7, 'strategy', false
+      );
+    });
+
+    it('should never exceed the configured concurrency', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockedPlaceOrdersResult.mockImplementation(async (state, marketId, instructions, customerRef) => {
+        inFlight += 1;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setImmediate(resolve));
+        inFlight -= 1;
+        return successfulPlace(state, marketId, instructions, customerRef);
+      });
+
+      await placeOrdersBatched(apiState, '1.123', createPlaceInstructions(10), { batchSize: 1, concurrency: 2 });
+
+      expect(mockedPlaceOrdersResult).toHaveBeenCalledTimes(10);
+      expect(maxInFlight).toBe(2);
+    });
+
+    it('should report partial failure and map failed requests back to their instructions', async () => {
+      const throttled = new BetfairThrottlingError('placeOrders failed: TOO_MANY_REQUESTS', 'TOO_MANY_REQUESTS');
+      mockedPlaceOrdersResult
+        .mockImplementationOnce(successfulPlace)
+        .mockRejectedValueOnce(throttled);
+
+      const report = await placeOrdersBatched(apiState, '1.123', createPlaceInstructions(4), {
+        batchSize: 2,
+        concurrency: 1,
+      });
+
+      expect(report.status).toBe(ExecutionReportStatus.PROCESSED_WITH_ERRORS);
+      expect(report.instructionReports).toHaveLength(2);
+      expect(report.results[1]).toMatchObject({ index: 1, batch: 0, error: undefined });
+      expect(report.results[2]).toMatchObject({ index: 2, batch: 1, report: undefined, error: throttled });
+    });
+
+    it('should fail when every request fails and keep the first error code', async () => {
+      mockedPlaceOrdersResult.mockResolvedValue({
+        status: ExecutionReportStatus.FAILURE,
+        errorCode: ExecutionReportErrorCode.INSUFFICIENT_FUNDS,
+      } as any);
+
+      const report = await placeOrdersBatched(apiState, '1.123', createPlaceInstructions(3), { batchSize: 2 });
+
+      expect(report.status).toBe(ExecutionReportStatus.FAILURE);
+      expect(report.errorCode).toBe(ExecutionReportErrorCode.INSUFFICIENT_FUNDS);
+      expect(report.results.every(result => result.report === undefined)).toBe(true);
+    });
+
+    it('should reject empty instruction lists', async () => {
+      await expect(placeOrdersBatched(apiState, '1.123', [])).rejects.toThrow('Instructions are required');
+    });
+  });
+
+  describe('cancel and update', () => {
+    it('should cap cancel batches at 60 instructions', async () => {
+      mockedCancelOrdersResult.mockImplementation(async (_state, _marketId, instructions) => ({
+        status: ExecutionReportStatus.SUCCESS,
+        instructionReports: instructions.map(instruction => ({
+          status: InstructionReportStatus.SUCCESS,
+          instruction,
+          sizeCancelled: 2,
+        })),
+      }));
+
+      const instructions: CancelInstruction[] = Array.from({ length: 130 }, (_, i) => ({ betId: `${i}` }));
+      const report = await cancelOrdersBatched(apiState, '1.123', instructions, { batchSize: 500 });
+
+      expect(mockedCancelOrdersResult).toHaveBeenCalledTimes(3);
+      expect(report.instructionReports.map(instructionReport => instructionReport.instruction.betId))
+        .toEqual(instructions.map(instruction => instruction.betId));
+    });
+
+    it('should report a timeout when some update batches time out', async () => {
+      mockedUpdateOrdersResult
+        .mockResolvedValueOnce({ status: ExecutionReportStatus.SUCCESS, instructionReports: [] })
+        .mockResolvedValueOnce({ status: ExecutionReportStatus.TIMEOUT });
+
+      const instructions: UpdateInstruction[] = Array.from({ length: 61 }, (_, i) => ({
+        betId: `${i}`,
+        newPersistenceType: PersistenceType.PERSIST,
+      }));
+      const report = await updateOrdersBatched(apiState, '1.123', instructions, { concurrency: 1 });
+
+      expect(report.batchCount).toBe(2);
+      expect(report.status).toBe(ExecutionReportStatus.TIMEOUT);
+    });
+  });
+});
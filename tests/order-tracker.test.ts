@@ -0,0 +1,235 @@
+import {
+  OrderTrackerState,
+  OrderEvent,
+  OrderEventType,
+  OrderLifecycleStatus,
+  createOrderTracker,
+  trackPlaceInstructions,
+  applyPlaceExecutionReport,
+  applyUnmatchedOrder,
+  createTrackingOrderChangeCallback,
+  getTrackedOrder,
+  getTrackedOrders,
+  getStreamOrderStatus,
+  isOrderComplete,
+} from '../src/order-tracker';
+
+import {
+  PlaceInstruction,
+  PlaceExecutionReport,
+  OrderType,
+  Side,
+  PersistenceType,
+  ExecutionReportStatus,
+  InstructionReportStatus,
+  InstructionReportErrorCode,
+  OrderStatus,
+} from '../src/betfair-api-types';
+
+import {
+  UnmatchedOrder,
+  OrderAccountCache,
+  OrderSide,
+  StreamOrderStatus,
+  StreamPersistenceType,
+  StreamOrderType,
+} from '../src/betfair-exchange-stream-api-types';
+
+const createInstruction = (selectionId: number, customerOrderRef?: string): PlaceInstruction => ({
+  orderType: OrderType.LIMIT,
+  selectionId,
+  side: Side.BACK,
+  limitOrder: { size: 10, price: 2.5, persistenceType: PersistenceType.LAPSE },
+  customerOrderRef,
+});
+
+const createStreamOrder = (overrides: Partial<UnmatchedOrder> = {}): UnmatchedOrder => ({
+  id: 'bet-1',
+  p: 2.5,
+  s: 10,
+  side: OrderSide.BACK,
+  status: StreamOrderStatus.EXECUTABLE,
+  pt: StreamPersistenceType.LAPSE,
+  ot: StreamOrderType.LIMIT,
+  pd: 1700000000000,
+  sm: 0,
+  sr: 10,
+  sl: 0,
+  sc: 0,
+  sv: 0,
+  ...overrides,
+});
+
+const createReport = (instruction: PlaceInstruction, overrides: object = {}): PlaceExecutionReport => ({
+  marketId: '1.123',
+  status: ExecutionReportStatus.SUCCESS,
+  instructionReports: [
+    {
+      status: InstructionReportStatus.SUCCESS,
+      orderStatus: OrderStatus.EXECUTABLE,
+      instruction,
+      betId: 'bet-1',
+      sizeMatched: 0,
+      ...overrides,
+    },
+  ],
+});
+
+describe('Order Tracker', () => {
+  let tracker: OrderTrackerState;
+  let events: OrderEvent[];
+
+  beforeEach(() => {
+    events = [];
+    tracker = createOrderTracker(event => events.push(event));
+  });
+
+  it('should follow an order from pending to execution complete', () => {
+    const instruction = createInstruction(11, 'ref-1');
+    const [order] = trackPlaceInstructions(tracker, '1.123', [instruction]);
+    expect(order?.status).toBe(OrderLifecycleStatus.PENDING);
+
+    applyPlaceExecutionReport(tracker, createReport(instruction), [order as any]);
+    expect(getTrackedOrder(tracker, 'ref-1')).toMatchObject({
+      betId: 'bet-1',
+      status: OrderLifecycleStatus.EXECUTABLE,
+    });
+
+    applyUnmatchedOrder(tracker, '1.123', 11, createStreamOrder({ sm: 4, sr: 6, rfo: 'ref-1' }));
+    expect(getTrackedOrder(tracker, 'bet-1')?.status).toBe(OrderLifecycleStatus.PARTIALLY_MATCHED);
+
+    applyUnmatchedOrder(tracker, '1.123', 11, createStreamOrder({
+      status: StreamOrderStatus.EXECUTION_COMPLETE,
+      sm: 10,
+      sr: 0,
+      avp: 2.5,
+      rfo: 'ref-1',
+    }));
+
+    const completed = getTrackedOrder(tracker, 'bet-1');
+    expect(completed).toMatchObject({ status: OrderLifecycleStatus.EXECUTION_COMPLETE, sizeMatched: 10 });
+    expect(isOrderComplete(completed as any)).toBe(true);
+    expect(getTrackedOrders(tracker)).toHaveLength(1);
+
+    expect(events.map(event => event.type)).toEqual([
+      OrderEventType.SUBMITTED,
+      OrderEventType.ACCEPTED,
+      OrderEventType.STATUS_CHANGED,
+      OrderEventType.MATCHED,
+      OrderEventType.STATUS_CHANGED,
+      OrderEventType.MATCHED,
+      OrderEventType.STATUS_CHANGED,
+    ]);
+    expect(events[events.length - 1]?.previousStatus).toBe(OrderLifecycleStatus.PARTIALLY_MATCHED);
+  });
+
+  it('should link a stream update that arrives before the execution report by customer order ref', () => {
+    const instruction = createInstruction(11, 'ref-1');
+    const orders = trackPlaceInstructions(tracker, '1.123', [instruction]);
+
+    applyUnmatchedOrder(tracker, '1.123', 11, createStreamOrder({ sm: 4, sr: 6, rfo: 'ref-1' }));
+    applyPlaceExecutionReport(tracker, createReport(instruction), orders);
+
+    const order = getTrackedOrder(tracker, 'bet-1');
+    expect(order?.customerOrderRef).toBe('ref-1');
+    expect(order?.status).toBe(OrderLifecycleStatus.PARTIALLY_MATCHED);
+    expect(order?.sizeMatched).toBe(4);
+  });
+
+  it('should merge an order seen on the stream first when the report has no customer order ref', () => {
+    const instruction = createInstruction(11);
+    const orders = trackPlaceInstructions(tracker, '1.123', [instruction]);
+
+    applyUnmatchedOrder(tracker, '1.123', 11, createStreamOrder({ sm: 2, sr: 8 }));
+    expect(getTrackedOrders(tracker)).toHaveLength(2);
+
+    applyPlaceExecutionReport(tracker, createReport(instruction), orders);
+
+    expect(getTrackedOrders(tracker)).toHaveLength(1);
+    expect(getTrackedOrder(tracker, 'bet-1')?.sizeMatched).toBe(2);
+  });
+
+  it('should mark failed placements as rejected', () => {
+    const instruction = createInstruction(11, 'ref-1');
+    const orders = trackPlaceInstructions(tracker, '1.123', [instruction]);
+
+    applyPlaceExecutionReport(tracker, createReport(instruction, {
+      status: InstructionReportStatus.FAILURE,
+      errorCode: InstructionReportErrorCode.INVALID_BET_SIZE,
+      betId: undefined,
+    }), orders);
+
+    expect(getTrackedOrder(tracker, 'ref-1')).toMatchObject({
+      status: OrderLifecycleStatus.REJECTED,
+      errorCode: InstructionReportErrorCode.INVALID_BET_SIZE,
+    });
+    expect(events[events.length - 1]?.type).toBe(OrderEventType.REJECTED);
+  });
+
+  it('should leave timed out placements pending', () => {
+    const instruction = createInstruction(11, 'ref-1');
+    const orders = trackPlaceInstructions(tracker, '1.123', [instruction]);
+
+    applyPlaceExecutionReport(tracker, createReport(instruction, {
+      status: InstructionReportStatus.TIMEOUT,
+      betId: undefined,
+    }), orders);
+
+    expect(getTrackedOrder(tracker, 'ref-1')?.status).toBe(OrderLifecycleStatus.PENDING);
+  });
+
+  it('should ignore a late execution report after the stream reported a newer status', () => {
+    const instruction = createInstruction(11, 'ref-1');
+    const orders = trackPlaceInstructions(tracker, '1.123', [instruction]);
+
+    applyUnmatchedOrder(tracker, '1.123', 11, createStreamOrder({
+      status: StreamOrderStatus.EXECUTION_COMPLETE,
+      sr: 0,
+      sc: 10,
+      rfo: 'ref-1',
+    }));
+    applyPlaceExecutionReport(tracker, createReport(instruction), orders);
+
+    expect(getTrackedOrder(tracker, 'ref-1')?.status).toBe(OrderLifecycleStatus.CANCELLED);
+  });
+
+  it('should track orders placed elsewhere from the order stream callback', () => {
+    const originalCallback = jest.fn();
+    const callback = createTrackingOrderChangeCallback(tracker, originalCallback);
+    const orderCache: { [key: string]: OrderAccountCache } = {
+      '1.456': {
+        marketId: '1.456',
+        closed: false,
+        published: 0,
+        runners: {
+          '22': {
+            id: 22,
+            unmatchedOrders: { 'bet-9': createStreamOrder({ id: 'bet-9', side: OrderSide.LAY }) },
+            matchedBacks: [],
+            matchedLays: [],
+            strategyMatches: {},
+          },
+        },
+      },
+    };
+
+    callback(orderCache, ['delta']);
+    callback(orderCache, ['delta']);
+
+    expect(getTrackedOrders(tracker, '1.456')).toEqual([
+      expect.objectContaining({ betId: 'bet-9', selectionId: 22, side: Side.LAY, status: OrderLifecycleStatus.EXECUTABLE }),
+    ]);
+    expect(events.filter(event => event.type === OrderEventType.ACCEPTED)).toHaveLength(1);
+    expect(originalCallback).toHaveBeenCalledWith(orderCache, ['delta']);
+  });
+
+  describe('getStreamOrderStatus', () => {
+    it('should derive terminal statuses from the remaining sizes', () => {
+      const complete = { status: StreamOrderStatus.EXECUTION_COMPLETE, sr: 0 };
+      expect(getStreamOrderStatus(createStreamOrder({ ...complete, sm: 10 }))).toBe(OrderLifecycleStatus.EXECUTION_COMPLETE);
+      expect(getStreamOrderStatus(createStreamOrder({ ...complete, sm: 3, sc: 7 }))).toBe(OrderLifecycleStatus.CANCELLED);
+      expect(getStreamOrderStatus(createStreamOrder({ ...complete, sl: 10 }))).toBe(OrderLifecycleStatus.LAPSED);
+      expect(getStreamOrderStatus(createStreamOrder({ ...complete, sv: 10 }))).toBe(OrderLifecycleStatus.VOIDED);
+    });
+  });
+});
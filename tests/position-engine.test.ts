@@ -0,0 +1,237 @@
+import {
+  MarkPriceSource,
+  calculateRunnerPosition,
+  calculateMarketPosition,
+  calculatePositions,
+  getTotalLiability,
+  getMarkPrice,
+  getBspExposure,
+} from '../src/position-engine';
+
+import {
+  MarketCache,
+  OrderAccountCache,
+  OrderRunnerCache,
+  OrderSide,
+  RunnerCache,
+  StreamOrderStatus,
+  StreamOrderType,
+  StreamPersistenceType,
+  StreamRunnerStatus,
+  UnmatchedOrder,
+} from '../src/betfair-exchange-stream-api-types';
+
+const createOrderRunner = (
+  id: number,
+  matchedBacks: [number, number][],
+  matchedLays: [number, number][],
+  strategyMatches: OrderRunnerCache['strategyMatches'] = {}
+): OrderRunnerCache => ({
+  id,
+  unmatchedOrders: {},
+  matchedBacks,
+  matchedLays,
+  strategyMatches,
+});
+
+const createOrderCache = (runners: OrderRunnerCache[]): OrderAccountCache => ({
+  marketId: '1.123',
+  closed: false,
+  published: 0,
+  runners: Object.fromEntries(runners.map(runner => [runner.id.toString(), runner])),
+});
+
+const createBspOrder = (id: string, side: OrderSide, bsp: number, rfs?: string): UnmatchedOrder => ({
+  id,
+  p: 0,
+  s: 0,
+  bsp,
+  side,
+  status: StreamOrderStatus.EXECUTABLE,
+  pt: StreamPersistenceType.MARKET_ON_CLOSE,
+  ot: StreamOrderType.MARKET_ON_CLOSE,
+  pd: 0,
+  sm: 0,
+  sr: 0,
+  sl: 0,
+  sc: 0,
+  sv: 0,
+  rfs,
+});
+
+const createRunnerCache = (id: number, overrides: Partial<RunnerCache> = {}): RunnerCache => ({
+  id,
+  status: StreamRunnerStatus.ACTIVE,
+  batb: [],
+  batl: [],
+  atb: [],
+  atl: [],
+  ltp: 0,
+  lastPriceTraded: 0,
+  ...overrides,
+} as unknown as RunnerCache);
+
+const createMarketCache = (runners: RunnerCache[], numberOfWinners = 1): MarketCache => ({
+  marketId: '1.123',
+  marketDefinition: {
+    numberOfWinners,
+    runners: runners.map(runner => ({ id: runner.id, status: runner.status })),
+  },
+  runners: Object.fromEntries(runners.map(runner => [runner.id.toString(), runner])),
+} as unknown as MarketCache);
+
+describe('Position Engine', () => {
+  describe('calculateRunnerPosition', () => {
+    it('should combine backs and lays into if-win and if-lose P&L', () => {
+      const position = calculateRunnerPosition(11, [[3, 10], [4, 10]], [[2.5, 10]]);
+
+      expect(position.backStake).toBe(20);
+      expect(position.layStake).toBe(10);
+      expect(position.averageBackPrice).toBeCloseTo(3.5);
+      expect(position.averageLayPrice).toBeCloseTo(2.5);
+      expect(position.ifWin).toBeCloseTo(20 + 30 - 15);
+      expect(position.ifLose).toBeCloseTo(-10);
+    });
+
+    it('should count unmatched BSP orders at their worst case', () => {
+      const position = calculateRunnerPosition(11, [[3, 10]], [], undefined, { backStake: 5, layLiability: 20 });
+
+      expect(position.bspBackStake).toBe(5);
+      expect(position.bspLayLiability).toBe(20);
+      expect(position.ifWin).toBeCloseTo(0);
+      expect(position.ifLose).toBeCloseTo(-15);
+    });
+  });
+
+  describe('calculateMarketPosition', () => {
+    it('should compute outcomes and worst-case liability across runners', () => {
+      const orderCache = createOrderCache([
+        createOrderRunner(11, [[3, 10]], []),
+        createOrderRunner(22, [], [[2, 20]]),
+      ]);
+
+      const position = calculateMarketPosition(orderCache);
+
+      // Runner 11 wins: +20 back, +20 lay kept; runner 22 wins: -10 back, -20 lay; other runner: -10 + 20
+      expect(position.outcomes['11']).toBeCloseTo(40);
+      expect(position.outcomes['22']).toBeCloseTo(-30);
+      expect(position.worstCase).toBeCloseTo(-30);
+      expect(position.bestCase).toBeCloseTo(40);
+      expect(position.liability).toBeCloseTo(30);
+      expect(position.markToMarket).toBeUndefined();
+    });
+
+    it('should only include the field outcome when a runner without a position can win', () => {
+      const orderCache = createOrderCache([
+        createOrderRunner(11, [[2, 10]], []),
+        createOrderRunner(22, [[2, 10]], []),
+      ]);
+      const marketCache = createMarketCache([createRunnerCache(11), createRunnerCache(22)]);
+
+      const position = calculateMarketPosition(orderCache, marketCache);
+
+      expect(position.worstCase).toBeCloseTo(0);
+      expect(position.liability).toBe(0);
+    });
+
+    it('should ignore positions on removed runners', () => {
+      const orderCache = createOrderCache([createOrderRunner(11, [[5, 10]], [])]);
+      const marketCache = createMarketCache([
+        createRunnerCache(11, { status: StreamRunnerStatus.REMOVED }),
+        createRunnerCache(22),
+      ]);
+
+      const position = calculateMarketPosition(orderCache, marketCache);
+
+      expect(position.runners['11']).toBeUndefined();
+      expect(position.liability).toBe(0);
+    });
+
+    it('should treat runners independently in multi-winner markets', () => {
+      const orderCache = createOrderCache([
+        createOrderRunner(11, [[3, 10]], []),
+        createOrderRunner(22, [[3, 10]], []),
+      ]);
+      const marketCache = createMarketCache([createRunnerCache(11), createRunnerCache(22), createRunnerCache(33)], 2);
+
+      const position = calculateMarketPosition(orderCache, marketCache);
+
+      expect(position.worstCase).toBeCloseTo(-20);
+      expect(position.bestCase).toBeCloseTo(40);
+    });
+
+    it('should mark to market at the best closing price', () => {
+      const orderCache = createOrderCache([createOrderRunner(11, [[3, 10]], [])]);
+      const marketCache = createMarketCache([
+        createRunnerCache(11, { batb: [[0, 2.48, 50]], batl: [[0, 2.5, 50]], ltp: 2.6 }),
+        createRunnerCache(22),
+      ]);
+
+      const position = calculateMarketPosition(orderCache, marketCache);
+
+      // Laying 30 / 2.5 = 12 at 2.5 locks in 20 - 18 = -10 + 12 = 2
+      expect(position.runners['11']?.markPrice).toBe(2.5);
+      expect(position.runners['11']?.markToMarket).toBeCloseTo(2);
+      expect(position.markToMarket).toBeCloseTo(2);
+
+      const lastTraded = calculateMarketPosition(orderCache, marketCache, MarkPriceSource.LAST_TRADED);
+      expect(lastTraded.runners['11']?.markPrice).toBe(2.6);
+    });
+
+    it('should calculate a separate position per customer strategy ref', () => {
+      const orderCache = createOrderCache([
+        createOrderRunner(11, [[3, 10]], [[2, 5]], {
+          scalper: { mb: [[3, 10]], ml: [] },
+          hedger: { mb: [], ml: [[2, 5]] },
+        }),
+      ]);
+
+      const position = calculateMarketPosition(orderCache);
+
+      expect(Object.keys(position.strategies).sort()).toEqual(['hedger', 'scalper']);
+      expect(position.strategies['scalper']?.runners['11']?.ifWin).toBeCloseTo(20);
+      expect(position.strategies['hedger']?.runners['11']?.ifWin).toBeCloseTo(-5);
+      expect(position.runners['11']?.ifWin).toBeCloseTo(15);
+    });
+
+    it('should include executable BSP orders in runner and strategy positions', () => {
+      const runner = createOrderRunner(11, [], []);
+      runner.unmatchedOrders = {
+        'bsp-1': createBspOrder('bsp-1', OrderSide.LAY, 30, 'scalper'),
+        'bsp-2': createBspOrder('bsp-2', OrderSide.BACK, 10),
+        'bsp-3': { ...createBspOrder('bsp-3', OrderSide.BACK, 50), status: StreamOrderStatus.EXECUTION_COMPLETE },
+      };
+
+      const position = calculateMarketPosition(createOrderCache([runner]));
+
+      expect(getBspExposure(runner.unmatchedOrders)).toEqual({ backStake: 10, layLiability: 30 });
+      expect(position.runners['11']?.ifWin).toBeCloseTo(-30);
+      expect(position.runners['11']?.ifLose).toBeCloseTo(-10);
+      expect(position.liability).toBeCloseTo(30);
+    });
+  });
+
+  describe('calculatePositions', () => {
+    it('should calculate every market and sum the liability', () => {
+      const orderCache = {
+        '1.123': createOrderCache([createOrderRunner(11, [[3, 10]], [])]),
+        '1.456': { ...createOrderCache([createOrderRunner(22, [], [[4, 10]])]), marketId: '1.456' },
+      };
+
+      const positions = calculatePositions(orderCache);
+
+      expect(positions['1.123']?.liability).toBeCloseTo(10);
+      expect(positions['1.456']?.liability).toBeCloseTo(30);
+      expect(getTotalLiability(positions)).toBeCloseTo(40);
+    });
+  });
+
+  describe('getMarkPrice', () => {
+    it('should fall back to the ladders and then the last traded price', () => {
+      const runner = createRunnerCache(11, { atb: [[2.4, 10], [2.44, 5]], atl: [[2.6, 0]], ltp: 2.5 });
+
+      expect(getMarkPrice(runner, false)).toBe(2.44);
+      expect(getMarkPrice(runner, true)).toBe(2.5);
+    });
+  });
+});
@@ -0,0 +1,322 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Writable } from 'stream';
+
+import {
+  BasicMarketRecord,
+  MarketRecordingConfig,
+  RecorderCheckpoint,
+  createMarketRecorderState,
+  listRecordedMarkets,
+  loadBasicRecord,
+  recordRawTransmission,
+  resumeRecording,
+  saveRecorderCheckpoint,
+  startRecording,
+  stopRecordingAsync,
+  updateBasicRecord,
+} from '../src/market-recorder';
+import {
+  RawRecordingLine,
+  RecorderStorageSink,
+  SqliteDatabase,
+  createFileSystemStorageSink,
+  createSqliteStorageSink,
+} from '../src/recorder-storage';
+import {
+  MarketCache,
+  MarketDefinition,
+  StreamMarketStatus,
+  StreamRunnerStatus,
+} from '../src/betfair-exchange-stream-api-types';
+import { readHistoricalMarketUpdates } from '../src/historical-data-reader';
+
+const TEST_OUTPUT_DIR = path.join(__dirname, 'test-recorder-storage');
+
+const createClosedMarketCache = (marketId: string): MarketCache => ({
+  marketId,
+  marketDefinition: {
+    name: 'Test Race',
+    eventName: 'Test Event',
+    status: StreamMarketStatus.CLOSED,
+    marketTime: '2024-01-01T10:00:00.000Z',
+    openDate: '2024-01-01T09:00:00.000Z',
+    totalMatched: 500,
+    inPlay: false,
+    bspReconciled: true,
+    complete: true,
+    numberOfWinners: 1,
+    runners: [
+      { id: 123, status: StreamRunnerStatus.WINNER, bsp: 2.6 },
+      { id: 456, status: StreamRunnerStatus.LOSER, bsp: 3.1 },
+    ],
+  } as MarketDefinition,
+  runners: {
+    '123': { id: 123, status: StreamRunnerStatus.WINNER, ltp: 2.5, tv: 300, trd: [[2.5, 300]] },
+    '456': { id: 456, status: StreamRunnerStatus.LOSER, ltp: 3.2, tv: 200, trd: [[3.2, 200]] },
+  } as unknown as MarketCache['runners'],
+  totalMatched: 500,
+  lastValueTraded: 2.5,
+  published: 1704067200000,
+});
+
+const mcm = (pt: number, marketIds: string[]) =>
+  JSON.stringify({ op: 'mcm', id: 1, clk: `clk${pt}`, pt, mc: marketIds.map(id => ({ id })) });
+
+// A custom sink that keeps everything in memory
+const createMemoryStorageSink = () => {
+  const lines: (RawRecordingLine & { marketId: string })[] = [];
+  const records = new Map<string, BasicMarketRecord>();
+  let checkpoint: RecorderCheckpoint | null = null;
+
+  const sink: RecorderStorageSink = {
+    openRawStream: marketId => new Writable({
+      objectMode: true,
+      write: (chunk: RawRecordingLine, _encoding, callback) => {
+        lines.push({ marketId, ...chunk });
+        callback();
+      },
+    }),
+    saveBasicRecord: record => {
+      records.set(record.marketId, record);
+    },
+    loadBasicRecord: marketId => records.get(marketId) || null,
+    saveCheckpoint: saved => {
+      checkpoint = saved;
+    },
+    loadCheckpoint: () => checkpoint,
+  };
+
+  return { sink, lines, records };
+};
+
+type SqliteDriver = new (file: string) => SqliteDatabase & { close: () => void };
+
+// better-sqlite3 is an optional dependency, node:sqlite is built in from Node 22.5
+const loadSqlite = (): SqliteDriver | undefined => {
+  try {
+    return require('better-sqlite3');
+  } catch {
+    try {
+      return require('node:sqlite').DatabaseSync;
+    } catch {
+      return undefined;
+    }
+  }
+};
+
+describe('Recorder Storage', () => {
+  let config: MarketRecordingConfig;
+
+  beforeEach(() => {
+    fs.rmSync(TEST_OUTPUT_DIR, { recursive: true, force: true });
+    config = {
+      outputDirectory: TEST_OUTPUT_DIR,
+      enableBasicRecording: true,
+      enableRawRecording: true,
+      rawFilePrefix: 'raw_',
+      rawFormat: 'historical',
+    };
+  });
+
+  afterAll(() => {
+    fs.rmSync(TEST_OUTPUT_DIR, { recursive: true, force: true });
+  });
+
+  describe('createFileSystemStorageSink', () => {
+    it('should save and load basic records and checkpoints', () => {
+      fs.mkdirSync(TEST_OUTPUT_DIR, { recursive: true });
+      const sink = createFileSystemStorageSink(config);
+      const record = { marketId: '1.123', runners: [] } as unknown as BasicMarketRecord;
+
+      sink.saveBasicRecord(record);
+      sink.saveCheckpoint({
+        version: '1.0', savedAt: 'now', subscribedMarkets: ['1.123'], completedMarkets: [], basicRecords: [], rawFiles: {},
+      });
+
+      expect(sink.loadBasicRecord('1.123')).toMatchObject({ marketId: '1.123', recordingMetadata: { recordingType: 'basic' } });
+      expect(sink.loadBasicRecord('1.456')).toBeNull();
+      expect(sink.loadCheckpoint()?.subscribedMarkets).toEqual(['1.123']);
+      expect(fs.readdirSync(TEST_OUTPUT_DIR).sort()).toEqual(['basic_1.123.json', 'recorder-checkpoint.json']);
+      expect(sink.listMarkets?.()).toEqual({ basicRecords: ['1.123'], rawRecords: [] });
+    });
+
+    it('should finish a rotated raw stream once every file is closed', async () => {
+      const sink = createFileSystemStorageSink({ ...config, rawRotation: { maxBytes: 10 } });
+      const stream = sink.openRawStream('1.123', { publishTime: 0 });
+
+      ['{"pt":1}', '{"pt":2}', '{"pt":3}'].forEach((line, index) => stream.write({ line, publishTime: index + 1 }));
+      expect(sink.getRawPosition?.('1.123')).toEqual({
+        path: path.join(TEST_OUTPUT_DIR, 'raw_1.123_3.txt'), periodKey: undefined, part: 3, bytesWritten: 9,
+      });
+
+      await new Promise(resolve => stream.end(resolve));
+
+      expect(sink.getRawPosition?.('1.123')).toBeUndefined();
+      expect(['raw_1.123.txt', 'raw_1.123_2.txt', 'raw_1.123_3.txt']
+        .map(file => fs.readFileSync(path.join(TEST_OUTPUT_DIR, file), 'utf-8'))).toEqual([
+        '{"pt":1}\n', '{"pt":2}\n', '{"pt":3}\n',
+      ]);
+    });
+  });
+
+  describe('rotated recordings', () => {
+    const SIMPLE_WINNER = path.join(__dirname, 'data', 'simple-winner.json');
+
+    const readBack = async (files: string | string[]): Promise<string[]> => {
+      const markets: string[] = [];
+      for await (const { publishTime, market } of readHistoricalMarketUpdates(files)) {
+        markets.push(JSON.stringify({ publishTime, runners: market.runners, definition: market.marketDefinition }));
+      }
+      return markets;
+    };
+
+    it('should replay rotated parts with the books from the earlier parts', async () => {
+      const sink = createFileSystemStorageSink({ ...config, rawRotation: { maxBytes: 10 } });
+      const stream = sink.openRawStream('1.111111111', { publishTime: 0 });
+      const lines = fs.readFileSync(SIMPLE_WINNER, 'utf-8').trim().split('\n');
+
+      lines.forEach(line => stream.write({ line, publishTime: JSON.parse(line).pt }));
+      await new Promise(resolve => stream.end(resolve));
+
+      const parts = lines.map((_, index) =>
+        path.join(TEST_OUTPUT_DIR, `raw_1.111111111${index > 0 ? `_${index + 1}` : ''}.txt`));
+      expect(await readBack(parts)).toEqual(await readBack(SIMPLE_WINNER));
+    });
+  });
+
+  describe('custom sinks', () => {
+    it('should route raw lines, basic records and checkpoints through the sink', async () => {
+      const { sink, lines, records } = createMemoryStorageSink();
+      const customConfig = { ...config, storage: sink, checkpoint: { enabled: true } };
+      let state = startRecording(createMarketRecorderState(customConfig), ['1.123', '1.456']);
+
+      recordRawTransmission(state, mcm(1704067200000, ['1.123', '1.456']));
+      updateBasicRecord(state, createClosedMarketCache('1.456'));
+      expect(saveRecorderCheckpoint(state)).toBe(true);
+      state = await stopRecordingAsync(state);
+
+      expect(lines.map(({ marketId, publishTime }) => [marketId, publishTime])).toEqual([
+        ['1.123', 1704067200000],
+        ['1.456', 1704067200000],
+      ]);
+      expect(JSON.parse(lines[0]!.line).mc).toEqual([{ id: '1.123' }]);
+      expect(records.get('1.456')?.winners).toEqual([123]);
+      expect(loadBasicRecord(customConfig, '1.456')?.complete).toBe(true);
+      expect(sink.loadCheckpoint()).toMatchObject({ subscribedMarkets: ['1.123', '1.456'], completedMarkets: ['1.456'], rawFiles: {} });
+      expect(state.closingRawFiles.size).toBe(0);
+      expect(fs.existsSync(TEST_OUTPUT_DIR)).toBe(false);
+    });
+
+    it('should not list the output directory for sinks that cannot list markets', () => {
+      fs.mkdirSync(TEST_OUTPUT_DIR, { recursive: true });
+      fs.writeFileSync(path.join(TEST_OUTPUT_DIR, 'raw_1.123.txt'), '');
+      const { sink } = createMemoryStorageSink();
+
+      expect(listRecordedMarkets({ ...config, storage: sink })).toEqual({ basicRecords: [], rawRecords: [] });
+    });
+
+    it('should resume pending markets from the sink checkpoint', async () => {
+      const { sink, lines } = createMemoryStorageSink();
+      const customConfig = { ...config, storage: sink, checkpoint: { enabled: true } };
+      const crashed = startRecording(createMarketRecorderState(customConfig), ['1.123', '1.456']);
+      updateBasicRecord(crashed, createClosedMarketCache('1.456'));
+      saveRecorderCheckpoint(crashed);
+      clearInterval(crashed.checkpointTimer);
+
+      let state = resumeRecording(customConfig);
+      recordRawTransmission(state, mcm(1704067205000, ['1.123', '1.456']));
+      state = await stopRecordingAsync(state);
+
+      expect(lines.map(({ marketId }) => marketId)).toEqual(['1.123']);
+    });
+  });
+
+  const Sqlite = loadSqlite();
+  (Sqlite ? describe : describe.skip)('createSqliteStorageSink', () => {
+    const databases: InstanceType<SqliteDriver>[] = [];
+    const open = (): SqliteDatabase => {
+      const database = new Sqlite!(':memory:');
+      databases.push(database);
+      return database;
+    };
+
+    afterEach(() => {
+      databases.splice(0).forEach(database => database.close());
+    });
+
+    it('should store raw messages by market and publish time', async () => {
+      const database = open();
+      const sink = createSqliteStorageSink(database);
+      const stream = sink.openRawStream('1.123', { publishTime: 0 });
+
+      stream.write({ line: mcm(2, ['1.123']), publishTime: 2 });
+      stream.write({ line: mcm(1, ['1.123']), publishTime: 1 });
+      await new Promise(resolve => stream.end(resolve));
+
+      const rows = database.prepare('SELECT publish_time, message FROM raw_messages WHERE market_id = ? ORDER BY publish_time')
+        .all('1.123') as { publish_time: number; message: string }[];
+      expect(rows.map(row => row.publish_time)).toEqual([1, 2]);
+      expect(rows[0]?.message).toBe(mcm(1, ['1.123']));
+    });
+
+    it('should batch raw messages into transactions', async () => {
+      const database = open();
+      const sink = createSqliteStorageSink(database, { batchSize: 2 });
+      const first = sink.openRawStream('1.123', { publishTime: 0 });
+      const second = sink.openRawStream('1.456', { publishTime: 0 });
+      const count = () => (database.prepare('SELECT COUNT(*) AS count FROM raw_messages').get() as { count: number }).count;
+
+      first.write({ line: mcm(1, ['1.123']), publishTime: 1 });
+      expect(count()).toBe(0);
+      second.write({ line: mcm(1, ['1.456']), publishTime: 1 });
+      first.write({ line: mcm(2, ['1.123']), publishTime: 2 });
+      expect(count()).toBe(2);
+
+      await new Promise(resolve => first.end(resolve));
+      expect(count()).toBe(3);
+      second.end();
+    });
+
+    it('should flush pending raw messages before saving a checkpoint', () => {
+      const database = open();
+      const sink = createSqliteStorageSink(database);
+      const stream = sink.openRawStream('1.123', { publishTime: 0 });
+
+      stream.write({ line: mcm(1, ['1.123']), publishTime: 1 });
+      sink.saveCheckpoint({
+        version: '1.0', savedAt: 'now', subscribedMarkets: ['1.123'], completedMarkets: [], basicRecords: [], rawFiles: {},
+      });
+
+      expect(database.prepare('SELECT market_id FROM raw_messages').all()).toEqual([{ market_id: '1.123' }]);
+      stream.destroy();
+    });
+
+    it('should save basic records to the markets and runners tables', async () => {
+      const database = open();
+      const sqliteConfig = { ...config, storage: createSqliteStorageSink(database), checkpoint: { enabled: true } };
+      let state = startRecording(createMarketRecorderState(sqliteConfig), ['1.123']);
+
+      updateBasicRecord(state, createClosedMarketCache('1.123'));
+      state = await stopRecordingAsync(state);
+
+      expect(database.prepare('SELECT market_status, complete FROM markets').all())
+        .toEqual([{ market_status: 'CLOSED', complete: 1 }]);
+      expect(database.prepare('SELECT selection_id, is_winner FROM runners ORDER BY selection_id').all())
+        .toEqual([{ selection_id: 123, is_winner: 1 }, { selection_id: 456, is_winner: 0 }]);
+      expect(loadBasicRecord(sqliteConfig, '1.123')?.winners).toEqual([123]);
+      expect(sqliteConfig.storage.loadCheckpoint()?.completedMarkets).toEqual(['1.123']);
+    });
+
+    it('should list the markets with basic records and raw messages', () => {
+      const sink = createSqliteStorageSink(open());
+      const stream = sink.openRawStream('1.456', { publishTime: 0 });
+
+      stream.write({ line: mcm(1, ['1.456']), publishTime: 1 });
+      sink.saveBasicRecord({ marketId: '1.123', runners: [] } as unknown as BasicMarketRecord);
+
+      expect(listRecordedMarkets({ ...config, storage: sink })).toEqual({ basicRecords: ['1.123'], rawRecords: ['1.456'] });
+      stream.destroy();
+    });
+  });
+});
@@ -0,0 +1,334 @@
+import {
+  RiskManagerState,
+  RiskRejectionReason,
+  RiskLimitError,
+  createRiskManager,
+  activateKillSwitch,
+  resetKillSwitch,
+  recordRealisedPnl,
+  getDailyPnl,
+  checkPlaceInstructions,
+  checkReplaceInstructions,
+  placeOrdersWithRiskLimits,
+} from '../src/risk-limits';
+
+import {
+  BetfairApiState,
+  createBetfairApiState,
+  placeOrdersResult,
+} from '../src/betfair-api';
+
+import {
+  PlaceInstruction,
+  OrderType,
+  PersistenceType,
+  Side,
+  ExecutionReportStatus,
+} from '../src/betfair-api-types';
+
+import {
+  MarketCache,
+  OrderAccountCache,
+  OrderSide,
+  StreamOrderStatus,
+  StreamOrderType,
+  StreamPersistenceType,
+  StreamPriceLadderType,
+  UnmatchedOrder,
+} from '../src/betfair-exchange-stream-api-types';
+
+import { FINEST_PRICE_LADDER } from '../src/utils';
+
+jest.mock('axios');
+jest.mock('../src/betfair-api', () => ({
+  ...jest.requireActual('../src/betfair-api'),
+  placeOrdersResult: jest.fn(),
+}));
+
+const mockedPlaceOrdersResult = jest.mocked(placeOrdersResult);
+
+const createInstruction = (selectionId: number, side: Side, price: number, size: number): PlaceInstruction => ({
+  orderType: OrderType.LIMIT,
+  selectionId,
+  side,
+  limitOrder: { size, price, persistenceType: PersistenceType.LAPSE },
+});
+
+const createUnmatchedOrder = (id: string, side: OrderSide, price: number, size: number, rfs?: string): UnmatchedOrder => ({
+  id,
+  p: price,
+  s: size,
+  side,
+  status: StreamOrderStatus.EXECUTABLE,
+  pt: StreamPersistenceType.LAPSE,
+  ot: StreamOrderType.LIMIT,
+  pd: 0,
+  sm: 0,
+  sr: size,
+  sl: 0,
+  sc: 0,
+  sv: 0,
+  rfs,
+});
+
+const createOrderCache = (): { [marketId: string]: OrderAccountCache } => ({
+  '1.123': {
+    marketId: '1.123',
+    closed: false,
+    published: 0,
+    runners: {
+      '11': {
+        id: 11,
+        unmatchedOrders: { 'bet-1': createUnmatchedOrder('bet-1', OrderSide.LAY, 3, 10, 'scalper') },
+        matchedBacks: [],
+        matchedLays: [[2, 10]],
+        strategyMatches: {},
+      },
+    },
+  },
+});
+
+const marketCache = {
+  marketId: '1.123',
+  marketDefinition: { marketType: 'WIN', eventTypeId: '7', numberOfWinners: 1, runners: [] },
+  runners: {},
+} as unknown as MarketCache;
+
+describe('Risk Limits', () => {
+  let manager: RiskManagerState;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    mockedPlaceOrdersResult.mockReset();
+  });
+
+  describe('checkPlaceInstructions', () => {
+    it('should approve instructions within every limit', () => {
+      manager = createRiskManager({ maxStakePerBet: 50, maxLiabilityPerMarket: 100 });
+      const instructions = [createInstruction(11, Side.BACK, 3, 10)];
+
+      const result = checkPlaceInstructions(manager, '1.123', instructions);
+
+      expect(result).toEqual({ approved: true, instructions, rejections: [], clamped: [] });
+    });
+
+    it('should reject or clamp stakes above the maximum', () => {
+      manager = createRiskManager({ maxStakePerBet: 20 });
+      const instructions = [createInstruction(11, Side.BACK, 3, 10), createInstruction(22, Side.BACK, 3, 50)];
+
+      const rejected = checkPlaceInstructions(manager, '1.123', instructions);
+      expect(rejected.approved).toBe(false);
+      expect(rejected.instructions).toHaveLength(1);
+      expect(rejected.rejections).toEqual([
+        expect.objectContaining({ index: 1, reason: RiskRejectionReason.MAX_STAKE, limit: 20, value: 50 }),
+      ]);
+
+      manager.limits.clampStakes = true;
+      const clamped = checkPlaceInstructions(manager, '1.123', instructions);
+      expect(clamped.approved).toBe(true);
+      expect(clamped.instructions[1]?.limitOrder?.size).toBe(20);
+      expect(clamped.clamped).toEqual([{ index: 1, originalSize: 50, size: 20 }]);
+    });
+
+    it('should reject invalid orders', () => {
+      manager = createRiskManager({});
+
+      const result = checkPlaceInstructions(manager, '1.123', [createInstruction(11, Side.BACK, 1, 10)]);
+
+      expect(result.rejections[0]?.reason).toBe(RiskRejectionReason.INVALID_ORDER);
+    });
+
+    it('should validate prices against the market price ladder', () => {
+      manager = createRiskManager({});
+      const instructions = [createInstruction(11, Side.BACK, 2.51, 10)];
+      const finestMarket = {
+        ...marketCache,
+        marketDefinition: { ...marketCache.marketDefinition, priceLadderDefinition: { type: StreamPriceLadderType.FINEST } },
+      };
+
+      expect(checkPlaceInstructions(manager, '1.123', instructions).rejections[0]?.reason)
+        .toBe(RiskRejectionReason.INVALID_ORDER);
+      expect(checkPlaceInstructions(manager, '1.123', instructions, { marketCache: finestMarket }).approved).toBe(true);
+      expect(checkPlaceInstructions(manager, '1.123', instructions, { priceLadder: FINEST_PRICE_LADDER }).approved)
+        .toBe(true);
+    });
+
+    it('should count open orders and matched bets towards market liability', () => {
+      manager = createRiskManager({ maxLiabilityPerMarket: 40 });
+
+      // Matched lay 10 @ 2 plus open lay 10 @ 3 already risk 30 if runner 11 wins
+      const result = checkPlaceInstructions(
+        manager,
+        '1.123',
+        [createInstruction(11, Side.LAY, 2, 10), createInstruction(11, Side.LAY, 2, 5)],
+        { orderCache: createOrderCache() }
+      );
+
+      expect(result.instructions).toHaveLength(1);
+      expect(result.rejections).toHaveLength(1);
+      expect(result.rejections[0]).toMatchObject({ index: 1, reason: RiskRejectionReason.MARKET_LIABILITY, value: 45 });
+    });
+
+    it('should enforce runner and strategy liability', () => {
+      manager = createRiskManager({ maxLiabilityPerRunner: 15 });
+      const runner = checkPlaceInstructions(manager, '1.123', [createInstruction(22, Side.LAY, 3, 10)]);
+      expect(runner.rejections[0]?.reason).toBe(RiskRejectionReason.RUNNER_LIABILITY);
+
+      manager = createRiskManager({ maxLiabilityPerStrategy: 25 });
+      const strategy = checkPlaceInstructions(manager, '1.123', [createInstruction(11, Side.LAY, 2, 10)], {
+        orderCache: createOrderCache(),
+        customerStrategyRef: 'scalper',
+      });
+      expect(strategy.rejections[0]).toMatchObject({ reason: RiskRejectionReason.STRATEGY_LIABILITY, value: 30 });
+    });
+
+    it('should limit the number of open orders', () => {
+      manager = createRiskManager({ maxOpenOrders: 2 });
+
+      const result = checkPlaceInstructions(
+        manager,
+        '1.123',
+        [createInstruction(11, Side.BACK, 3, 5), createInstruction(11, Side.BACK, 3, 5)],
+        { orderCache: createOrderCache() }
+      );
+
+      expect(result.instructions).toHaveLength(1);
+      expect(result.rejections[0]).toMatchObject({ index: 1, reason: RiskRejectionReason.MAX_OPEN_ORDERS });
+    });
+
+    it('should only allow configured market and event types', () => {
+      manager = createRiskManager({ allowedMarketTypes: ['WIN'], allowedEventTypeIds: ['4339'] });
+      const instructions = [createInstruction(11, Side.BACK, 3, 5)];
+
+      expect(checkPlaceInstructions(manager, '1.123', instructions, { marketCache }).rejections[0]?.reason)
+        .toBe(RiskRejectionReason.EVENT_TYPE_NOT_ALLOWED);
+      expect(checkPlaceInstructions(manager, '1.123', instructions, { marketType: 'PLACE' }).rejections[0]?.reason)
+        .toBe(RiskRejectionReason.MARKET_TYPE_NOT_ALLOWED);
+      expect(checkPlaceInstructions(manager, '1.123', instructions, { marketCache, eventTypeId: '4339' }).approved)
+        .toBe(true);
+    });
+
+    it('should check BSP orders against their liability', () => {
+      manager = createRiskManager({ maxStakePerBet: 50, maxLiabilityPerRunner: 60, clampStakes: true });
+      const bspLay: PlaceInstruction = {
+        orderType: OrderType.MARKET_ON_CLOSE,
+        selectionId: 22,
+        side: Side.LAY,
+        marketOnCloseOrder: { liability: 30 },
+      };
+
+      expect(checkPlaceInstructions(manager, '1.123', [bspLay]).approved).toBe(true);
+
+      const result = checkPlaceInstructions(manager, '1.123', [bspLay, { ...bspLay, marketOnCloseOrder: { liability: 40 } }]);
+      expect(result.rejections[0]).toMatchObject({ index: 1, reason: RiskRejectionReason.RUNNER_LIABILITY, value: 70 });
+
+      const clamped = checkPlaceInstructions(manager, '1.123', [{ ...bspLay, marketOnCloseOrder: { liability: 80 } }]);
+      expect(clamped.approved).toBe(true);
+      expect(clamped.instructions[0]?.marketOnCloseOrder).toEqual({ liability: 50 });
+      expect(clamped.clamped).toEqual([{ index: 0, originalSize: 80, size: 50 }]);
+    });
+
+    it('should reject BSP orders below the minimum liability', () => {
+      manager = createRiskManager({});
+
+      const result = checkPlaceInstructions(manager, '1.123', [{
+        orderType: OrderType.LIMIT_ON_CLOSE,
+        selectionId: 11,
+        side: Side.LAY,
+        limitOnCloseOrder: { liability: 5, price: 4 },
+      }]);
+
+      expect(result.rejections[0]).toMatchObject({
+        reason: RiskRejectionReason.INVALID_ORDER,
+        message: 'BSP lay liability must be at least 10',
+      });
+    });
+  });
+
+  describe('kill switch and daily loss', () => {
+    it('should block every order while the kill switch is active', () => {
+      manager = createRiskManager({});
+      activateKillSwitch(manager, 'Manual stop');
+
+      const result = checkPlaceInstructions(manager, '1.123', [
+        createInstruction(11, Side.BACK, 3, 5),
+        createInstruction(22, Side.BACK, 3, 5),
+      ]);
+
+      expect(result.instructions).toEqual([]);
+      expect(result.rejections.map(rejection => rejection.reason)).toEqual([
+        RiskRejectionReason.KILL_SWITCH,
+        RiskRejectionReason.KILL_SWITCH,
+      ]);
+      expect(result.rejections[0]?.message).toBe('Manual stop');
+
+      resetKillSwitch(manager);
+      expect(checkPlaceInstructions(manager, '1.123', [createInstruction(11, Side.BACK, 3, 5)]).approved).toBe(true);
+    });
+
+    it('should block orders once the daily loss is reached and reset the next day', () => {
+      manager = createRiskManager({ maxDailyLoss: 100 });
+      recordRealisedPnl(manager, -60);
+      recordRealisedPnl(manager, -40);
+
+      expect(checkPlaceInstructions(manager, '1.123', [createInstruction(11, Side.BACK, 3, 5)]).rejections[0]?.reason)
+        .toBe(RiskRejectionReason.DAILY_LOSS);
+
+      const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      expect(getDailyPnl(manager, tomorrow)).toBe(0);
+    });
+  });
+
+  describe('checkReplaceInstructions', () => {
+    it('should re-check the remaining size of replaced bets at the new price', () => {
+      manager = createRiskManager({ maxLiabilityPerRunner: 35 });
+      const context = { orderCache: createOrderCache() };
+
+      // Open lay 10 @ 3 moved to 4: 10 matched liability + 30 on the replacement
+      expect(checkReplaceInstructions(manager, '1.123', [{ betId: 'bet-1', newPrice: 4 }], context).rejections[0])
+        .toMatchObject({ reason: RiskRejectionReason.RUNNER_LIABILITY, value: 40 });
+      expect(checkReplaceInstructions(manager, '1.123', [{ betId: 'bet-1', newPrice: 2.5 }], context).approved)
+        .toBe(true);
+      expect(checkReplaceInstructions(manager, '1.123', [{ betId: 'bet-9', newPrice: 2.5 }], context).rejections[0]?.reason)
+        .toBe(RiskRejectionReason.UNKNOWN_ORDER);
+    });
+  });
+
+  describe('placeOrdersWithRiskLimits', () => {
+    let apiState: BetfairApiState;
+
+    beforeEach(() => {
+      apiState = createBetfairApiState('en', 'AUD', 0, 5000, jest.fn());
+    });
+
+    it('should send approved instructions with the strategy ref', async () => {
+      manager = createRiskManager({ maxStakePerBet: 5, clampStakes: true });
+      mockedPlaceOrdersResult.mockResolvedValue({ status: ExecutionReportStatus.SUCCESS });
+
+      await placeOrdersWithRiskLimits(manager, apiState, '1.123', [createInstruction(11, Side.BACK, 3, 10)], {
+        customerStrategyRef: 'scalper',
+      });
+
+      expect(mockedPlaceOrdersResult).toHaveBeenCalledWith(
+        apiState, '1.123', [createInstruction(11, Side.BACK, 3, 5)], '', 0, 'scalper', false
+      );
+    });
+
+    it('should throw a RiskLimitError without sending anything when an instruction is rejected', async () => {
+      manager = createRiskManager({ maxStakePerBet: 5 });
+
+      const request = placeOrdersWithRiskLimits(manager, apiState, '1.123', [createInstruction(11, Side.BACK, 3, 10)]);
+
+      await expect(request).rejects.toBeInstanceOf(RiskLimitError);
+      await expect(request).rejects.toMatchObject({
+        message: 'placeOrders blocked by risk limits: MAX_STAKE',
+        rejections: [expect.objectContaining({ reason: RiskRejectionReason.MAX_STAKE })],
+      });
+      expect(mockedPlaceOrdersResult).not.toHaveBeenCalled();
+    });
+  });
+});
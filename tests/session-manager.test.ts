@@ -0,0 +1,233 @@
+import {
+  SessionManagerState,
+  createSessionManager,
+  startSessionManager,
+  stopSessionManager,
+  addSessionStream,
+  refreshSession,
+  withSession,
+  isSessionError,
+} from '../src/session-manager';
+
+import {
+  BetfairApiState,
+  createBetfairApiState,
+  keepAlive,
+  logout,
+} from '../src/betfair-api';
+
+import {
+  StreamApiState,
+  createStreamApiState,
+  authenticateStreamAsync,
+} from '../src/betfair-exchange-stream-api';
+
+import { DEFAULT_BETFAIR_ENDPOINTS } from '../src/betfair-endpoints';
+import { BetfairSessionError } from '../src/betfair-api-errors';
+
+jest.mock('axios');
+jest.mock('tls');
+jest.mock('readline');
+jest.mock('../src/betfair-api', () => ({
+  ...jest.requireActual('../src/betfair-api'),
+  keepAlive: jest.fn(),
+  logout: jest.fn(),
+}));
+jest.mock('../src/betfair-exchange-stream-api', () => ({
+  ...jest.requireActual('../src/betfair-exchange-stream-api'),
+  authenticateStreamAsync: jest.fn(),
+}));
+
+const mockedKeepAlive = jest.mocked(keepAlive);
+const mockedLogout = jest.mocked(logout);
+const mockedAuthenticateStreamAsync = jest.mocked(authenticateStreamAsync);
+
+const sessionErrorResponse = (errorCode: string): any => ({
+  status: 200,
+  data: { error: { code: -32099, data: { APINGException: { errorCode } } } },
+});
+
+describe('Session Manager', () => {
+  let apiState: BetfairApiState;
+  let loginFn: jest.Mock;
+  let loginCount: number;
+  let manager: SessionManagerState;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    apiState = createBetfairApiState('en', 'AUD', 0, 5000, jest.fn());
+    loginCount = 0;
+    loginFn = jest.fn(async (state: BetfairApiState) => {
+      loginCount += 1;
+      return { ...state, appKey: 'app-key', sessionKey: `session-${loginCount}` };
+    });
+    manager = createSessionManager(apiState, loginFn, 1000);
+
+    mockedAuthenticateStreamAsync.mockImplementation(async state => ({ ...state, authenticationStatus: true }));
+
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await stopSessionManager(manager);
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    mockedKeepAlive.mockReset();
+    mockedLogout.mockReset();
+    mockedAuthenticateStreamAsync.mockReset();
+  });
+
+  describe('startSessionManager', () => {
+    it('should log in when not authenticated and keep the session alive on an interval', async () => {
+      mockedKeepAlive.mockResolvedValue({ data: { status: 'SUCCESS' } } as any);
+
+      await startSessionManager(manager);
+      expect(loginFn).toHaveBeenCalledTimes(1);
+      expect(manager.apiState.sessionKey).toBe('session-1');
+
+      jest.advanceTimersByTime(1000);
+      await Promise.resolve();
+      jest.advanceTimersByTime(1000);
+      await Promise.resolve();
+
+      expect(mockedKeepAlive).toHaveBeenCalledTimes(2);
+      expect(mockedKeepAlive).toHaveBeenCalledWith('session-1', DEFAULT_BETFAIR_ENDPOINTS);
+      expect(loginFn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should log the session out when stopped with logout', async () => {
+      mockedLogout.mockResolvedValue({ data: { status: 'SUCCESS' } } as any);
+      await startSessionManager(manager);
+
+      await stopSessionManager(manager, true);
+
+      expect(mockedLogout).toHaveBeenCalledWith('session-1', DEFAULT_BETFAIR_ENDPOINTS);
+      expect(manager.apiState.sessionKey).toBeUndefined();
+      expect(manager.keepAliveTimer).toBeUndefined();
+    });
+  });
+
+  describe('refreshSession', () => {
+    it('should log in again when keep alive reports no session', async () => {
+      manager.apiState = { ...apiState, appKey: 'app-key', sessionKey: 'expired' };
+      mockedKeepAlive.mockResolvedValue({ data: { status: 'FAIL', error: 'NO_SESSION' } } as any);
+
+      const refreshedState = await refreshSession(manager);
+
+      expect(loginFn).toHaveBeenCalledTimes(1);
+      expect(refreshedState.sessionKey).toBe('session-1');
+    });
+  });
+
+  describe('withSession', () => {
+    beforeEach(() => {
+      manager.apiState = { ...apiState, appKey: 'app-key', sessionKey: 'expired' };
+    });
+
+    it('should re-login and retry once when the response reports an invalid session', async () => {
+      const call = jest.fn(async (state: BetfairApiState) =>
+        state.sessionKey === 'expired'
+          ? sessionErrorResponse('INVALID_SESSION_INFORMATION')
+          : { status: 200, data: { result: ['ok'] } }
+      );
+
+      const response = await withSession(manager, call);
+
+      expect(call).toHaveBeenCalledTimes(2);
+      expect(call).toHaveBeenLastCalledWith(expect.objectContaining({ sessionKey: 'session-1' }));
+      expect(response.data.result).toEqual(['ok']);
+    });
+
+    it('should re-login and retry when the call throws a session error', async () => {
+      const call = jest.fn(async (state: BetfairApiState) => {
+        if (state.sessionKey === 'expired') {
+          throw { response: sessionErrorResponse('NO_SESSION') };
+        }
+        return 'ok';
+      });
+
+      await expect(withSession(manager, call)).resolves.toBe('ok');
+      expect(loginFn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should re-login and retry on a BetfairSessionError', async () => {
+      const call = jest.fn(async (state: BetfairApiState) => {
+        if (state.sessionKey === 'expired') {
+          throw new BetfairSessionError('listEvents failed: NO_SESSION', 'NO_SESSION');
+        }
+        return 'ok';
+      });
+
+      await expect(withSession(manager, call)).resolves.toBe('ok');
+    });
+
+    it('should only retry once', async () => {
+      const call = jest.fn(async () => sessionErrorResponse('NO_SESSION'));
+
+      const response = await withSession(manager, call);
+
+      expect(call).toHaveBeenCalledTimes(2);
+      expect(isSessionError(response)).toBe(true);
+    });
+
+    it('should rethrow errors unrelated to the session', async () => {
+      const call = jest.fn(async () => {
+        throw new Error('Network down');
+      });
+
+      await expect(withSession(manager, call)).rejects.toThrow('Network down');
+      expect(loginFn).not.toHaveBeenCalled();
+    });
+
+    it('should share one login between concurrent failures', async () => {
+      const call = jest.fn(async (state: BetfairApiState) =>
+        state.sessionKey === 'expired' ? sessionErrorResponse('NO_SESSION') : 'ok'
+      );
+
+      await Promise.all([withSession(manager, call), withSession(manager, call)]);
+
+      expect(loginFn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('stream propagation', () => {
+    let streamState: StreamApiState;
+    const binding = () => ({
+      getStreamState: () => streamState,
+      setStreamState: (state: StreamApiState) => {
+        streamState = state;
+      },
+    });
+
+    beforeEach(() => {
+      streamState = createStreamApiState('old-token', 'app-key', false, 0, 5000, { currencyCode: 'AUD', rate: 1 }, jest.fn());
+      manager.apiState = { ...apiState, appKey: 'app-key', sessionKey: 'expired' };
+    });
+
+    it('should set the refreshed token on disconnected streams', async () => {
+      addSessionStream(manager, binding());
+      mockedKeepAlive.mockResolvedValue({ data: { status: 'FAIL', error: 'NO_SESSION' } } as any);
+
+      await refreshSession(manager);
+
+      expect(streamState.authToken).toBe('session-1');
+      expect(mockedAuthenticateStreamAsync).not.toHaveBeenCalled();
+    });
+
+    it('should re-authenticate connected streams with the refreshed token', async () => {
+      streamState = { ...streamState, tlsSocket: { write: jest.fn() } as any, authenticationStatus: true };
+      addSessionStream(manager, binding());
+      mockedKeepAlive.mockResolvedValue({ data: { status: 'FAIL', error: 'NO_SESSION' } } as any);
+
+      await refreshSession(manager);
+
+      expect(mockedAuthenticateStreamAsync).toHaveBeenCalledWith(
+        expect.objectContaining({ authToken: 'session-1', appKey: 'app-key' })
+      );
+      expect(streamState.authToken).toBe('session-1');
+      expect(streamState.authenticationStatus).toBe(true);
+    });
+  });
+});
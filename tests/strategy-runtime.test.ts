@@ -0,0 +1,350 @@
+import {
+  Strategy,
+  StrategyRuntimeState,
+  createStrategyRuntime,
+  registerStrategy,
+  unregisterStrategy,
+  startStrategyRuntime,
+  stopStrategyRuntime,
+  handleStrategyMarketChange,
+  handleStrategyOrderChange,
+} from '../src/strategy-runtime';
+
+import {
+  BetfairApiState,
+  createBetfairApiState,
+  placeOrdersResult,
+  cancelOrdersResult,
+} from '../src/betfair-api';
+
+import {
+  openStream,
+  closeStream,
+  authenticateStreamAsync,
+  restartStream,
+  subscribeToMarketsAsync,
+  subscribeToOrdersAsync,
+} from '../src/betfair-exchange-stream-api';
+
+import { StreamConnectionState, getSupervisedStreamState } from '../src/stream-supervisor';
+
+import {
+  ExecutionReportStatus,
+  OrderType,
+  PersistenceType,
+  PlaceInstruction,
+  Side,
+} from '../src/betfair-api-types';
+
+import {
+  MarketCache,
+  OrderAccountCache,
+  RunnerCache,
+  StreamMarketStatus,
+  UnmatchedOrder,
+  StreamRunnerStatus,
+} from '../src/betfair-exchange-stream-api-types';
+
+import { createRiskManager } from '../src/risk-limits';
+
+jest.mock('tls');
+jest.mock('readline');
+jest.mock('axios');
+jest.mock('../src/betfair-api', () => ({
+  ...jest.requireActual('../src/betfair-api'),
+  placeOrdersResult: jest.fn(),
+  cancelOrdersResult: jest.fn(),
+}));
+jest.mock('../src/betfair-exchange-stream-api', () => ({
+  ...jest.requireActual('../src/betfair-exchange-stream-api'),
+  openStream: jest.fn(),
+  closeStream: jest.fn(),
+  authenticateStreamAsync: jest.fn(),
+  restartStream: jest.fn(),
+  subscribeToMarketsAsync: jest.fn(),
+  subscribeToOrdersAsync: jest.fn(),
+}));
+
+const mockedPlaceOrdersResult = jest.mocked(placeOrdersResult);
+const mockedCancelOrdersResult = jest.mocked(cancelOrdersResult);
+
+const createRunner = (id: number, backPrice: number): RunnerCache => ({
+  id,
+  status: StreamRunnerStatus.ACTIVE,
+  batb: [[0, backPrice, 10]],
+  batl: [[0, backPrice + 0.02, 10]],
+} as unknown as RunnerCache);
+
+const createMarket = (
+  status: StreamMarketStatus,
+  inPlay: boolean,
+  runners: RunnerCache[],
+  marketId: string = '1.123'
+): MarketCache => ({
+  marketId,
+  marketDefinition: { status, inPlay, numberOfWinners: 1, runners: runners.map(runner => ({ id: runner.id })) },
+  runners: Object.fromEntries(runners.map(runner => [runner.id.toString(), runner])),
+} as unknown as MarketCache);
+
+const createOrders = (marketId: string = '1.123'): OrderAccountCache => ({
+  marketId,
+  closed: false,
+  published: 0,
+  runners: {
+    '11': { id: 11, unmatchedOrders: {}, matchedBacks: [[2, 10]], matchedLays: [], strategyMatches: { scalper: { mb: [[2, 10]] } } },
+  },
+});
+
+const instruction: PlaceInstruction = {
+  orderType: OrderType.LIMIT,
+  selectionId: 11,
+  side: Side.BACK,
+  limitOrder: { size: 10, price: 2, persistenceType: PersistenceType.LAPSE },
+};
+
+describe('Strategy Runtime', () => {
+  let apiState: BetfairApiState;
+  let runtime: StrategyRuntimeState;
+
+  beforeEach(() => {
+    apiState = {
+      ...createBetfairApiState('en', 'AUD', 0, 5000, jest.fn()),
+      sessionKey: 'session',
+      appKey: 'app',
+    };
+    runtime = createStrategyRuntime(apiState);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    mockedPlaceOrdersResult.mockReset();
+    mockedCancelOrdersResult.mockReset();
+  });
+
+  describe('createStrategyRuntime', () => {
+    it('should create a stream with the API credentials', () => {
+      const streamState = getSupervisedStreamState(runtime.supervisor);
+      expect(streamState.authToken).toBe('session');
+      expect(streamState.appKey).toBe('app');
+      expect(streamState.audCurrencyRate).toEqual({ currencyCode: 'AUD', rate: 1 });
+    });
+
+    it('should require a logged in API state', () => {
+      expect(() => createStrategyRuntime(createBetfairApiState('en', 'AUD', 0, 5000, jest.fn())))
+        .toThrow('Not authenticated');
+    });
+
+    it('should reject duplicate strategy names', () => {
+      registerStrategy(runtime, { name: 'scalper' });
+
+      expect(() => registerStrategy(runtime, { name: 'scalper' })).toThrow('Strategy scalper is already registered');
+
+      unregisterStrategy(runtime, 'scalper');
+      expect(runtime.strategies).toEqual([]);
+    });
+  });
+
+  describe('handleStrategyMarketChange', () => {
+    it('should call the lifecycle hooks as the market moves through its states', () => {
+      const strategy = {
+        name: 'scalper',
+        onMarketOpen: jest.fn(),
+        onMarketChange: jest.fn(),
+        onInPlay: jest.fn(),
+        onSuspend: jest.fn(),
+        onClose: jest.fn(),
+      };
+      registerStrategy(runtime, strategy);
+      const runners = [createRunner(11, 2), createRunner(22, 3)];
+
+      handleStrategyMarketChange(runtime, { '1.123': createMarket(StreamMarketStatus.OPEN, false, runners) });
+      handleStrategyMarketChange(runtime, { '1.123': createMarket(StreamMarketStatus.SUSPENDED, false, runners) });
+      handleStrategyMarketChange(runtime, { '1.123': createMarket(StreamMarketStatus.OPEN, true, runners) });
+      handleStrategyMarketChange(runtime, { '1.123': createMarket(StreamMarketStatus.CLOSED, true, runners) });
+      handleStrategyMarketChange(runtime, { '1.123': createMarket(StreamMarketStatus.CLOSED, true, runners) });
+
+      expect(strategy.onMarketOpen).toHaveBeenCalledTimes(2);
+      expect(strategy.onSuspend).toHaveBeenCalledTimes(1);
+      expect(strategy.onInPlay).toHaveBeenCalledTimes(1);
+      expect(strategy.onMarketChange).toHaveBeenCalledTimes(3);
+      expect(strategy.onClose).toHaveBeenCalledTimes(1);
+      expect(strategy.onClose.mock.calls[0][0].market.marketDefinition.status).toBe(StreamMarketStatus.CLOSED);
+    });
+
+    it('should pass only the runners that changed and skip unchanged markets', () => {
+      const onMarketChange = jest.fn();
+      registerStrategy(runtime, { name: 'scalper', onMarketChange });
+      const unchangedRunner = createRunner(22, 3);
+      const market = createMarket(StreamMarketStatus.OPEN, false, [createRunner(11, 2), unchangedRunner]);
+      const otherMarket = createMarket(StreamMarketStatus.OPEN, false, [createRunner(33, 4)], '1.456');
+
+      handleStrategyMarketChange(runtime, { '1.123': market, '1.456': otherMarket });
+      handleStrategyMarketChange(runtime, {
+        '1.123': createMarket(StreamMarketStatus.OPEN, false, [createRunner(11, 2.02), unchangedRunner]),
+        '1.456': otherMarket,
+      });
+
+      expect(onMarketChange).toHaveBeenCalledTimes(3);
+      const [context, changedRunners] = onMarketChange.mock.calls[2];
+      expect(context.marketId).toBe('1.123');
+      expect(changedRunners.map((runner: RunnerCache) => runner.id)).toEqual([11]);
+    });
+
+    it('should only route markets accepted by the strategy filter', () => {
+      const onMarketChange = jest.fn();
+      registerStrategy(runtime, { name: 'scalper', marketFilter: market => market.marketId === '1.456', onMarketChange });
+
+      handleStrategyMarketChange(runtime, {
+        '1.123': createMarket(StreamMarketStatus.OPEN, false, []),
+        '1.456': createMarket(StreamMarketStatus.OPEN, false, [], '1.456'),
+      });
+
+      expect(onMarketChange).toHaveBeenCalledTimes(1);
+      expect(onMarketChange.mock.calls[0][0].marketId).toBe('1.456');
+    });
+
+    it('should keep routing updates when a strategy throws', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const failing: Strategy = { name: 'failing', onMarketChange: () => { throw new Error('boom'); } };
+      const rejecting: Strategy = { name: 'rejecting', onMarketChange: async () => { throw new Error('async boom'); } };
+      const working = { name: 'working', onMarketChange: jest.fn() };
+      [failing, rejecting, working].forEach(strategy => registerStrategy(runtime, strategy));
+
+      handleStrategyMarketChange(runtime, { '1.123': createMarket(StreamMarketStatus.OPEN, false, []) });
+      await Promise.resolve();
+
+      expect(working.onMarketChange).toHaveBeenCalledTimes(1);
+      expect(console.error).toHaveBeenCalledWith('Strategy failing onMarketChange failed:', expect.any(Error));
+      expect(console.error).toHaveBeenCalledWith('Strategy rejecting onMarketChange failed:', expect.any(Error));
+    });
+  });
+
+  describe('handleStrategyOrderChange', () => {
+    it('should route changed order caches with positions for the market', () => {
+      const onOrderChange = jest.fn();
+      registerStrategy(runtime, { name: 'scalper', onOrderChange });
+      handleStrategyMarketChange(runtime, {
+        '1.123': createMarket(StreamMarketStatus.OPEN, false, [createRunner(11, 2), createRunner(22, 3)]),
+      });
+      const orders = createOrders();
+
+      handleStrategyOrderChange(runtime, { '1.123': orders, '1.999': createOrders('1.999') });
+      handleStrategyOrderChange(runtime, { '1.123': orders });
+
+      expect(onOrderChange).toHaveBeenCalledTimes(1);
+      const [context] = onOrderChange.mock.calls[0];
+      expect(context.orders).toBe(orders);
+      expect(context.getPosition().strategies['scalper'].runners['11'].ifWin).toBeCloseTo(10);
+    });
+  });
+
+  describe('order placement', () => {
+    it('should place, cancel and replace orders with the strategy name as customerStrategyRef', async () => {
+      const onMarketOpen = jest.fn();
+      registerStrategy(runtime, { name: 'scalper', onMarketOpen });
+      handleStrategyMarketChange(runtime, { '1.123': createMarket(StreamMarketStatus.OPEN, false, [createRunner(11, 2)]) });
+      mockedPlaceOrdersResult.mockResolvedValue({ status: ExecutionReportStatus.SUCCESS });
+      mockedCancelOrdersResult.mockResolvedValue({ status: ExecutionReportStatus.SUCCESS });
+      const [context] = onMarketOpen.mock.calls[0];
+
+      await context.placeOrders([instruction], 'ref');
+      await context.cancelOrders([{ betId: '1' }]);
+
+      expect(mockedPlaceOrdersResult).toHaveBeenCalledWith(apiState, '1.123', [instruction], 'ref', 0, 'scalper', false);
+      expect(mockedCancelOrdersResult).toHaveBeenCalledWith(apiState, '1.123', [{ betId: '1' }], undefined);
+    });
+
+    it('should check orders against the risk manager when configured', async () => {
+      runtime = createStrategyRuntime(apiState, { riskManager: createRiskManager({ maxStakePerBet: 5 }) });
+      const onMarketOpen = jest.fn();
+      registerStrategy(runtime, { name: 'scalper', onMarketOpen });
+      handleStrategyMarketChange(runtime, { '1.123': createMarket(StreamMarketStatus.OPEN, false, [createRunner(11, 2)]) });
+      const [context] = onMarketOpen.mock.calls[0];
+
+      await expect(context.placeOrders([instruction])).rejects.toThrow('placeOrders blocked by risk limits: MAX_STAKE');
+      expect(mockedPlaceOrdersResult).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('replace risk limits', () => {
+    it('should check replaces against the strategy liability limit', async () => {
+      runtime = createStrategyRuntime(apiState, { riskManager: createRiskManager({ maxLiabilityPerStrategy: 15 }) });
+      const onOrderChange = jest.fn();
+      registerStrategy(runtime, { name: 'scalper', onOrderChange });
+      handleStrategyMarketChange(runtime, {
+        '1.123': createMarket(StreamMarketStatus.OPEN, false, [createRunner(11, 2), createRunner(12, 3)]),
+      });
+      const orders = createOrders();
+      orders.runners['11']!.unmatchedOrders = {
+        '101': { id: '101', p: 2, s: 10, sr: 10, sm: 0, side: 'B', status: 'E', rfs: 'scalper' } as unknown as UnmatchedOrder,
+      };
+      handleStrategyOrderChange(runtime, { '1.123': orders });
+      const [context] = onOrderChange.mock.calls[0];
+
+      // Backing 10 more loses 20 with the matched back, over the strategy's limit of 15
+      await expect(context.replaceOrders([{ betId: '101', newPrice: 3 }]))
+        .rejects.toThrow('replaceOrders blocked by risk limits: STRATEGY_LIABILITY');
+    });
+  });
+
+  describe('start and stop', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      jest.mocked(authenticateStreamAsync).mockImplementation(async state => state);
+      jest.mocked(subscribeToMarketsAsync).mockImplementation(async state => state);
+      jest.mocked(subscribeToOrdersAsync).mockImplementation(async state => state);
+      jest.mocked(closeStream).mockImplementation(state => ({ ...state, authenticationStatus: false }));
+    });
+
+    it('should connect, authenticate and subscribe to markets and orders', async () => {
+      // Each connection has its own live state, as openStream gives it
+      jest.mocked(openStream).mockImplementation(async state => ({ ...state, live: {}, connectionId: 'open' }));
+
+      await startStrategyRuntime(runtime, ['1.123']);
+
+      const openState = getSupervisedStreamState(runtime.supervisor);
+      expect(openState.connectionId).toBe('open');
+      expect(subscribeToMarketsAsync).toHaveBeenCalledWith(openState, ['1.123'], undefined);
+      expect(subscribeToOrdersAsync).toHaveBeenCalledWith(openState, undefined);
+      expect(runtime.supervisor.connectionState).toBe(StreamConnectionState.SUBSCRIBED);
+
+      stopStrategyRuntime(runtime);
+      expect(closeStream).toHaveBeenCalled();
+      expect(runtime.supervisor.connectionState).toBe(StreamConnectionState.STOPPED);
+    });
+
+    it('should reconnect a dropped stream and tell the strategies', async () => {
+      const connectionStates: StreamConnectionState[] = [];
+      runtime = createStrategyRuntime(apiState, { reconnectPolicy: { initialDelayMs: 0, jitter: 0 } });
+      registerStrategy(runtime, { name: 'watcher', onConnectionStateChange: state => { connectionStates.push(state); } });
+      jest.mocked(openStream).mockImplementation(async state => ({ ...state, live: {}, connectionId: 'open' }));
+      jest.mocked(restartStream).mockImplementation(async state => ({ ...state, live: {}, connectionId: 'restarted' }));
+      await startStrategyRuntime(runtime, ['1.123']);
+
+      getSupervisedStreamState(runtime.supervisor).connectionClosedCallback?.({ source: 'socket-closed' });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(restartStream).toHaveBeenCalledTimes(1);
+      expect(getSupervisedStreamState(runtime.supervisor).connectionId).toBe('restarted');
+      expect(connectionStates.slice(-3)).toEqual([
+        StreamConnectionState.RECONNECTING,
+        StreamConnectionState.CONNECTING,
+        StreamConnectionState.AUTHENTICATED,
+      ]);
+
+      stopStrategyRuntime(runtime);
+    });
+
+    it('should fail to start once the supervisor gives up connecting', async () => {
+      const connectionStates: StreamConnectionState[] = [];
+      runtime = createStrategyRuntime(apiState, { reconnectPolicy: { maxAttempts: 0 } });
+      registerStrategy(runtime, { name: 'watcher', onConnectionStateChange: state => { connectionStates.push(state); } });
+      jest.mocked(openStream).mockRejectedValue(new Error('ECONNREFUSED'));
+
+      await expect(startStrategyRuntime(runtime, ['1.123'])).rejects.toThrow('Strategy runtime stream did not connect: FAILED');
+      expect(connectionStates).toEqual([StreamConnectionState.CONNECTING, StreamConnectionState.FAILED]);
+      expect(subscribeToMarketsAsync).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,382 @@
+import {
+  StreamConnectionState,
+  ReconnectPolicy,
+  DEFAULT_RECONNECT_POLICY,
+  calculateReconnectDelay,
+  createStreamSupervisor,
+  startStreamSupervisor,
+  stopStreamSupervisor,
+  subscribeSupervisedMarkets,
+  getSupervisedStreamState,
+} from '../src/stream-supervisor';
+
+import {
+  StreamApiState,
+  createStreamApiState,
+  openStream,
+  restartStream,
+  authenticateStreamAsync,
+  StreamRequestError,
+} from '../src/betfair-exchange-stream-api';
+
+import { CurrencyRate, StatusCode, StreamErrorCode } from '../src/betfair-exchange-stream-api-types';
+
+import * as tls from 'tls';
+import { createInterface } from 'readline';
+
+jest.mock('tls');
+jest.mock('readline');
+jest.mock('../src/betfair-exchange-stream-api', () => ({
+  ...jest.requireActual('../src/betfair-exchange-stream-api'),
+  openStream: jest.fn(),
+  restartStream: jest.fn(),
+  authenticateStreamAsync: jest.fn(),
+}));
+
+const mockedOpenStream = jest.mocked(openStream);
+const mockedRestartStream = jest.mocked(restartStream);
+const mockedAuthenticateStreamAsync = jest.mocked(authenticateStreamAsync);
+
+// Lets pending promise callbacks run between fake timer advances
+const flushPromises = async (): Promise<void> => {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+};
+
+describe('Stream Supervisor', () => {
+  let currencyRate: CurrencyRate;
+  let streamState: StreamApiState;
+  let onStateChange: jest.Mock;
+  const policy: Partial<ReconnectPolicy> = { initialDelayMs: 100, maxDelayMs: 1000, jitter: 0, maxAttempts: 3 };
+
+  const connectedSocket = (): any => ({ write: jest.fn(), destroy: jest.fn() });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    currencyRate = { currencyCode: 'AUD', rate: 1.0 };
+    streamState = createStreamApiState('token', 'app-key', false, 0, 5000, currencyRate, jest.fn());
+    onStateChange = jest.fn();
+
+    // Each connection gets its own live state holder, as openStream does
+    mockedOpenStream.mockImplementation(async state => ({ ...state, live: {}, tlsSocket: connectedSocket() }));
+    mockedAuthenticateStreamAsync.mockImplementation(async state => ({ ...state, authenticationStatus: true }));
+    mockedRestartStream.mockImplementation(async state => ({
+      ...state,
+      live: {},
+      tlsSocket: connectedSocket(),
+      authenticationStatus: true,
+    }));
+
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    mockedOpenStream.mockReset();
+    mockedRestartStream.mockReset();
+    mockedAuthenticateStreamAsync.mockReset();
+  });
+
+  const emittedStates = (): StreamConnectionState[] => onStateChange.mock.calls.map(call => call[0]);
+
+  describe('calculateReconnectDelay', () => {
+    it('should grow exponentially and cap at the max delay', () => {
+      const noJitter = { ...DEFAULT_RECONNECT_POLICY, initialDelayMs: 1000, maxDelayMs: 10000, jitter: 0 };
+
+      expect(calculateReconnectDelay(noJitter, 1)).toBe(1000);
+      expect(calculateReconnectDelay(noJitter, 2)).toBe(2000);
+      expect(calculateReconnectDelay(noJitter, 3)).toBe(4000);
+      expect(calculateReconnectDelay(noJitter, 10)).toBe(10000);
+    });
+
+    it('should apply jitter within the configured fraction', () => {
+      const jittered = { ...DEFAULT_RECONNECT_POLICY, initialDelayMs: 1000, jitter: 0.5 };
+
+      expect(calculateReconnectDelay(jittered, 1, () => 0)).toBe(500);
+      expect(calculateReconnectDelay(jittered, 1, () => 0.5)).toBe(1000);
+      expect(calculateReconnectDelay(jittered, 1, () => 0.99)).toBe(1490);
+    });
+  });
+
+  describe('startStreamSupervisor', () => {
+    it('should connect and authenticate the stream', async () => {
+      const supervisor = createStreamSupervisor(streamState, policy, onStateChange);
+      await startStreamSupervisor(supervisor);
+
+      expect(emittedStates()).toEqual([
+        StreamConnectionState.CONNECTING,
+        StreamConnectionState.CONNECTED,
+        StreamConnectionState.AUTHENTICATED,
+      ]);
+      expect(supervisor.streamState.authenticationStatus).toBe(true);
+      expect(supervisor.streamState.connectionClosedCallback).toBeDefined();
+
+      stopStreamSupervisor(supervisor);
+    });
+
+    it('should fail without retrying when Betfair rejects the app key', async () => {
+      mockedAuthenticateStreamAsync.mockRejectedValue(
+        new StreamRequestError('Invalid app key', StreamErrorCode.INVALID_APP_KEY, 1)
+      );
+      const supervisor = createStreamSupervisor(streamState, policy, onStateChange);
+      await startStreamSupervisor(supervisor);
+
+      expect(supervisor.connectionState).toBe(StreamConnectionState.FAILED);
+      expect(mockedRestartStream).not.toHaveBeenCalled();
+    });
+
+    it('should emit SUBSCRIBED after subscribing through the supervisor', async () => {
+      const supervisor = createStreamSupervisor(streamState, policy, onStateChange);
+      await startStreamSupervisor(supervisor);
+      subscribeSupervisedMarkets(supervisor, ['1.123']);
+
+      expect(supervisor.connectionState).toBe(StreamConnectionState.SUBSCRIBED);
+      expect(supervisor.streamState.lastMarkets).toEqual(['1.123']);
+
+      stopStreamSupervisor(supervisor);
+    });
+  });
+
+  describe('reconnection', () => {
+    it('should reconnect with backoff when the socket closes', async () => {
+      const supervisor = createStreamSupervisor(streamState, policy, onStateChange);
+      await startStreamSupervisor(supervisor);
+
+      supervisor.streamState.connectionClosedCallback!({
+        source: 'socket-closed',
+        tlsSocket: supervisor.streamState.tlsSocket,
+      });
+
+      expect(supervisor.connectionState).toBe(StreamConnectionState.RECONNECTING);
+      expect(onStateChange).toHaveBeenLastCalledWith(
+        StreamConnectionState.RECONNECTING,
+        expect.objectContaining({ attempt: 1, delayMs: 100 })
+      );
+
+      jest.advanceTimersByTime(100);
+      await flushPromises();
+
+      expect(mockedRestartStream).toHaveBeenCalledTimes(1);
+      expect(supervisor.connectionState).toBe(StreamConnectionState.AUTHENTICATED);
+      expect(supervisor.attempt).toBe(0);
+
+      stopStreamSupervisor(supervisor);
+    });
+
+    it('should ignore close events from sockets it has already replaced', async () => {
+      const supervisor = createStreamSupervisor(streamState, policy, onStateChange);
+      await startStreamSupervisor(supervisor);
+      onStateChange.mockClear();
+
+      supervisor.streamState.connectionClosedCallback!({ source: 'socket-closed', tlsSocket: {} });
+
+      expect(onStateChange).not.toHaveBeenCalled();
+      stopStreamSupervisor(supervisor);
+    });
+
+    it('should report a stale connection on heartbeat timeout and reconnect', async () => {
+      const supervisor = createStreamSupervisor(streamState, policy, onStateChange);
+      await startStreamSupervisor(supervisor);
+
+      supervisor.streamState.heartbeat.onHeartAttack();
+
+      expect(emittedStates()).toContain(StreamConnectionState.STALE);
+      expect(supervisor.connectionState).toBe(StreamConnectionState.RECONNECTING);
+
+      stopStreamSupervisor(supervisor);
+    });
+
+    it('should fail after the maximum number of attempts', async () => {
+      mockedRestartStream.mockRejectedValue(new Error('connect ECONNREFUSED'));
+      const supervisor = createStreamSupervisor(streamState, policy, onStateChange);
+      await startStreamSupervisor(supervisor);
+
+      supervisor.streamState.connectionClosedCallback!({
+        source: 'socket-error',
+        tlsSocket: supervisor.streamState.tlsSocket,
+        error: new Error('reset'),
+      });
+
+      for (const delay of [100, 200, 400]) {
+        jest.advanceTimersByTime(delay);
+        await flushPromises();
+      }
+
+      expect(mockedRestartStream).toHaveBeenCalledTimes(3);
+      expect(supervisor.connectionState).toBe(StreamConnectionState.FAILED);
+      expect(supervisor.isStopped).toBe(true);
+    });
+
+    it('should wait the maximum delay when the connection limit is exceeded', async () => {
+      const supervisor = createStreamSupervisor(streamState, policy, onStateChange);
+      await startStreamSupervisor(supervisor);
+
+      supervisor.streamState.connectionClosedCallback!({
+        source: 'status',
+        tlsSocket: supervisor.streamState.tlsSocket,
+        statusMessage: {
+          id: 1,
+          op: 'status',
+          statusCode: StatusCode.FAILURE,
+          connectionClosed: true,
+          errorCode: StreamErrorCode.MAX_CONNECTION_LIMIT_EXCEEDED,
+          errorMessage: 'Too many connections',
+          connectionsAvailable: 0,
+        },
+      });
+
+      expect(onStateChange).toHaveBeenLastCalledWith(
+        StreamConnectionState.RECONNECTING,
+        expect.objectContaining({ delayMs: 1000, errorCode: 'MAX_CONNECTION_LIMIT_EXCEEDED' })
+      );
+
+      stopStreamSupervisor(supervisor);
+    });
+
+    it('should fail immediately on fatal status error codes', async () => {
+      const supervisor = createStreamSupervisor(streamState, policy, onStateChange);
+      await startStreamSupervisor(supervisor);
+
+      supervisor.streamState.connectionClosedCallback!({
+        source: 'status',
+        tlsSocket: supervisor.streamState.tlsSocket,
+        statusMessage: {
+          id: 1,
+          op: 'status',
+          statusCode: StatusCode.FAILURE,
+          connectionClosed: true,
+          errorCode: StreamErrorCode.INVALID_APP_KEY,
+          errorMessage: 'Invalid app key',
+          connectionsAvailable: 0,
+        },
+      });
+
+      expect(supervisor.connectionState).toBe(StreamConnectionState.FAILED);
+      expect(mockedRestartStream).not.toHaveBeenCalled();
+    });
+
+    it('should stop reconnecting when stopped', async () => {
+      const supervisor = createStreamSupervisor(streamState, policy, onStateChange);
+      await startStreamSupervisor(supervisor);
+
+      supervisor.streamState.connectionClosedCallback!({
+        source: 'socket-closed',
+        tlsSocket: supervisor.streamState.tlsSocket,
+      });
+      stopStreamSupervisor(supervisor);
+      await flushPromises();
+
+      jest.advanceTimersByTime(1000);
+      await flushPromises();
+
+      expect(mockedRestartStream).not.toHaveBeenCalled();
+      expect(supervisor.connectionState).toBe(StreamConnectionState.STOPPED);
+    });
+  });
+
+  describe('reconnection over the stream API', () => {
+    const actual = jest.requireActual('../src/betfair-exchange-stream-api');
+    let sockets: { write: jest.Mock }[];
+    let lineHandlers: ((data: string) => void)[];
+
+    const lastMessage = (socket: { write: jest.Mock }): any => {
+      const writes = socket.write.mock.calls;
+      return JSON.parse(writes[writes.length - 1][0]);
+    };
+
+    // Replies to the last request on the newest connection
+    const acceptLastRequest = async (): Promise<void> => {
+      await flushPromises();
+      const connection = sockets.length - 1;
+      lineHandlers[connection]!(JSON.stringify({
+        op: 'status',
+        id: lastMessage(sockets[connection]!).id,
+        statusCode: 'SUCCESS',
+        connectionClosed: false,
+      }));
+      await flushPromises();
+    };
+
+    beforeEach(() => {
+      sockets = [];
+      lineHandlers = [];
+      mockedOpenStream.mockImplementation(actual.openStream);
+      mockedRestartStream.mockImplementation(actual.restartStream);
+      mockedAuthenticateStreamAsync.mockImplementation(actual.authenticateStreamAsync);
+
+      jest.mocked(tls.connect).mockImplementation(((_options: unknown, onConnect: () => void) => {
+        const socket = { on: jest.fn(), write: jest.fn(), destroy: jest.fn() };
+        sockets.push(socket);
+        void Promise.resolve().then(onConnect);
+        return socket;
+      }) as any);
+      jest.mocked(createInterface).mockImplementation((() => ({
+        on: jest.fn((event: string, handler: (data: string) => void) => {
+          if (event === 'line') {
+            lineHandlers.push(handler);
+          }
+        }),
+      })) as any);
+    });
+
+    const connectAndSubscribe = async () => {
+      const supervisor = createStreamSupervisor(streamState, policy, onStateChange);
+      const starting = startStreamSupervisor(supervisor);
+      await acceptLastRequest();
+      await starting;
+      subscribeSupervisedMarkets(supervisor, ['1.123']);
+
+      lineHandlers[0]!(JSON.stringify({ op: 'mcm', id: 1, initialClk: 'init-1', clk: 'clk-1', pt: 1, ct: 'SUB_IMAGE', mc: [] }));
+      lineHandlers[0]!(JSON.stringify({ op: 'mcm', id: 1, clk: 'clk-2', pt: 2, ct: 'HEARTBEAT' }));
+      return supervisor;
+    };
+
+    it('should resume the subscription with the clocks received before the connection dropped', async () => {
+      const supervisor = await connectAndSubscribe();
+
+      getSupervisedStreamState(supervisor).connectionClosedCallback!({
+        source: 'socket-closed',
+        tlsSocket: sockets[0],
+      });
+      jest.advanceTimersByTime(100);
+      await acceptLastRequest();
+
+      expect(sockets).toHaveLength(2);
+      expect(lastMessage(sockets[1]!)).toMatchObject({
+        op: 'marketSubscription',
+        marketFilter: { marketIds: ['1.123'] },
+        initialClk: 'init-1',
+        clk: 'clk-2',
+      });
+      expect(supervisor.connectionState).toBe(StreamConnectionState.SUBSCRIBED);
+
+      stopStreamSupervisor(supervisor);
+    });
+
+    it('should resubscribe with a full image after INVALID_CLOCK', async () => {
+      const supervisor = await connectAndSubscribe();
+
+      lineHandlers[0]!(JSON.stringify({
+        op: 'status',
+        id: 9,
+        statusCode: 'FAILURE',
+        connectionClosed: true,
+        errorCode: 'INVALID_CLOCK',
+      }));
+      jest.advanceTimersByTime(100);
+      await acceptLastRequest();
+
+      const resubscription = lastMessage(sockets[1]!);
+      expect(resubscription.op).toBe('marketSubscription');
+      expect(resubscription.initialClk).toBeUndefined();
+      expect(resubscription.clk).toBeUndefined();
+
+      stopStreamSupervisor(supervisor);
+    });
+  });
+});
@@ -11,8 +11,28 @@ import {
   getNextTick,
   getPreviousTick,
   getNearestValidPrice,
+  isValidPrice,
+  getPriceLadder,
+  getMarketDefinitionPriceLadder,
+  CLASSIC_PRICE_LADDER,
+  FINEST_PRICE_LADDER,
+  getPriceIndex,
+  getTicksBetween,
+  getPriceTicksAway,
+  clampPrice,
+  priceToProbability,
+  probabilityToPrice,
+  calculateBookPercentage,
 } from '../src/utils';
 
+import { PriceLadderType } from '../src/betfair-api-types';
+import {
+  MarketCache,
+  MarketDefinition,
+  StreamPriceLadderType,
+  StreamRunnerStatus,
+} from '../src/betfair-exchange-stream-api-types';
+
 describe('Utils Functions', () => {
   describe('generatePacketId', () => {
     it('should generate packet IDs within the expected range', () => {
@@ -333,6 +353,8 @@ describe('Utils Functions', () => {
         expect(getNearestValidPrice(0.5)).toBe(1.01);   // Below minimum
         expect(getNearestValidPrice(1500)).toBe(1000);  // Above maximum
         expect(getNearestValidPrice(1.01)).toBe(1.01);  // Already valid
+        expect(getNearestValidPrice(2.6, 'up')).toBe(2.6);  // Valid despite floating point step error
+        expect(getNearestValidPrice(4.9, 'down')).toBe(4.9);
       });
 
       it('should handle boundary prices correctly', () => {
@@ -341,5 +363,124 @@ describe('Utils Functions', () => {
         expect(getNearestValidPrice(99.9)).toBe(100);   // At boundary
       });
     });
+
+    describe('isValidPrice', () => {
+      it('should accept only ladder ticks inside the range', () => {
+        expect(isValidPrice(2.52)).toBe(true);
+        expect(isValidPrice(2.51)).toBe(false);
+        expect(isValidPrice(1000)).toBe(true);
+        expect(isValidPrice(1)).toBe(false);
+      });
+    });
+  });
+
+  describe('Price Ladder Types', () => {
+    const lineRangeInfo = { minUnitValue: 0.5, maxUnitValue: 10.5, interval: 1, marketUnit: 'Goals' };
+    const lineLadder = getPriceLadder({ type: PriceLadderType.LINE_RANGE }, lineRangeInfo);
+
+    it('should pick the ladder from the market description', () => {
+      expect(getPriceLadder()).toBe(CLASSIC_PRICE_LADDER);
+      expect(getPriceLadder({ type: PriceLadderType.FINEST })).toBe(FINEST_PRICE_LADDER);
+      expect(lineLadder).toMatchObject({ type: PriceLadderType.LINE_RANGE, min: 0.5, max: 10.5 });
+      expect(() => getPriceLadder({ type: PriceLadderType.LINE_RANGE })).toThrow('line range info');
+    });
+
+    it('should pick the ladder from the stream market definition', () => {
+      const definition = {
+        priceLadderDefinition: { type: StreamPriceLadderType.LINE_RANGE },
+        lineMinUnit: 0.5,
+        lineMaxUnit: 10.5,
+        lineInterval: 1,
+      } as MarketDefinition;
+
+      expect(getMarketDefinitionPriceLadder(definition).ranges).toEqual([{ min: 0.5, max: 10.5, increment: 1 }]);
+      expect(getMarketDefinitionPriceLadder({ priceLadderDefinition: { type: StreamPriceLadderType.FINEST } } as MarketDefinition))
+        .toBe(FINEST_PRICE_LADDER);
+      expect(getMarketDefinitionPriceLadder(undefined)).toBe(CLASSIC_PRICE_LADDER);
+    });
+
+    it('should step by 0.01 across the whole FINEST ladder', () => {
+      expect(getTickSize(500, FINEST_PRICE_LADDER)).toBe(0.01);
+      expect(getNextTick(120, FINEST_PRICE_LADDER)).toBe(120.01);
+      expect(getPreviousTick(3.4, FINEST_PRICE_LADDER)).toBe(3.39);
+      expect(getNearestValidPrice(25.456, 'up', FINEST_PRICE_LADDER)).toBe(25.46);
+      expect(isValidPrice(2.51, FINEST_PRICE_LADDER)).toBe(true);
+      expect(generatePriceLadder(undefined, undefined, FINEST_PRICE_LADDER)).toHaveLength(99900);
+    });
+
+    it('should step through line values on LINE_RANGE ladders', () => {
+      expect(generatePriceLadder(undefined, undefined, lineLadder)).toEqual([0.5, 1.5, 2.5, 3.5, 4.5, 5.5, 6.5, 7.5, 8.5, 9.5, 10.5]);
+      expect(getNextTick(2.5, lineLadder)).toBe(3.5);
+      expect(getNextTick(10.5, lineLadder)).toBe(null);
+      expect(getPreviousTick(0.5, lineLadder)).toBe(null);
+      expect(getNearestValidPrice(3.2, 'nearest', lineLadder)).toBe(3.5);
+      expect(getNearestValidPrice(3.2, 'down', lineLadder)).toBe(2.5);
+      expect(getNearestValidPrice(20, 'nearest', lineLadder)).toBe(10.5);
+      expect(isValidPrice(3, lineLadder)).toBe(false);
+    });
+
+    it('should cache line ladders per line range', () => {
+      const otherLadder = getPriceLadder({ type: PriceLadderType.LINE_RANGE }, { ...lineRangeInfo, interval: 0.5 });
+
+      expect(generatePriceLadder(undefined, undefined, otherLadder)).toHaveLength(21);
+      expect(generatePriceLadder(undefined, undefined, lineLadder)).toHaveLength(11);
+    });
+  });
+
+  describe('Tick Arithmetic', () => {
+    it('should index prices on the ladder', () => {
+      expect(getPriceIndex(1.01)).toBe(0);
+      expect(getPriceIndex(2)).toBe(99);
+      expect(getPriceIndex(2.02)).toBe(100);
+      expect(getPriceIndex(1000)).toBe(generatePriceLadder().length - 1);
+      expect(getPriceIndex(2.009)).toBe(99);   // Rounded to the nearest tick
+      expect(getPriceIndex(0.5)).toBe(0);      // Clamped to the ladder
+    });
+
+    it('should count ticks between prices across tick ranges', () => {
+      expect(getTicksBetween(1.98, 2.04)).toBe(4);
+      expect(getTicksBetween(3, 2.9)).toBe(-5);
+      expect(getTicksBetween(2.5, 2.5)).toBe(0);
+      expect(getTicksBetween(2.5, 2.51, FINEST_PRICE_LADDER)).toBe(1);
+    });
+
+    it('should move a number of ticks and stop at the ends of the ladder', () => {
+      expect(getPriceTicksAway(1.98, 3)).toBe(2.02);
+      expect(getPriceTicksAway(2.02, -3)).toBe(1.98);
+      expect(getPriceTicksAway(1.02, -5)).toBe(1.01);
+      expect(getPriceTicksAway(990, 5)).toBe(1000);
+      expect(getPriceTicksAway(120, 1, FINEST_PRICE_LADDER)).toBe(120.01);
+    });
+
+    it('should clamp prices to the ladder range', () => {
+      expect(clampPrice(0.5)).toBe(1.01);
+      expect(clampPrice(1500)).toBe(1000);
+      expect(clampPrice(3.33)).toBe(3.33);
+    });
+
+    it('should convert between odds and implied probability', () => {
+      expect(priceToProbability(4)).toBe(0.25);
+      expect(probabilityToPrice(0.25)).toBe(4);
+      expect(() => priceToProbability(0)).toThrow('Price must be greater than 0');
+      expect(() => probabilityToPrice(1.5)).toThrow('Probability must be greater than 0 and at most 1');
+    });
+  });
+
+  describe('calculateBookPercentage', () => {
+    it('should sum the implied probability of each active runner\'s best price', () => {
+      const marketCache = {
+        marketId: '1.123',
+        runners: {
+          '11': { id: 11, status: StreamRunnerStatus.ACTIVE, batb: [[0, 2, 10]], batl: [[0, 2.02, 10]] },
+          '22': { id: 22, status: StreamRunnerStatus.ACTIVE, batb: [[0, 2.5, 10]], batl: [[0, 2.6, 0], [1, 2.62, 5]] },
+          '33': { id: 33, status: StreamRunnerStatus.REMOVED, batb: [[0, 4, 10]], batl: [[0, 4.1, 10]] },
+        },
+      } as unknown as MarketCache;
+
+      const book = calculateBookPercentage(marketCache);
+
+      expect(book.back).toBeCloseTo(90);
+      expect(book.lay).toBeCloseTo(100 / 2.02);
+    });
   });
-});
\ No newline at end of file
+});